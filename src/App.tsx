@@ -4,6 +4,10 @@ import { Route, BrowserRouter as Router, Routes } from 'react-router-dom';
 import './App.css';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import NavBar from './components/NavBar/NavBar';
+import { CategoriesProvider } from './contexts/CategoriesContext';
+import { CommandsProvider } from './contexts/CommandsContext';
+import { SequencesProvider } from './contexts/SequencesContext';
+import { SettingsProvider } from './contexts/SettingsContext';
 import Home from './pages/Home';
 import Settings from './pages/Settings';
 import Stats from './pages/Stats';
@@ -33,23 +37,31 @@ function App() {
 
     return (
         <ErrorBoundary fallback={<div>Something went wrong</div>}>
-            <Router>
-                <NavBar />
-                <Routes>
-                    <Route
-                        path="/"
-                        element={<Home />}
-                    />
-                    <Route
-                        path="/stats"
-                        element={<Stats />}
-                    />
-                    <Route
-                        path="/settings"
-                        element={<Settings />}
-                    />
-                </Routes>
-            </Router>
+            <SettingsProvider>
+                <CategoriesProvider>
+                    <SequencesProvider>
+                        <Router>
+                            <CommandsProvider>
+                                <NavBar />
+                                <Routes>
+                                    <Route
+                                        path="/"
+                                        element={<Home />}
+                                    />
+                                    <Route
+                                        path="/stats"
+                                        element={<Stats />}
+                                    />
+                                    <Route
+                                        path="/settings"
+                                        element={<Settings />}
+                                    />
+                                </Routes>
+                            </CommandsProvider>
+                        </Router>
+                    </SequencesProvider>
+                </CategoriesProvider>
+            </SettingsProvider>
         </ErrorBoundary>
     );
 }
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import type { Command, CommandId, KeyBindings } from '../../types';
+import { fuzzyFilter } from '../../utils/fuzzySearch';
+import styles from './Commands.module.css';
+import { KeyCombo } from './KeyCombo';
+
+interface CommandPaletteProps {
+    commands: Command[];
+    keyBindings: KeyBindings;
+    onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Searches every registered command, task and category by name and runs
+ * the one picked with Enter or a click.
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+    commands,
+    keyBindings,
+    onClose,
+}) => {
+    const [query, setQuery] = useState('');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+
+    const results = useMemo(
+        () =>
+            fuzzyFilter(
+                commands.filter((command) => !command.disabled),
+                query,
+                (command) => `${command.title} ${command.keywords ?? ''}`
+            ).slice(0, MAX_RESULTS),
+        [commands, query]
+    );
+
+    const runCommand = (command: Command) => {
+        onClose();
+        command.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                setSelectedIndex((index) => Math.min(index + 1, results.length - 1));
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                setSelectedIndex((index) => Math.max(index - 1, 0));
+                break;
+            case 'Enter':
+                e.preventDefault();
+                if (results[selectedIndex]) {
+                    runCommand(results[selectedIndex]);
+                }
+                break;
+            case 'Escape':
+                e.preventDefault();
+                onClose();
+                break;
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onMouseDown={onClose}>
+            <div
+                className={styles.palette}
+                role="dialog"
+                aria-label="Command palette"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <input
+                    type="text"
+                    className={styles.paletteInput}
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setSelectedIndex(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Search tasks, categories and actions"
+                    aria-label="Search commands"
+                    aria-controls="command-palette-results"
+                    aria-activedescendant={
+                        results[selectedIndex] ? `command-${selectedIndex}` : undefined
+                    }
+                    autoFocus
+                />
+                <ul id="command-palette-results" className={styles.results} role="listbox">
+                    {results.length === 0 && (
+                        <li className={styles.noResults}>No matches</li>
+                    )}
+                    {results.map((command, index) => {
+                        const combo = keyBindings[command.id as CommandId];
+                        return (
+                            <li
+                                key={command.id}
+                                id={`command-${index}`}
+                                role="option"
+                                aria-selected={index === selectedIndex}
+                                className={`${styles.result} ${
+                                    index === selectedIndex ? styles.resultSelected : ''
+                                }`}
+                                onMouseEnter={() => setSelectedIndex(index)}
+                                onClick={() => runCommand(command)}
+                            >
+                                <span className={styles.resultGroup}>{command.group}</span>
+                                <span className={styles.resultTitle}>{command.title}</span>
+                                {combo && <KeyCombo combo={combo} />}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+};
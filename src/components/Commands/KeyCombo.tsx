@@ -0,0 +1,18 @@
+import React from 'react';
+import { getKeyComboParts, isMacPlatform } from '../../utils/hotkeys';
+import styles from './Commands.module.css';
+
+interface KeyComboProps {
+    combo: string;
+}
+
+/**
+ * Shows a key combo as keycaps, using the platform's name for Ctrl/Cmd.
+ */
+export const KeyCombo: React.FC<KeyComboProps> = ({ combo }) => (
+    <span className={styles.keyCombo}>
+        {getKeyComboParts(combo, isMacPlatform()).map((part, index) => (
+            <kbd key={index}>{part}</kbd>
+        ))}
+    </span>
+);
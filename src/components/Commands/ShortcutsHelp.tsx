@@ -0,0 +1,74 @@
+import React, { useEffect } from 'react';
+import { COMMAND_DEFINITIONS } from '../../constants/commandConstants';
+import type { CommandGroup, CommandId, KeyBindings } from '../../types';
+import styles from './Commands.module.css';
+import { KeyCombo } from './KeyCombo';
+
+interface ShortcutsHelpProps {
+    keyBindings: KeyBindings;
+    onClose: () => void;
+}
+
+/**
+ * Lists the keyboard shortcuts, grouped the way they are in Settings.
+ */
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ keyBindings, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const groups = new Map<CommandGroup, CommandId[]>();
+    (Object.keys(COMMAND_DEFINITIONS) as CommandId[]).forEach((commandId) => {
+        const { group } = COMMAND_DEFINITIONS[commandId];
+        groups.set(group, [...(groups.get(group) ?? []), commandId]);
+    });
+
+    return (
+        <div className={styles.overlay} onMouseDown={onClose}>
+            <div
+                className={styles.help}
+                role="dialog"
+                aria-label="Keyboard shortcuts"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className={styles.helpHeader}>
+                    <h2>Keyboard shortcuts</h2>
+                    <button
+                        className={styles.closeButton}
+                        onClick={onClose}
+                        aria-label="Close"
+                    >
+                        ✕
+                    </button>
+                </div>
+                {[...groups].map(([group, commandIds]) => (
+                    <section key={group}>
+                        <h3 className={styles.helpGroup}>{group}</h3>
+                        <dl className={styles.helpList}>
+                            {commandIds.map((commandId) => (
+                                <div key={commandId} className={styles.helpRow}>
+                                    <dt>{COMMAND_DEFINITIONS[commandId].title}</dt>
+                                    <dd>
+                                        {keyBindings[commandId] ? (
+                                            <KeyCombo combo={keyBindings[commandId]} />
+                                        ) : (
+                                            <span className={styles.unbound}>Not set</span>
+                                        )}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </section>
+                ))}
+                <p className={styles.helpFooter}>Shortcuts can be changed in Settings.</p>
+            </div>
+        </div>
+    );
+};
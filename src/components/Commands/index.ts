@@ -0,0 +1,3 @@
+export { CommandPalette } from './CommandPalette';
+export { KeyCombo } from './KeyCombo';
+export { ShortcutsHelp } from './ShortcutsHelp';
@@ -0,0 +1,47 @@
+import React from 'react';
+import { WeeklyGoalProgress } from '../../types';
+import { formatTotalDuration } from '../../utils/dateTime';
+import styles from './Goals.module.css';
+
+interface GoalHistoryProps {
+    weeks: WeeklyGoalProgress[];
+    weeklyFocusGoal: number;
+}
+
+const formatWeekLabel = (weekStart: number): string =>
+    `Week of ${new Date(weekStart).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}`;
+
+/**
+ * Table of recent weeks against the weekly focus goal, newest first.
+ */
+export const GoalHistory: React.FC<GoalHistoryProps> = ({ weeks, weeklyFocusGoal }) => {
+    if (weeks.length === 0) return null;
+
+    return (
+        <table className={styles.goalHistory}>
+            <thead>
+                <tr>
+                    <th scope="col">Week</th>
+                    <th scope="col">Focus</th>
+                    <th scope="col">Days on goal</th>
+                    <th scope="col">Weekly goal</th>
+                </tr>
+            </thead>
+            <tbody>
+                {[...weeks].reverse().map((week) => (
+                    <tr key={week.weekStart}>
+                        <th scope="row">{formatWeekLabel(week.weekStart)}</th>
+                        <td>
+                            {formatTotalDuration(week.minutes * 60000)} /{' '}
+                            {formatTotalDuration(weeklyFocusGoal * 60000)}
+                        </td>
+                        <td>{week.daysMeetingDailyGoal}</td>
+                        <td className={week.met ? styles.goalMet : styles.goalMissed}>
+                            {week.met ? 'Met' : `${Math.round((week.minutes / weeklyFocusGoal) * 100)}%`}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
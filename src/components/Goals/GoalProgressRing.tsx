@@ -0,0 +1,71 @@
+import React from 'react';
+import styles from './Goals.module.css';
+
+interface GoalProgressRingProps {
+    value: number;
+    goal: number;
+    // Describes what the ring measures, e.g. "Daily pomodoro goal"
+    label: string;
+    size?: number;
+    // Shown in the middle of the ring instead of the value
+    centerText?: string;
+}
+
+const STROKE_WIDTH = 4;
+
+/**
+ * Circular progress towards a goal. Draws in the current text colour so it
+ * reads on both the timer's coloured background and plain pages.
+ */
+export const GoalProgressRing: React.FC<GoalProgressRingProps> = ({
+    value,
+    goal,
+    label,
+    size = 36,
+    centerText,
+}) => {
+    const radius = (size - STROKE_WIDTH) / 2;
+    const circumference = 2 * Math.PI * radius;
+    const progress = goal > 0 ? Math.min(value / goal, 1) : 0;
+    const isMet = goal > 0 && value >= goal;
+
+    return (
+        <svg
+            className={`${styles.ring} ${isMet ? styles.ringMet : ''}`}
+            width={size}
+            height={size}
+            viewBox={`0 0 ${size} ${size}`}
+            role="img"
+            aria-label={`${label}: ${value} of ${goal}`}
+        >
+            <title>{`${label}: ${value} of ${goal}`}</title>
+            <circle
+                className={styles.ringTrack}
+                cx={size / 2}
+                cy={size / 2}
+                r={radius}
+                strokeWidth={STROKE_WIDTH}
+            />
+            <circle
+                className={styles.ringProgress}
+                cx={size / 2}
+                cy={size / 2}
+                r={radius}
+                strokeWidth={STROKE_WIDTH}
+                strokeDasharray={circumference}
+                strokeDashoffset={circumference * (1 - progress)}
+                transform={`rotate(-90 ${size / 2} ${size / 2})`}
+            />
+            <text
+                className={styles.ringText}
+                x="50%"
+                y="50%"
+                dominantBaseline="central"
+                textAnchor="middle"
+                fontSize={size * 0.3}
+            >
+                {centerText ?? value}
+            </text>
+        </svg>
+    );
+};
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { DailyFocus, Streaks } from '../../types';
+import { formatTotalDuration } from '../../utils/dateTime';
+import { getWeeklyGoalProgress } from '../../utils/goals';
+import { GoalHistory } from './GoalHistory';
+import { GoalProgressRing } from './GoalProgressRing';
+import styles from './Goals.module.css';
+import { StreakCalendar } from './StreakCalendar';
+
+interface GoalsPanelProps {
+    // Daily focus up to and including today, oldest first
+    days: DailyFocus[];
+    streaks: Streaks;
+    dailyGoal: number;
+    weeklyFocusGoal: number;
+}
+
+// Weeks listed in the goal history
+const GOAL_HISTORY_WEEKS = 8;
+
+const formatDays = (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+/**
+ * Today's and this week's progress towards the goals, the streaks and
+ * how recent weeks went.
+ */
+export const GoalsPanel: React.FC<GoalsPanelProps> = ({
+    days,
+    streaks,
+    dailyGoal,
+    weeklyFocusGoal,
+}) => {
+    const weeks = useMemo(
+        () => getWeeklyGoalProgress(days, weeklyFocusGoal, dailyGoal),
+        [days, weeklyFocusGoal, dailyGoal]
+    );
+
+    if (days.length === 0) return null;
+
+    const today = days[days.length - 1];
+    const thisWeek = weeks[weeks.length - 1];
+
+    return (
+        <section className={styles.panel} aria-labelledby="goals-title">
+            <h3 id="goals-title" className={styles.panelTitle}>
+                Goals
+            </h3>
+            <div className={styles.summary}>
+                <div className={styles.summaryItem}>
+                    <GoalProgressRing
+                        value={today.pomodoros}
+                        goal={dailyGoal}
+                        label="Daily pomodoro goal"
+                        size={56}
+                    />
+                    <span>
+                        {today.pomodoros} / {dailyGoal} pomodoros today
+                    </span>
+                </div>
+                <div className={styles.summaryItem}>
+                    <GoalProgressRing
+                        value={thisWeek.minutes}
+                        goal={weeklyFocusGoal}
+                        label="Weekly focus goal in minutes"
+                        size={56}
+                        centerText={`${Math.min(
+                            Math.round((thisWeek.minutes / weeklyFocusGoal) * 100),
+                            999
+                        )}%`}
+                    />
+                    <span>
+                        {formatTotalDuration(thisWeek.minutes * 60000)} /{' '}
+                        {formatTotalDuration(weeklyFocusGoal * 60000)} this week
+                    </span>
+                </div>
+                <div className={styles.summaryItem}>
+                    <span className={styles.streakValue}>🔥 {formatDays(streaks.current)}</span>
+                    <span>Current streak</span>
+                </div>
+                <div className={styles.summaryItem}>
+                    <span className={styles.streakValue}>🏆 {formatDays(streaks.longest)}</span>
+                    <span>Longest streak</span>
+                </div>
+            </div>
+            <StreakCalendar days={days} dailyGoal={dailyGoal} />
+            <GoalHistory weeks={weeks.slice(-GOAL_HISTORY_WEEKS)} weeklyFocusGoal={weeklyFocusGoal} />
+        </section>
+    );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { DailyFocus } from '../../types';
+import { formatDayLabel } from '../../utils/dateTime';
+import { groupDaysIntoWeeks } from '../../utils/statsAggregation';
+import styles from './Goals.module.css';
+
+interface StreakCalendarProps {
+    days: DailyFocus[];
+    dailyGoal: number;
+}
+
+const CELL_SIZE = 11;
+const CELL_STEP = 14;
+
+/**
+ * Calendar of the days that reached the daily pomodoro goal, one column per week.
+ */
+export const StreakCalendar: React.FC<StreakCalendarProps> = ({ days, dailyGoal }) => {
+    if (days.length === 0) return null;
+
+    const weeks = groupDaysIntoWeeks(days);
+    const width = weeks.length * CELL_STEP;
+    const height = 7 * CELL_STEP;
+    const goalDays = days.filter((day) => day.pomodoros >= dailyGoal).length;
+
+    return (
+        <div className={styles.streakCalendar}>
+            <svg
+                width={width}
+                height={height}
+                viewBox={`0 0 ${width} ${height}`}
+                role="img"
+                aria-label={`${goalDays} of the last ${days.length} days reached the daily goal`}
+            >
+                {weeks.map((week, weekIndex) =>
+                    week.map((day, weekday) =>
+                        day ? (
+                            <rect
+                                key={day.day}
+                                x={weekIndex * CELL_STEP}
+                                y={weekday * CELL_STEP}
+                                width={CELL_SIZE}
+                                height={CELL_SIZE}
+                                rx={2}
+                                className={
+                                    day.pomodoros >= dailyGoal ? styles.dayMet : styles.dayMissed
+                                }
+                            >
+                                <title>
+                                    {`${formatDayLabel(day.day)}: ${day.pomodoros} of ${dailyGoal} pomodoros`}
+                                </title>
+                            </rect>
+                        ) : null
+                    )
+                )}
+            </svg>
+        </div>
+    );
+};
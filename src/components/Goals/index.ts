@@ -0,0 +1,4 @@
+export { GoalHistory } from './GoalHistory';
+export { GoalProgressRing } from './GoalProgressRing';
+export { GoalsPanel } from './GoalsPanel';
+export { StreakCalendar } from './StreakCalendar';
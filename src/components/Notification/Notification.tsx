@@ -6,6 +6,7 @@ export const Notification: React.FC<NotificationProps> = ({
   message, 
   duration = 3000,
   type = 'info',
+  action,
   onClose 
 }) => {
   const [isVisible, setIsVisible] = useState(true);
@@ -22,8 +23,20 @@ export const Notification: React.FC<NotificationProps> = ({
   if (!isVisible) return null;
 
   return (
-    <div className={`${styles.notification} ${styles[type]}`}>
+    <div className={`${styles.notification} ${styles[type]}`} role="status">
       {message}
+      {action && (
+        <button
+          className={styles.actionButton}
+          onClick={() => {
+            setIsVisible(false);
+            onClose?.();
+            action.onClick();
+          }}
+        >
+          {action.label}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
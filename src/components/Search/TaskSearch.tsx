@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { CategoryChip } from '../Tasks/CategoryChip';
+import { useLogger } from '../../hooks/useLogger';
+import { SearchDatePreset, SearchResults } from '../../types';
+import { normalizeCategory } from '../../utils/categories';
+import { searchDB } from '../../utils/database';
+import { getNotesPreview } from '../../utils/markdown';
+import { getSearchRange, SEARCH_DATE_PRESETS } from '../../utils/search';
+import styles from './Search.module.css';
+
+interface TaskSearchProps {
+    // Changes whenever tasks are changed, to search again
+    version: number;
+}
+
+// Waits for typing to pause before searching
+const SEARCH_DELAY_MS = 200;
+
+const formatEndTime = (endTime: number | undefined) =>
+    endTime === undefined
+        ? '--'
+        : new Date(endTime).toLocaleString([], {
+              day: '2-digit',
+              month: '2-digit',
+              year: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+          });
+
+/**
+ * Searches the descriptions, categories and notes of active and completed
+ * tasks, with filters for category and date.
+ */
+export const TaskSearch: React.FC<TaskSearchProps> = ({ version }) => {
+    const logger = useLogger('TaskSearch');
+    const [query, setQuery] = useState('');
+    const [datePreset, setDatePreset] = useState<SearchDatePreset>('anyTime');
+    const [category, setCategory] = useState<string | null>(null);
+    const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+
+    useEffect(() => {
+        if (!query.trim()) {
+            setSearchResults(null);
+            return;
+        }
+        let cancelled = false;
+
+        const timeout = setTimeout(async () => {
+            try {
+                const results = await searchDB.search(query, {
+                    category,
+                    range: getSearchRange(datePreset, Date.now()),
+                });
+                if (!cancelled) {
+                    setSearchResults(results);
+                }
+            } catch (error) {
+                logger.error('Failed to search tasks:', error);
+            }
+        }, SEARCH_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [logger, query, category, datePreset, version]);
+
+    // The selected category stays listed when the date filter leaves it without matches
+    const categoryCounts = searchResults?.categories ?? [];
+    const categoryChips =
+        category && !categoryCounts.some((count) => normalizeCategory(count.category) === normalizeCategory(category))
+            ? [...categoryCounts, { category, count: 0 }]
+            : categoryCounts;
+
+    return (
+        <section className={styles.search} aria-label="Search tasks">
+            <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search tasks, categories and notes"
+                className={styles.searchInput}
+                aria-label="Search tasks"
+            />
+            {searchResults && (
+                <>
+                    <div className={styles.filters}>
+                        <div role="radiogroup" aria-label="Completed" className={styles.chips}>
+                            {SEARCH_DATE_PRESETS.map((preset) => (
+                                <button
+                                    key={preset.value}
+                                    role="radio"
+                                    aria-checked={datePreset === preset.value}
+                                    className={`${styles.chip} ${
+                                        datePreset === preset.value ? styles.chipActive : ''
+                                    }`}
+                                    onClick={() => setDatePreset(preset.value)}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                        </div>
+                        {categoryChips.length > 0 && (
+                            <div role="group" aria-label="Categories" className={styles.chips}>
+                                {categoryChips.map((categoryCount) => {
+                                    const isSelected =
+                                        category !== null &&
+                                        normalizeCategory(category) === normalizeCategory(categoryCount.category);
+                                    return (
+                                        <button
+                                            key={categoryCount.category}
+                                            aria-pressed={isSelected}
+                                            className={`${styles.chip} ${isSelected ? styles.chipActive : ''}`}
+                                            onClick={() =>
+                                                setCategory(isSelected ? null : categoryCount.category)
+                                            }
+                                        >
+                                            {categoryCount.category} ({categoryCount.count})
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                    <p className={styles.summary} role="status">
+                        {searchResults.total === 0
+                            ? 'No matching tasks'
+                            : searchResults.total > searchResults.results.length
+                            ? `Showing ${searchResults.results.length} of ${searchResults.total} matches`
+                            : `${searchResults.total} ${searchResults.total === 1 ? 'match' : 'matches'}`}
+                    </p>
+                    <ul className={styles.results} aria-label="Search results">
+                        {searchResults.results.map(({ task, isCompleted }) => (
+                            <li key={`${isCompleted}-${task.id}`} className={styles.result}>
+                                <CategoryChip name={task.category} />
+                                <div className={styles.resultText}>
+                                    {task.description}
+                                    {task.notes && (
+                                        <span className={styles.resultNotes}>
+                                            📝 {getNotesPreview(task.notes)}
+                                        </span>
+                                    )}
+                                </div>
+                                <span className={styles.resultStatus}>
+                                    {isCompleted
+                                        ? formatEndTime(task.endTime)
+                                        : `Active · ${task.pomodoros || 1} left`}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1 @@
+export { TaskSearch } from './TaskSearch';
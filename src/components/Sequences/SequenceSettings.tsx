@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import {
+    CUSTOM_SEQUENCE_PRESET,
+    SEGMENT_COLORS,
+    SEGMENT_TYPE_LABELS,
+    SEQUENCE_PRESETS,
+    WEEKDAY_LABELS,
+} from '../../constants/sequenceConstants';
+import { TIMER_TYPES, type TimerType } from '../../constants/timerConstants';
+import { useLogger } from '../../hooks/useLogger';
+import useSequences from '../../hooks/useSequences';
+import { NotificationState, SequenceSegment, SessionSequence } from '../../types';
+import { sequencesDB } from '../../utils/database';
+import { createSequence } from '../../utils/sequences';
+import styles from './Sequences.module.css';
+
+interface SequenceSettingsRowProps {
+    sequence: SessionSequence;
+    onChanged: () => Promise<void>;
+    onNotify: (notification: NotificationState) => void;
+}
+
+const SequenceSettingsRow = ({ sequence, onChanged, onNotify }: SequenceSettingsRowProps) => {
+    const logger = useLogger('SequenceSettings');
+    // Edits stay local until saved, so a half-built sequence never reaches the timer
+    const [draft, setDraft] = useState(sequence);
+
+    const runChange = async (change: () => Promise<void>, successMessage: string) => {
+        try {
+            await change();
+            await onChanged();
+            onNotify({ message: successMessage, type: 'success' });
+        } catch (error) {
+            logger.error('Failed to update sequence:', error);
+            onNotify({
+                message: error instanceof Error ? error.message : 'Failed to update sequence',
+                type: 'error',
+            });
+        }
+    };
+
+    const updateSegment = (index: number, changes: Partial<SequenceSegment>) => {
+        setDraft((prev) => ({
+            ...prev,
+            segments: prev.segments.map((segment, i) =>
+                i === index ? { ...segment, ...changes } : segment
+            ),
+        }));
+    };
+
+    const addSegment = () => {
+        setDraft((prev) => ({
+            ...prev,
+            segments: [
+                ...prev.segments,
+                {
+                    type: TIMER_TYPES.WORK,
+                    duration: 25 * 60 * 1000,
+                    label: SEGMENT_TYPE_LABELS[TIMER_TYPES.WORK],
+                    color: SEGMENT_COLORS[TIMER_TYPES.WORK],
+                },
+            ],
+        }));
+    };
+
+    const removeSegment = (index: number) => {
+        setDraft((prev) => ({
+            ...prev,
+            segments: prev.segments.filter((_, i) => i !== index),
+        }));
+    };
+
+    const toggleWeekday = (day: number) => {
+        setDraft((prev) => ({
+            ...prev,
+            weekdays: prev.weekdays.includes(day)
+                ? prev.weekdays.filter((d) => d !== day)
+                : [...prev.weekdays, day].sort((a, b) => a - b),
+        }));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        runChange(() => sequencesDB.put(draft), `Saved "${draft.name.trim()}"`);
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete "${sequence.name}"? Tasks using it go back to the day's sequence.`)) {
+            return;
+        }
+        runChange(() => sequencesDB.delete(sequence.id), `Deleted "${sequence.name}"`);
+    };
+
+    return (
+        <form className={styles.sequenceRow} onSubmit={handleSave}>
+            <input
+                type="text"
+                className={styles.textInput}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                aria-label="Sequence name"
+                required
+            />
+            <ol className={styles.segmentList}>
+                {draft.segments.map((segment, index) => (
+                    <li key={index} className={styles.actionGroup}>
+                        <input
+                            type="color"
+                            className={styles.colorInput}
+                            value={segment.color}
+                            onChange={(e) => updateSegment(index, { color: e.target.value })}
+                            aria-label={`Colour of segment ${index + 1}`}
+                        />
+                        <select
+                            className={styles.selectInput}
+                            value={segment.type}
+                            onChange={(e) =>
+                                updateSegment(index, { type: e.target.value as TimerType })
+                            }
+                            aria-label={`Type of segment ${index + 1}`}
+                        >
+                            {(Object.keys(SEGMENT_TYPE_LABELS) as TimerType[]).map((type) => (
+                                <option key={type} value={type}>
+                                    {SEGMENT_TYPE_LABELS[type]}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            className={styles.numberInput}
+                            min={1}
+                            step={1}
+                            value={segment.duration / 60000}
+                            onChange={(e) =>
+                                updateSegment(index, { duration: Number(e.target.value) * 60000 })
+                            }
+                            aria-label={`Minutes of segment ${index + 1}`}
+                        />
+                        <span className={styles.settingDescription}>min</span>
+                        <input
+                            type="text"
+                            className={styles.textInput}
+                            value={segment.label}
+                            onChange={(e) => updateSegment(index, { label: e.target.value })}
+                            aria-label={`Label of segment ${index + 1}`}
+                        />
+                        <button
+                            type="button"
+                            className={styles.actionButton}
+                            onClick={() => removeSegment(index)}
+                            disabled={draft.segments.length === 1}
+                        >
+                            Remove
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <div className={styles.actionGroup}>
+                {WEEKDAY_LABELS.map((label, day) => (
+                    <label key={label} className={styles.archiveToggle}>
+                        <input
+                            type="checkbox"
+                            checked={draft.weekdays.includes(day)}
+                            onChange={() => toggleWeekday(day)}
+                        />
+                        {label}
+                    </label>
+                ))}
+            </div>
+            <div className={styles.actionGroup}>
+                <button type="button" className={styles.actionButton} onClick={addSegment}>
+                    Add segment
+                </button>
+                <button type="submit" className={styles.actionButton}>
+                    Save
+                </button>
+                <button type="button" className={styles.actionButton} onClick={handleDelete}>
+                    Delete
+                </button>
+            </div>
+        </form>
+    );
+};
+
+interface SequenceSettingsSectionProps {
+    onChanged: () => Promise<void>;
+    onNotify: (notification: NotificationState) => void;
+}
+
+export const SequenceSettingsSection = ({ onChanged, onNotify }: SequenceSettingsSectionProps) => {
+    const logger = useLogger('SequenceSettings');
+    const { sequences } = useSequences();
+
+    const handleAdd = async (presetIndex: string) => {
+        const preset =
+            presetIndex === 'custom' ? CUSTOM_SEQUENCE_PRESET : SEQUENCE_PRESETS[Number(presetIndex)];
+        try {
+            await sequencesDB.put(createSequence(preset));
+            await onChanged();
+        } catch (error) {
+            logger.error('Failed to add sequence:', error);
+            onNotify({ message: 'Failed to add sequence', type: 'error' });
+        }
+    };
+
+    return (
+        <>
+            <h2 className={styles.sectionTitle}>Session sequences</h2>
+            <div className={styles.settingsContent}>
+                <p className={styles.settingDescription}>
+                    A sequence replaces the usual work and break cycle with your own segments.
+                    Tick the days to use it on, or pick it for a single task from the task menu.
+                    When two sequences share a day, the first one listed is used.
+                </p>
+                {sequences.map((sequence) => (
+                    <SequenceSettingsRow
+                        key={sequence.id}
+                        sequence={sequence}
+                        onChanged={onChanged}
+                        onNotify={onNotify}
+                    />
+                ))}
+                <select
+                    className={styles.selectInput}
+                    value=""
+                    onChange={(e) => handleAdd(e.target.value)}
+                    aria-label="Add a sequence"
+                >
+                    <option value="">Add a sequence…</option>
+                    <option value="custom">From scratch</option>
+                    {SEQUENCE_PRESETS.map((preset, index) => (
+                        <option key={preset.name} value={index}>
+                            {preset.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1 @@
+export { SequenceSettingsSection } from './SequenceSettings';
@@ -0,0 +1,142 @@
+import React from 'react';
+import { ChartKeySteps, useChartSelection } from '../../hooks/useChartSelection';
+import { DailyFocus } from '../../types';
+import { formatDayLabel, formatTotalDuration } from '../../utils/dateTime';
+import { getHeatmapLevel, groupDaysIntoWeeks } from '../../utils/statsAggregation';
+import { ChartTooltip } from './ChartTooltip';
+import styles from './Charts.module.css';
+
+interface CalendarHeatmapProps {
+    days: DailyFocus[];
+}
+
+const CELL_SIZE = 11;
+const CELL_STEP = 14;
+const PADDING = { top: 16, left: 30 };
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+// Columns are weeks, rows are weekdays
+const HEATMAP_KEY_STEPS: ChartKeySteps = {
+    ArrowLeft: -7,
+    ArrowRight: 7,
+    ArrowUp: -1,
+    ArrowDown: 1,
+};
+
+/**
+ * GitHub-style calendar of daily focus time, one column per week.
+ */
+export const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ days }) => {
+    const { selectedIndex, select, clearSelection, handleFocus, handleKeyDown } =
+        useChartSelection(days.length, HEATMAP_KEY_STEPS);
+
+    if (days.length === 0) return null;
+
+    const weeks = groupDaysIntoWeeks(days);
+    const leadingDays = weeks[0].indexOf(days[0]);
+    const maxMinutes = Math.max(...days.map((day) => day.minutes));
+    const width = PADDING.left + weeks.length * CELL_STEP;
+    const height = PADDING.top + 7 * CELL_STEP;
+    const totalMinutes = days.reduce((sum, day) => sum + day.minutes, 0);
+
+    // Label a week with its month when the month changes
+    const monthLabels = weeks.flatMap((week, weekIndex) => {
+        const firstDay = week.find((day) => day !== null);
+        if (!firstDay) return [];
+        const month = new Date(firstDay.day).getMonth();
+        const previousDay = weekIndex > 0 ? weeks[weekIndex - 1][6] : null;
+        if (previousDay && new Date(previousDay.day).getMonth() === month) return [];
+        return [
+            {
+                x: PADDING.left + weekIndex * CELL_STEP,
+                label: new Date(firstDay.day).toLocaleDateString('en-GB', { month: 'short' }),
+            },
+        ];
+    });
+
+    const getPosition = (dayIndex: number) => {
+        const cellIndex = leadingDays + dayIndex;
+        return {
+            x: PADDING.left + Math.floor(cellIndex / 7) * CELL_STEP,
+            y: PADDING.top + (cellIndex % 7) * CELL_STEP,
+        };
+    };
+    const selectedDay = selectedIndex === null ? null : days[selectedIndex];
+
+    return (
+        <div className={styles.chart}>
+            <h3 className={styles.chartTitle}>
+                Last year · {formatTotalDuration(totalMinutes * 60000)} of focus
+            </h3>
+            <div className={styles.heatmapScroll}>
+                <svg
+                    className={styles.heatmapSvg}
+                    width={width}
+                    height={height}
+                    viewBox={`0 0 ${width} ${height}`}
+                    tabIndex={0}
+                    role="img"
+                    aria-label="Daily focus time over the last year. Use the arrow keys to read each day."
+                    onFocus={handleFocus}
+                    onBlur={clearSelection}
+                    onKeyDown={handleKeyDown}
+                    onMouseLeave={clearSelection}
+                >
+                    {monthLabels.map(({ x, label }) => (
+                        <text key={x} className={styles.axisLabel} x={x} y={10}>
+                            {label}
+                        </text>
+                    ))}
+                    {WEEKDAY_LABELS.map((label, row) =>
+                        label ? (
+                            <text
+                                key={label}
+                                className={styles.axisLabel}
+                                x={0}
+                                y={PADDING.top + row * CELL_STEP + CELL_SIZE - 2}
+                            >
+                                {label}
+                            </text>
+                        ) : null
+                    )}
+                    {days.map((day, index) => {
+                        const { x, y } = getPosition(index);
+                        const level = getHeatmapLevel(day.minutes, maxMinutes);
+                        return (
+                            <rect
+                                key={day.day}
+                                x={x}
+                                y={y}
+                                width={CELL_SIZE}
+                                height={CELL_SIZE}
+                                rx={2}
+                                className={`${styles[`level${level}`]} ${
+                                    selectedIndex === index ? styles.cellSelected : ''
+                                }`}
+                                onMouseEnter={() => select(index)}
+                            />
+                        );
+                    })}
+                </svg>
+            </div>
+            {selectedDay && selectedIndex !== null && (
+                <ChartTooltip left={(getPosition(selectedIndex).x / width) * 100}>
+                    <strong>{formatDayLabel(selectedDay.day)}</strong>
+                    <div>
+                        {selectedDay.pomodoros === 0
+                            ? 'No focus time'
+                            : `${formatTotalDuration(selectedDay.minutes * 60000)} · ${
+                                  selectedDay.pomodoros
+                              } ${selectedDay.pomodoros === 1 ? 'pomodoro' : 'pomodoros'}`}
+                    </div>
+                </ChartTooltip>
+            )}
+            <div className={styles.heatmapLegend} aria-hidden="true">
+                Less
+                {[0, 1, 2, 3, 4].map((level) => (
+                    <span key={level} className={`${styles.legendCell} ${styles[`level${level}`]}`} />
+                ))}
+                More
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { useChartSelection } from '../../hooks/useChartSelection';
+import { CategoryTotal } from '../../types';
+import { formatTotalDuration } from '../../utils/dateTime';
+import { ChartTooltip } from './ChartTooltip';
+import { OTHER_CATEGORY_COLOR } from './chartColors';
+import styles from './Charts.module.css';
+
+interface CategoryBreakdownProps {
+    totals: CategoryTotal[];
+    categoryColors: Record<string, string>;
+}
+
+const WIDTH = 640;
+const HEIGHT = 28;
+
+/**
+ * Stacked bar showing each category's share of the focus time, with a legend.
+ */
+export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ totals, categoryColors }) => {
+    const { selectedIndex, select, clearSelection, handleFocus, handleKeyDown } =
+        useChartSelection(totals.length);
+
+    const totalMinutes = totals.reduce((sum, total) => sum + total.minutes, 0);
+    if (totals.length === 0 || totalMinutes === 0) return null;
+
+    const toPercent = (minutes: number) => (minutes / totalMinutes) * 100;
+    const segments = totals.reduce<{ total: CategoryTotal; x: number; width: number }[]>(
+        (acc, total) => {
+            const previous = acc[acc.length - 1];
+            const x = previous ? previous.x + previous.width : 0;
+            return [...acc, { total, x, width: (total.minutes / totalMinutes) * WIDTH }];
+        },
+        []
+    );
+    const selected = selectedIndex === null ? null : segments[selectedIndex];
+
+    return (
+        <div className={styles.chart}>
+            <h3 className={styles.chartTitle}>Focus time by category</h3>
+            <svg
+                className={styles.chartSvg}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                preserveAspectRatio="none"
+                tabIndex={0}
+                role="img"
+                aria-label="Focus time by category. Use the arrow keys to read each category."
+                onFocus={handleFocus}
+                onBlur={clearSelection}
+                onKeyDown={handleKeyDown}
+                onMouseLeave={clearSelection}
+            >
+                {segments.map(({ total, x, width }, index) => (
+                    <rect
+                        key={total.category}
+                        x={x}
+                        y={0}
+                        width={width}
+                        height={HEIGHT}
+                        fill={categoryColors[total.category] ?? OTHER_CATEGORY_COLOR}
+                        className={selectedIndex === index ? styles.segmentSelected : undefined}
+                        onMouseEnter={() => select(index)}
+                    />
+                ))}
+            </svg>
+            {selected && (
+                <ChartTooltip left={((selected.x + selected.width / 2) / WIDTH) * 100}>
+                    <strong>{selected.total.category}</strong>
+                    <div>
+                        {formatTotalDuration(selected.total.minutes * 60000)} ·{' '}
+                        {Math.round(toPercent(selected.total.minutes))}%
+                    </div>
+                </ChartTooltip>
+            )}
+            <ul className={styles.legend}>
+                {totals.map((total) => (
+                    <li key={total.category} className={styles.legendItem}>
+                        <span
+                            className={styles.swatch}
+                            style={{
+                                backgroundColor:
+                                    categoryColors[total.category] ?? OTHER_CATEGORY_COLOR,
+                            }}
+                        />
+                        {total.category}
+                        <span className={styles.legendValue}>
+                            {formatTotalDuration(total.minutes * 60000)} (
+                            {Math.round(toPercent(total.minutes))}%)
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { CategoryAnalytics } from '../../types';
+import { formatTotalDuration } from '../../utils/dateTime';
+import { getWeekOverWeekChange } from '../../utils/statsAggregation';
+import { OTHER_CATEGORY_COLOR } from './chartColors';
+import styles from './Charts.module.css';
+
+interface CategoryTableProps {
+    rows: CategoryAnalytics[];
+    categoryColors: Record<string, string>;
+    selectedKey: string | null;
+    onSelect: (key: string | null) => void;
+}
+
+const formatChange = (row: CategoryAnalytics): string => {
+    const change = getWeekOverWeekChange(row);
+    if (change === null) {
+        return row.thisWeekMinutes > 0 ? 'New' : '–';
+    }
+    const percent = Math.round(change * 100);
+    return `${percent > 0 ? '+' : ''}${percent}%`;
+};
+
+const getChangeClassName = (row: CategoryAnalytics): string | undefined => {
+    const change = getWeekOverWeekChange(row);
+    if (change === null || change === 0) return undefined;
+    return change > 0 ? styles.changeUp : styles.changeDown;
+};
+
+/**
+ * Per-category totals of the selected range. Selecting a row filters the
+ * completed tasks below to that category.
+ */
+export const CategoryTable: React.FC<CategoryTableProps> = ({
+    rows,
+    categoryColors,
+    selectedKey,
+    onSelect,
+}) => {
+    if (rows.length === 0) return null;
+
+    return (
+        <div className={styles.chart}>
+            <h3 className={styles.chartTitle}>Categories</h3>
+            <table className={styles.categoryTable}>
+                <thead>
+                    <tr>
+                        <th>Category</th>
+                        <th>Pomodoros</th>
+                        <th>Total</th>
+                        <th>Average</th>
+                        <th>Share</th>
+                        <th title="Last 7 days compared with the 7 days before">
+                            Week over week
+                        </th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row) => {
+                        const isSelected = row.key === selectedKey;
+                        return (
+                            <tr
+                                key={row.key}
+                                className={isSelected ? styles.categoryRowSelected : undefined}
+                            >
+                                <th scope="row">
+                                    <button
+                                        className={styles.categoryButton}
+                                        onClick={() => onSelect(isSelected ? null : row.key)}
+                                        aria-pressed={isSelected}
+                                        aria-label={`Show completed tasks in ${row.category}`}
+                                    >
+                                        <span
+                                            className={styles.swatch}
+                                            style={{
+                                                backgroundColor:
+                                                    categoryColors[row.category] ??
+                                                    OTHER_CATEGORY_COLOR,
+                                            }}
+                                        />
+                                        {row.category}
+                                    </button>
+                                </th>
+                                <td>{row.pomodoros}</td>
+                                <td>{formatTotalDuration(row.minutes * 60000)}</td>
+                                <td>{formatTotalDuration(row.averageMinutes * 60000)}</td>
+                                <td>{Math.round(row.share * 100)}%</td>
+                                <td className={getChangeClassName(row)}>{formatChange(row)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
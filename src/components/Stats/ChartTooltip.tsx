@@ -0,0 +1,22 @@
+import React from 'react';
+import styles from './Charts.module.css';
+
+interface ChartTooltipProps {
+    // Horizontal position of the anchored item, as a percentage of the chart width
+    left: number;
+    children: React.ReactNode;
+}
+
+/**
+ * Floating details for the selected item of a chart. Announced to screen
+ * readers as the selection moves.
+ */
+export const ChartTooltip: React.FC<ChartTooltipProps> = ({ left, children }) => (
+    <div
+        className={styles.tooltip}
+        style={{ left: `${Math.min(85, Math.max(15, left))}%` }}
+        role="status"
+    >
+        {children}
+    </div>
+);
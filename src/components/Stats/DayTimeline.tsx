@@ -0,0 +1,104 @@
+import React from 'react';
+import { TIMER_TITLES, TIMER_TYPES } from '../../constants/timerConstants';
+import { DateRange, TimelineBlock } from '../../types';
+import { formatLocalDate, formatTotalDuration } from '../../utils/dateTime';
+import styles from './Charts.module.css';
+
+interface DayTimelineProps {
+    range: DateRange;
+    blocks: TimelineBlock[];
+    // The day shown, as a date input value
+    date: string;
+    onDateChange: (date: string) => void;
+}
+
+const HOUR_TICKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+const BLOCK_LABELS = {
+    [TIMER_TYPES.WORK]: 'Pomodoro',
+    [TIMER_TYPES.BREAK]: TIMER_TITLES[TIMER_TYPES.BREAK],
+    [TIMER_TYPES.LONG_BREAK]: TIMER_TITLES[TIMER_TYPES.LONG_BREAK],
+};
+
+const formatClockTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * A 24-hour strip of the day's pomodoros and breaks, with gaps where the
+ * timer was not running.
+ */
+export const DayTimeline: React.FC<DayTimelineProps> = ({
+    range,
+    blocks,
+    date,
+    onDateChange,
+}) => {
+    const dayLength = range.to - range.from;
+    const toPercent = (timestamp: number) => ((timestamp - range.from) / dayLength) * 100;
+
+    const describeBlock = (block: TimelineBlock) =>
+        `${BLOCK_LABELS[block.type]}${block.label ? `: ${block.label}` : ''}, ${formatClockTime(
+            block.start
+        )}–${formatClockTime(block.end)} (${formatTotalDuration(block.end - block.start)})`;
+
+    return (
+        <div className={styles.chart}>
+            <div className={styles.timelineHeader}>
+                <h3 className={styles.chartTitle}>Timeline</h3>
+                <input
+                    type="date"
+                    value={date}
+                    max={formatLocalDate(Date.now())}
+                    onChange={(e) => onDateChange(e.target.value)}
+                    aria-label="Day shown on the timeline"
+                />
+            </div>
+            <div
+                className={styles.timelineStrip}
+                role="list"
+                aria-label={
+                    blocks.length === 0
+                        ? 'Nothing was timed on this day'
+                        : `${blocks.length} timed blocks on this day`
+                }
+            >
+                {HOUR_TICKS.slice(1, -1).map((hour) => (
+                    <span
+                        key={hour}
+                        className={styles.timelineTick}
+                        style={{ left: `${(hour / 24) * 100}%` }}
+                        aria-hidden="true"
+                    />
+                ))}
+                {blocks.map((block) => (
+                    <span
+                        key={`${block.type}-${block.start}`}
+                        className={`${styles.timelineBlock} ${styles[`timeline_${block.type}`]}`}
+                        style={{
+                            left: `${toPercent(block.start)}%`,
+                            width: `${toPercent(block.end) - toPercent(block.start)}%`,
+                        }}
+                        role="listitem"
+                        aria-label={describeBlock(block)}
+                        title={describeBlock(block)}
+                    />
+                ))}
+            </div>
+            <div className={styles.timelineAxis} aria-hidden="true">
+                {HOUR_TICKS.map((hour) => (
+                    <span key={hour} style={{ left: `${(hour / 24) * 100}%` }}>
+                        {String(hour).padStart(2, '0')}
+                    </span>
+                ))}
+            </div>
+            <div className={styles.timelineLegend} aria-hidden="true">
+                {Object.values(TIMER_TYPES).map((type) => (
+                    <span key={type}>
+                        <span className={`${styles.legendCell} ${styles[`timeline_${type}`]}`} />
+                        {BLOCK_LABELS[type]}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
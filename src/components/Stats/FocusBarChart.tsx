@@ -0,0 +1,159 @@
+import React from 'react';
+import { useChartSelection } from '../../hooks/useChartSelection';
+import { DailyFocus } from '../../types';
+import { formatDayLabel, formatTotalDuration } from '../../utils/dateTime';
+import { ChartTooltip } from './ChartTooltip';
+import { OTHER_CATEGORY_COLOR } from './chartColors';
+import styles from './Charts.module.css';
+
+interface FocusBarChartProps {
+    days: DailyFocus[];
+    categoryColors: Record<string, string>;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 8, bottom: 24, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const MAX_X_LABELS = 7;
+
+// Rounds the tallest bar up to whole half hours, and at least an hour
+const getScaleMax = (maxMinutes: number): number => Math.max(60, Math.ceil(maxMinutes / 30) * 30);
+
+/**
+ * Bar chart of focus minutes per day, with each bar stacked by category.
+ */
+export const FocusBarChart: React.FC<FocusBarChartProps> = ({ days, categoryColors }) => {
+    const { selectedIndex, select, clearSelection, handleFocus, handleKeyDown } =
+        useChartSelection(days.length);
+
+    if (days.length === 0) return null;
+
+    const scaleMax = getScaleMax(Math.max(...days.map((day) => day.minutes)));
+    const slotWidth = PLOT_WIDTH / days.length;
+    const barWidth = Math.max(1, slotWidth * 0.7);
+    const labelEvery = Math.ceil(days.length / MAX_X_LABELS);
+    const toY = (minutes: number) => PADDING.top + PLOT_HEIGHT - (minutes / scaleMax) * PLOT_HEIGHT;
+    const selectedDay = selectedIndex === null ? null : days[selectedIndex];
+    // Stack categories in the same order on every day, largest overall at the bottom
+    const categoryOrder = Object.keys(categoryColors);
+    const getDayCategories = (day: DailyFocus) =>
+        [
+            ...categoryOrder.filter((category) => category in day.byCategory),
+            ...Object.keys(day.byCategory).filter((category) => !(category in categoryColors)),
+        ].map((category) => [category, day.byCategory[category]] as const);
+
+    return (
+        <div className={styles.chart}>
+            <h3 className={styles.chartTitle}>Focus time per day</h3>
+            <svg
+                className={styles.chartSvg}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                tabIndex={0}
+                role="img"
+                aria-label="Focus time per day. Use the arrow keys to read each day."
+                onFocus={handleFocus}
+                onBlur={clearSelection}
+                onKeyDown={handleKeyDown}
+                onMouseLeave={clearSelection}
+            >
+                {[0, scaleMax / 2, scaleMax].map((minutes) => (
+                    <g key={minutes}>
+                        <line
+                            className={styles.gridLine}
+                            x1={PADDING.left}
+                            x2={WIDTH - PADDING.right}
+                            y1={toY(minutes)}
+                            y2={toY(minutes)}
+                        />
+                        <text
+                            className={styles.axisLabel}
+                            x={PADDING.left - 6}
+                            y={toY(minutes)}
+                            textAnchor="end"
+                            dominantBaseline="middle"
+                        >
+                            {formatTotalDuration(minutes * 60000)}
+                        </text>
+                    </g>
+                ))}
+                {days.map((day, index) => {
+                    const x = PADDING.left + index * slotWidth + (slotWidth - barWidth) / 2;
+                    let stackedMinutes = 0;
+
+                    return (
+                        <g
+                            key={day.day}
+                            onMouseEnter={() => select(index)}
+                            className={selectedIndex === index ? styles.barSelected : undefined}
+                        >
+                            {/* Full-height hit area so empty days can be hovered too */}
+                            <rect
+                                x={PADDING.left + index * slotWidth}
+                                y={PADDING.top}
+                                width={slotWidth}
+                                height={PLOT_HEIGHT}
+                                className={styles.hitArea}
+                            />
+                            {getDayCategories(day).map(([category, minutes]) => {
+                                const y = toY(stackedMinutes + minutes);
+                                const height = toY(stackedMinutes) - y;
+                                stackedMinutes += minutes;
+                                return (
+                                    <rect
+                                        key={category}
+                                        x={x}
+                                        y={y}
+                                        width={barWidth}
+                                        height={height}
+                                        fill={categoryColors[category] ?? OTHER_CATEGORY_COLOR}
+                                    />
+                                );
+                            })}
+                            {index % labelEvery === 0 && (
+                                <text
+                                    className={styles.axisLabel}
+                                    x={x + barWidth / 2}
+                                    y={HEIGHT - 6}
+                                    textAnchor="middle"
+                                >
+                                    {new Date(day.day).toLocaleDateString('en-GB', {
+                                        day: 'numeric',
+                                        month: 'short',
+                                    })}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+            {selectedDay && selectedIndex !== null && (
+                <ChartTooltip
+                    left={
+                        ((PADDING.left + (selectedIndex + 0.5) * slotWidth) / WIDTH) * 100
+                    }
+                >
+                    <strong>{formatDayLabel(selectedDay.day)}</strong>
+                    <div>
+                        {formatTotalDuration(selectedDay.minutes * 60000)} ·{' '}
+                        {selectedDay.pomodoros}{' '}
+                        {selectedDay.pomodoros === 1 ? 'pomodoro' : 'pomodoros'}
+                    </div>
+                    {getDayCategories(selectedDay).map(([category, minutes]) => (
+                        <div key={category} className={styles.tooltipRow}>
+                            <span
+                                className={styles.swatch}
+                                style={{
+                                    backgroundColor:
+                                        categoryColors[category] ?? OTHER_CATEGORY_COLOR,
+                                }}
+                            />
+                            {category}: {formatTotalDuration(minutes * 60000)}
+                        </div>
+                    ))}
+                </ChartTooltip>
+            )}
+        </div>
+    );
+};
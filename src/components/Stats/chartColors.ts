@@ -0,0 +1,23 @@
+import { CATEGORY_COLORS, DEFAULT_CATEGORY_COLOR } from '../../constants/categoryConstants';
+import { Category } from '../../types';
+
+// Shared by categories without a colour of their own
+export const OTHER_CATEGORY_COLOR = DEFAULT_CATEGORY_COLOR;
+
+/**
+ * Assigns each category shown in a chart a colour: its stored colour, or else
+ * one from the palette by its position.
+ * @param categories - Category names sorted by focus time.
+ * @param getCategory - Looks up the stored category for a name.
+ */
+export const getCategoryColors = (
+    categories: string[],
+    getCategory: (name: string) => Category | undefined = () => undefined
+): Record<string, string> =>
+    Object.fromEntries(
+        categories.map((category, index) => [
+            category,
+            getCategory(category)?.color ??
+                CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+        ])
+    );
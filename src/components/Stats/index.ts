@@ -0,0 +1,6 @@
+export { CalendarHeatmap } from './CalendarHeatmap';
+export { CategoryBreakdown } from './CategoryBreakdown';
+export { CategoryTable } from './CategoryTable';
+export { DayTimeline } from './DayTimeline';
+export { FocusBarChart } from './FocusBarChart';
+export { getCategoryColors } from './chartColors';
@@ -0,0 +1,28 @@
+import React from 'react';
+import { DEFAULT_CATEGORY_COLOR } from '../../constants/categoryConstants';
+import useCategories from '../../hooks/useCategories';
+import styles from './Tasks.module.css';
+
+interface CategoryChipProps {
+  name: string;
+}
+
+/**
+ * Shows a task's category with the colour and emoji of its stored category.
+ */
+export const CategoryChip: React.FC<CategoryChipProps> = ({ name }) => {
+  const { getCategory } = useCategories();
+  const category = getCategory(name);
+
+  return (
+    <span className={styles.categoryChip}>
+      <span
+        className={styles.categoryDot}
+        style={{ backgroundColor: category?.color ?? DEFAULT_CATEGORY_COLOR }}
+        aria-hidden="true"
+      />
+      {category?.emoji && <span aria-hidden="true">{category.emoji}</span>}
+      <span className={styles.categoryName}>{name}</span>
+    </span>
+  );
+};
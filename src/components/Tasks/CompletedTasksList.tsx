@@ -7,24 +7,34 @@ import { CompletedTaskMenu } from './CompletedTaskMenu';
 import { TaskInput } from './TaskInput';
 import { CompletedTasksSummary } from './CompletedTasksSummary';
 import { useLogger } from '../../hooks/useLogger';
+import { CategoryChip } from './CategoryChip';
+import { getCheckedSubtasks } from '../../utils/subtasks';
+import { getNotesPreview } from '../../utils/markdown';
+import { MarkdownNotes } from './MarkdownNotes';
 
 interface CompletedTasksListProps {
   tasks: Task[];
   onRepeatTask: (category: string, description: string, pomodoros?: number) => void;
   onEditCompletedTask?: (taskId: string, category: string, description: string, duration: number) => void;
   onDeleteCompletedTask?: (taskId: string) => void;
+  // Only the first tasks are rendered when set; the summary still covers all of them
+  maxVisibleTasks?: number;
+  onShowMore?: () => void;
 }
 
 export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({ 
   tasks,
   onRepeatTask,
   onEditCompletedTask,
-  onDeleteCompletedTask
+  onDeleteCompletedTask,
+  maxVisibleTasks,
+  onShowMore
 }) => {
   const location = useLocation();
   const logger = useLogger(CompletedTasksList.name);
   const [isMenuOpen, setIsMenuOpen] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState<string | null>(null);
+  const [expandedNotes, setExpandedNotes] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -40,6 +50,8 @@ export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({
 
   if (tasks.length === 0) return null;
 
+  const visibleTasks = maxVisibleTasks === undefined ? tasks : tasks.slice(0, maxVisibleTasks);
+
   const handleRepeat = (task: Task) => {
     onRepeatTask(task.category, task.description, task.pomodoros || 1);
   };
@@ -124,7 +136,7 @@ export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({
       </div>
       
       <div role="list" aria-label="Completed tasks" className={completedStyles.completedTasksList}>
-        {tasks.map((task) => {
+        {visibleTasks.map((task) => {
           if (isEditing === task.id) {
             return (
               <div
@@ -150,6 +162,7 @@ export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({
           }
 
           const formattedEndTime = formatTaskEndTime(task.endTime);
+          const checkedSubtasks = getCheckedSubtasks(task);
 
           return (
             <div
@@ -157,13 +170,52 @@ export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({
               className={completedStyles.completedTaskItem}
               role="listitem"
             >
-              <div className={styles.taskCategory}>{task.category}</div>
-              <div className={styles.taskDescription}>{task.description}</div>
+              <div className={styles.taskCategory}>
+                <CategoryChip name={task.category} />
+              </div>
+              <div className={styles.taskDescription}>
+                {task.description}
+                {checkedSubtasks.length > 0 && (
+                  <ul className={completedStyles.checkedSubtasks} aria-label="Subtasks done">
+                    {checkedSubtasks.map(subtask => (
+                      <li key={subtask.id}>✓ {subtask.title}</li>
+                    ))}
+                  </ul>
+                )}
+                {task.notes && (
+                  <button
+                    className={completedStyles.notesPreview}
+                    onClick={() => setExpandedNotes(expandedNotes === task.id ? null : task.id)}
+                    aria-expanded={expandedNotes === task.id}
+                    aria-label={`${expandedNotes === task.id ? 'Hide' : 'Show'} notes`}
+                  >
+                    📝 {getNotesPreview(task.notes)}
+                  </button>
+                )}
+              </div>
               <div className={styles.taskTime}>
                 {formattedEndTime}
               </div>
               <div className={styles.taskTime}>
                 {typeof task.duration === 'number' ? `${Math.round(task.duration / 60000)}m` : '--m'}
+                {task.interruptions && task.interruptions.length > 0 && (
+                  <span
+                    className={completedStyles.interruptions}
+                    title={`Paused ${task.interruptions.length} times for ${Math.round(
+                      task.interruptions.reduce((sum, interruption) => sum + interruption.duration, 0) / 60000
+                    )}m`}
+                  >
+                    {' '}⏸{task.interruptions.length}
+                  </span>
+                )}
+                {task.overtime !== undefined && task.overtime > 0 && (
+                  <span
+                    className={completedStyles.interruptions}
+                    title={`Includes ${Math.round(task.overtime / 60000)}m of overtime`}
+                  >
+                    {' '}+{Math.round(task.overtime / 60000)}m
+                  </span>
+                )}
               </div>
               <div className={styles.taskActions} ref={isMenuOpen === task.id ? menuRef : undefined}>
                 <button
@@ -191,10 +243,18 @@ export const CompletedTasksList: React.FC<CompletedTasksListProps> = ({
                   />
                 )}
               </div>
+              {expandedNotes === task.id && task.notes && (
+                <MarkdownNotes notes={task.notes} className={completedStyles.notes} />
+              )}
             </div>
           );
         })}
       </div>
+      {visibleTasks.length < tasks.length && onShowMore && (
+        <button className={completedStyles.showMoreButton} onClick={onShowMore}>
+          Show more ({tasks.length - visibleTasks.length} remaining)
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from 'react';
+import { TIMER_TYPES } from '../../constants/timerConstants';
 import useTimerContext from '../../hooks/useTimerContext';
 import { CompletionIndicatorProps } from '../../types';
+import { getSelectedTask, getWorkOrder } from '../../utils/taskSelection';
 import { calculateEstimatedCompletion } from '../../utils/timeCalculations';
 import styles from './Tasks.module.css';
 
@@ -12,12 +14,18 @@ export const CompletionIndicator: React.FC<CompletionIndicatorProps> = ({ tasks,
     const updateCompletionTime = () => {
       if (tasks.length === 0) return;
 
+      // The selected task is worked on first, so the list is finished with
+      // whichever task comes last in that order
+      const activeTaskId = getSelectedTask(tasks, state.selectedTaskId)?.id ?? null;
+      const workOrder = getWorkOrder(tasks, activeTaskId);
+      const isWorking = state.hasStarted && state.timerType === TIMER_TYPES.WORK;
+
       const newCompletionTime = calculateEstimatedCompletion(
         tasks,
-        tasks.length - 1,
-        state.timeLeft,
+        tasks.indexOf(workOrder[workOrder.length - 1]),
+        isWorking ? state.timeLeft : null,
         state.isRunning,
-        state.activeTaskId,
+        activeTaskId,
         state.startTime,
         settings
       );
@@ -0,0 +1,16 @@
+import React, { useMemo } from 'react';
+import { MarkdownNotesProps } from '../../types';
+import { renderMarkdown } from '../../utils/markdown';
+import styles from './Tasks.module.css';
+
+export const MarkdownNotes: React.FC<MarkdownNotesProps> = ({ notes, className }) => {
+  // renderMarkdown escapes any HTML in the notes, so its output is safe to insert
+  const html = useMemo(() => renderMarkdown(notes), [notes]);
+
+  return (
+    <div
+      className={`${styles.markdownNotes} ${className || ''}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
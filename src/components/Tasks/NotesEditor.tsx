@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { NotesEditorProps } from '../../types';
+import { MarkdownNotes } from './MarkdownNotes';
+import styles from './Tasks.module.css';
+
+export const NotesEditor: React.FC<NotesEditorProps> = ({ notes, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(notes);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      handleSubmit(e);
+    }
+  };
+
+  return (
+    <form className={styles.notesEditor} onSubmit={handleSubmit}>
+      <div className={styles.notesTabs} role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={!isPreviewing}
+          className={!isPreviewing ? styles.notesTabActive : ''}
+          onClick={() => setIsPreviewing(false)}
+        >
+          Write
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={isPreviewing}
+          className={isPreviewing ? styles.notesTabActive : ''}
+          onClick={() => setIsPreviewing(true)}
+        >
+          Preview
+        </button>
+      </div>
+      {isPreviewing ? (
+        <MarkdownNotes notes={draft || '_Nothing to preview_'} className={styles.notesPreview} />
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Add notes, e.g. **blocked** on [the API review](https://…)"
+          className={styles.notesInput}
+          aria-label="Notes"
+          rows={4}
+          autoFocus
+        />
+      )}
+      <div className={styles.notesActions}>
+        <span className={styles.notesHint}>Markdown supported</span>
+        <button type="submit" className={styles.addButton}>
+          Save
+        </button>
+        <button type="button" className={styles.cancelButton} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,12 +1,21 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import React, { useEffect, useRef, useState } from 'react';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import useSequences from '../../hooks/useSequences';
 import useTimerContext from '../../hooks/useTimerContext';
-import { SortableTaskItemProps } from '../../types';
+import { SortableTaskItemProps, TimerProfile } from '../../types';
+import { getSubtaskProgress } from '../../utils/subtasks';
 import { calculateEstimatedCompletion } from '../../utils/timeCalculations';
+import { applyTimerProfile } from '../../utils/timerProfile';
 import { TaskInput } from './TaskInput';
 import { TaskMenu } from './TaskMenu';
 import styles from './Tasks.module.css';
+import { CategoryChip } from './CategoryChip';
+import { SubtaskList } from './SubtaskList';
+import { NotesEditor } from './NotesEditor';
+import { MarkdownNotes } from './MarkdownNotes';
+import { TimerProfileEditor } from './TimerProfileEditor';
 
 export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
   task,
@@ -15,12 +24,23 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
   onUpdatePomodoros,
   onEditTask,
   onMarkAsDone,
+  onUpdateSubtasks,
+  onUpdateNotes,
+  onUpdateSequence,
+  onUpdateTimerProfile,
   className,
 }) => {
-  const { state } = useTimerContext();
+  const { state, settings, selectTask } = useTimerContext();
+  const { sequences } = useSequences();
   const [estimatedTime, setEstimatedTime] = useState<number>(0);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  // Until toggled, the checklist of the active task is shown
+  const [isChecklistOpen, setIsChecklistOpen] = useState<boolean | null>(null);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [isSequenceOpen, setIsSequenceOpen] = useState(false);
+  const [isEditingTimerProfile, setIsEditingTimerProfile] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -45,7 +65,8 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
         isActive ? state.timeLeft : null,
         isActive ? state.isRunning : undefined,
         isActive ? task.id : null,
-        state.startTime
+        state.startTime,
+        settings
       );
       setEstimatedTime(newEstimatedTime);
     };
@@ -53,7 +74,7 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
     updateEstimatedTime();
     const interval = setInterval(updateEstimatedTime, 1000);
     return () => clearInterval(interval);
-  }, [task, isActive, state]);
+  }, [task, isActive, state, settings]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -75,6 +96,22 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
   const handleEdit = () => setIsEditing(true);
   const handleMarkAsDone = () => onMarkAsDone(task.id);
 
+  const subtaskProgress = getSubtaskProgress(task.subtasks);
+  const showChecklist = isChecklistOpen ?? (isActive && subtaskProgress.total > 0);
+
+  const handleNotesSave = (notes: string) => {
+    onUpdateNotes(task.id, notes);
+    setIsEditingNotes(false);
+    setIsNotesOpen(notes !== '');
+  };
+
+  const handleTimerProfileSave = (timerProfile: TimerProfile | undefined) => {
+    onUpdateTimerProfile(task.id, timerProfile);
+    setIsEditingTimerProfile(false);
+  };
+
+  const taskTimerSettings = applyTimerProfile(settings, task.timerProfile);
+
   const handleEditSubmit = (category: string, description: string) => {
     onEditTask(task.id, category, description);
     setIsEditing(false);
@@ -111,13 +148,46 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
     >
       <div
         className={`${styles.dragHandle} ${isDragging ? styles.dragging : ''}`}
+        data-task-handle={task.id}
         {...attributes}
         {...listeners}
       >
         ⋮⋮
       </div>
-      <div className={styles.taskCategory}>{task.category}</div>
-      <div className={styles.taskDescription}>{task.description}</div>
+      <div className={styles.taskCategory}>
+        <CategoryChip name={task.category} />
+      </div>
+      <div className={styles.taskDescription}>
+        {task.description}
+        {subtaskProgress.total > 0 && (
+          <button
+            className={`${styles.subtaskProgress} ${
+              subtaskProgress.done === subtaskProgress.total ? styles.subtaskProgressComplete : ''
+            }`}
+            onClick={() => setIsChecklistOpen(!showChecklist)}
+            aria-expanded={showChecklist}
+            aria-label={`Checklist: ${subtaskProgress.done} of ${subtaskProgress.total} done`}
+          >
+            {subtaskProgress.done}/{subtaskProgress.total}
+          </button>
+        )}
+        {task.notes && (
+          <button
+            className={styles.notesToggle}
+            onClick={() => setIsNotesOpen(!isNotesOpen)}
+            aria-expanded={isNotesOpen}
+            aria-label={`${isNotesOpen ? 'Hide' : 'Show'} notes`}
+            title="Notes"
+          >
+            📝
+          </button>
+        )}
+        {task.timerProfile && (
+          <span className={styles.timerProfileBadge} title="Work and break minutes of this task">
+            ⏲️ {taskTimerSettings.workDuration / 60000}/{taskTimerSettings.breakDuration / 60000}
+          </span>
+        )}
+      </div>
       <div className={styles.taskTime}>
         {new Date(estimatedTime).toLocaleTimeString([], {
           hour: '2-digit',
@@ -153,10 +223,72 @@ export const SortableTaskItem: React.FC<SortableTaskItemProps> = ({
             onRemovePomodoro={handleRemovePomodoro}
             onEdit={handleEdit}
             onMarkAsDone={handleMarkAsDone}
+            onChecklist={() => setIsChecklistOpen(true)}
+            onNotes={() => setIsEditingNotes(true)}
+            onTimerProfile={() => setIsEditingTimerProfile(true)}
+            onSequence={sequences.length > 0 ? () => setIsSequenceOpen(true) : undefined}
+            onFocus={isActive ? undefined : () => selectTask(task.id)}
+            isFocusDisabled={state.hasStarted && state.timerType === TIMER_TYPES.WORK}
             pomodoroCount={task.pomodoros || 0}
           />
         )}
       </div>
+      {showChecklist && (
+        <div className={styles.taskPanel}>
+          <SubtaskList
+            subtasks={task.subtasks ?? []}
+            onChange={(subtasks) => onUpdateSubtasks(task.id, subtasks)}
+          />
+        </div>
+      )}
+      {isEditingTimerProfile && (
+        <div className={styles.taskPanel}>
+          <TimerProfileEditor
+            profile={task.timerProfile}
+            settings={settings}
+            onSave={handleTimerProfileSave}
+            onCancel={() => setIsEditingTimerProfile(false)}
+          />
+        </div>
+      )}
+      {isSequenceOpen && (
+        <div className={styles.taskPanel}>
+          <label className={styles.sequencePicker}>
+            <span>Session sequence</span>
+            <select
+              value={task.sequenceId ?? ''}
+              onChange={(e) => {
+                onUpdateSequence(task.id, e.target.value || undefined);
+                setIsSequenceOpen(false);
+              }}
+              onKeyDown={(e) => e.key === 'Escape' && setIsSequenceOpen(false)}
+              autoFocus
+            >
+              <option value="">The day's sequence</option>
+              {sequences.map((sequence) => (
+                <option key={sequence.id} value={sequence.id}>
+                  {sequence.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {isEditingNotes ? (
+        <div className={styles.taskPanel}>
+          <NotesEditor
+            notes={task.notes ?? ''}
+            onSave={handleNotesSave}
+            onCancel={() => setIsEditingNotes(false)}
+          />
+        </div>
+      ) : (
+        isNotesOpen && task.notes && (
+          <div className={styles.taskPanel}>
+            <MarkdownNotes notes={task.notes} />
+          </div>
+        )
+      )}
     </div>
   );
 };
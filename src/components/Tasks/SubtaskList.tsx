@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { SubtaskListProps } from '../../types';
+import { toggleSubtask } from '../../utils/subtasks';
+import styles from './Tasks.module.css';
+
+export const SubtaskList: React.FC<SubtaskListProps> = ({
+  subtasks,
+  onChange,
+  canEdit = true,
+  className,
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    onChange([...subtasks, { id: uuidv4(), title, done: false }]);
+    setNewTitle('');
+  };
+
+  return (
+    <div className={`${styles.subtaskList} ${className || ''}`}>
+      <ul aria-label="Checklist">
+        {subtasks.map(subtask => (
+          <li key={subtask.id} className={styles.subtaskItem}>
+            <label className={subtask.done ? styles.subtaskDone : ''}>
+              <input
+                type="checkbox"
+                checked={subtask.done}
+                onChange={() => onChange(toggleSubtask(subtasks, subtask.id, Date.now()))}
+              />
+              {subtask.title}
+            </label>
+            {canEdit && (
+              <button
+                className={styles.subtaskRemove}
+                onClick={() => onChange(subtasks.filter(other => other.id !== subtask.id))}
+                aria-label={`Remove ${subtask.title}`}
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canEdit && (
+        <form className={styles.subtaskForm} onSubmit={handleAdd}>
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Add a subtask"
+            className={styles.descriptionInput}
+            aria-label="New subtask"
+          />
+          <button type="submit" className={styles.addButton} disabled={!newTitle.trim()}>
+            +
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useId, useRef } from 'react';
+import useCategories from '../../hooks/useCategories';
+import useCommands from '../../hooks/useCommands';
 import { TaskInputProps } from '../../types';
+import { createCommand } from '../../utils/hotkeys';
 import styles from './Tasks.module.css';
 
 export const TaskInput: React.FC<TaskInputProps> = ({ 
@@ -11,6 +14,11 @@ export const TaskInput: React.FC<TaskInputProps> = ({
   isEditingCompleted = false,
   onCancelEdit 
 }) => {
+  const { categories } = useCategories();
+  const categoryListId = useId();
+  const categoryInputRef = useRef<HTMLInputElement>(null);
+  const descriptionInputRef = useRef<HTMLInputElement>(null);
+
   // Form state
   const [formState, setFormState] = useState({
     category: initialValues?.category || '',
@@ -30,6 +38,22 @@ export const TaskInput: React.FC<TaskInputProps> = ({
     }
   }, [isEditing]); // Only depend on edit mode changes
 
+  const activeCategories = categories.filter(category => !category.archived);
+
+  // Only the input for adding tasks offers commands; edit forms come and go with their task
+  useCommands(isEditing ? [] : [
+    createCommand('task.new', () => categoryInputRef.current?.focus()),
+    ...activeCategories.map(category => ({
+      id: `category.new:${category.id}`,
+      title: `New task in ${category.name}`,
+      group: 'Categories' as const,
+      run: () => {
+        setFormState(prev => ({ ...prev, category: category.name }));
+        descriptionInputRef.current?.focus();
+      },
+    })),
+  ]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({
@@ -69,16 +93,25 @@ export const TaskInput: React.FC<TaskInputProps> = ({
         value={formState.category}
         onChange={handleInputChange}
         placeholder="work"
+        ref={categoryInputRef}
         className={styles.categoryInput}
         aria-label="Task category"
+        list={categoryListId}
+        autoComplete="off"
         required
       />
+      <datalist id={categoryListId}>
+        {activeCategories.map(category => (
+          <option key={category.id} value={category.name} />
+        ))}
+      </datalist>
       <input
         type="text"
         name="description"
         value={formState.description}
         onChange={handleInputChange}
         placeholder="Short description"
+        ref={descriptionInputRef}
         className={styles.descriptionInput}
         aria-label="Task description"
         required
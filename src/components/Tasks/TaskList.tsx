@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   DndContext,
   DragOverlay,
@@ -23,20 +23,61 @@ import { calculateEstimatedCompletion } from '../../utils/timeCalculations';
 import { CompletionIndicator } from './CompletionIndicator';
 import { TaskSummary } from './TaskSummary';
 import { EmptyState } from './EmptyState';
+import useCommands from '../../hooks/useCommands';
 import useTimerContext from '../../hooks/useTimerContext';
+import { createCommand } from '../../utils/hotkeys';
+import { getSelectedTask } from '../../utils/taskSelection';
 
 export const TaskList: React.FC<TaskListProps> = ({
   tasks,
-  activeTaskId,
   onReorder,
   onDelete,
   onUpdatePomodoros,
   onEditTask,
   onMarkAsDone, // Add this new prop
+  onUpdateSubtasks,
+  onUpdateNotes,
+  onUpdateSequence,
+  onUpdateTimerProfile,
 }) => {
-  const { state } = useTimerContext();
+  const { state, settings } = useTimerContext();
+  const activeTaskId = getSelectedTask(tasks, state.selectedTaskId)?.id ?? null;
   const [activeId, setActiveId] = useState<string | null>(null);
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Tasks are reached through their drag handles, which also move them with the keyboard
+  const getTaskHandles = () =>
+    Array.from(listRef.current?.querySelectorAll<HTMLElement>('[data-task-handle]') ?? []);
+
+  const focusTask = (taskId: string) => {
+    getTaskHandles().find(handle => handle.dataset.taskHandle === taskId)?.focus();
+  };
+
+  const moveTaskFocus = (step: 1 | -1) => {
+    const handles = getTaskHandles();
+    const current = handles.findIndex(handle => handle === document.activeElement);
+    const next = current === -1
+      ? (step === 1 ? 0 : handles.length - 1)
+      : Math.min(Math.max(current + step, 0), handles.length - 1);
+    handles[next]?.focus();
+  };
+
+  useCommands([
+    createCommand('task.next', () => moveTaskFocus(1), tasks.length === 0),
+    createCommand('task.previous', () => moveTaskFocus(-1), tasks.length === 0),
+    ...tasks.map(task => ({
+      id: `task.focus:${task.id}`,
+      title: task.description,
+      group: 'Tasks' as const,
+      keywords: [
+        task.category,
+        ...(task.subtasks ?? []).map(subtask => subtask.title),
+        task.notes ?? '',
+      ].join(' '),
+      run: () => focusTask(task.id),
+    })),
+  ]);
   
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -82,11 +123,12 @@ export const TaskList: React.FC<TaskListProps> = ({
       modifiers={[restrictToVerticalAxis]}
     >
       <div 
+        ref={listRef}
         className={`${styles.taskList} ${activeId ? styles.isDragging : ''}`}
         role="list"
         aria-label="Task list"
       >
-        <TaskSummary tasks={tasks} />
+        <TaskSummary tasks={tasks} settings={settings} />
         <SortableContext
           items={tasks.map(task => task.id)}
           strategy={verticalListSortingStrategy}
@@ -100,6 +142,10 @@ export const TaskList: React.FC<TaskListProps> = ({
               onUpdatePomodoros={onUpdatePomodoros}
               onEditTask={onEditTask}
               onMarkAsDone={onMarkAsDone} // Add this prop
+              onUpdateSubtasks={onUpdateSubtasks}
+              onUpdateNotes={onUpdateNotes}
+              onUpdateSequence={onUpdateSequence}
+              onUpdateTimerProfile={onUpdateTimerProfile}
               className={task.id === activeId ? styles.dragging : ''}
               estimatedCompletion={calculateEstimatedCompletion(
                 [task],
@@ -107,13 +153,14 @@ export const TaskList: React.FC<TaskListProps> = ({
                 task.id === activeTaskId ? state.timeLeft : null,
                 state.isRunning,
                 activeTaskId,
-                state.startTime
+                state.startTime,
+                settings
               )}
             />
           ))}
         </SortableContext>
         
-        <CompletionIndicator tasks={tasks} />
+        <CompletionIndicator tasks={tasks} settings={settings} />
       </div>
       
       <DragOverlay>
@@ -129,7 +176,8 @@ export const TaskList: React.FC<TaskListProps> = ({
                 activeTask.id === activeTaskId ? state.timeLeft : null,
                 state.isRunning,
                 activeTaskId,
-                state.startTime
+                state.startTime,
+                settings
               )).toLocaleTimeString([], { 
                 hour: '2-digit', 
                 minute: '2-digit' 
@@ -9,6 +9,12 @@ export const TaskMenu: React.FC<TaskMenuProps> = ({
     onRemovePomodoro,
     onEdit,
     onMarkAsDone,
+    onChecklist,
+    onNotes,
+    onSequence,
+    onTimerProfile,
+    onFocus,
+    isFocusDisabled = false,
     pomodoroCount,
 }) => {
     const [deleteConfirmation, setDeleteConfirmation] = useState(false);
@@ -48,6 +54,20 @@ export const TaskMenu: React.FC<TaskMenuProps> = ({
             role="menu"
             aria-label="Task options"
         >
+            {onFocus && (
+                <button
+                    className={styles.menuItem}
+                    onClick={() => {
+                        onFocus();
+                        onClose();
+                    }}
+                    disabled={isFocusDisabled}
+                    title={isFocusDisabled ? 'Finish or reset the current session first' : undefined}
+                    role="menuitem"
+                >
+                    <span>🎯</span> Focus on this task
+                </button>
+            )}
             <button
                 className={styles.menuItem}
                 onClick={onAddPomodoro}
@@ -71,6 +91,48 @@ export const TaskMenu: React.FC<TaskMenuProps> = ({
             >
                 <span>✏️</span> Edit
             </button>
+            <button
+                className={styles.menuItem}
+                onClick={() => {
+                    onChecklist();
+                    onClose();
+                }}
+                role="menuitem"
+            >
+                <span>☑️</span> Checklist
+            </button>
+            <button
+                className={styles.menuItem}
+                onClick={() => {
+                    onNotes();
+                    onClose();
+                }}
+                role="menuitem"
+            >
+                <span>📝</span> Notes
+            </button>
+            <button
+                className={styles.menuItem}
+                onClick={() => {
+                    onTimerProfile();
+                    onClose();
+                }}
+                role="menuitem"
+            >
+                <span>⏲️</span> Timer lengths
+            </button>
+            {onSequence && (
+                <button
+                    className={styles.menuItem}
+                    onClick={() => {
+                        onSequence();
+                        onClose();
+                    }}
+                    role="menuitem"
+                >
+                    <span>⏱️</span> Sequence
+                </button>
+            )}
             <button
                 className={styles.menuItem}
                 onClick={() => {
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { TimerProfile, TimerProfileEditorProps } from '../../types';
+import styles from './Tasks.module.css';
+
+const MINUTE = 60 * 1000;
+
+const toMinutes = (duration?: number) => (duration ? String(duration / MINUTE) : '');
+
+// Blank or invalid input falls back to the timer settings
+const fromMinutes = (minutes: string): number | undefined => {
+  const value = Number(minutes);
+  return minutes.trim() && Number.isInteger(value) && value > 0 ? value * MINUTE : undefined;
+};
+
+export const TimerProfileEditor: React.FC<TimerProfileEditorProps> = ({
+  profile,
+  settings,
+  onSave,
+  onCancel,
+}) => {
+  const [workMinutes, setWorkMinutes] = useState(toMinutes(profile?.workDuration));
+  const [breakMinutes, setBreakMinutes] = useState(toMinutes(profile?.breakDuration));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const workDuration = fromMinutes(workMinutes);
+    const breakDuration = fromMinutes(breakMinutes);
+    const newProfile: TimerProfile = {
+      ...(workDuration && { workDuration }),
+      ...(breakDuration && { breakDuration }),
+    };
+    onSave(Object.keys(newProfile).length > 0 ? newProfile : undefined);
+  };
+
+  return (
+    <form
+      className={styles.timerProfileEditor}
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+    >
+      <label>
+        Work
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={workMinutes}
+          placeholder={toMinutes(settings.workDuration)}
+          onChange={(e) => setWorkMinutes(e.target.value)}
+          autoFocus
+        />
+        min
+      </label>
+      <label>
+        Break
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={breakMinutes}
+          placeholder={toMinutes(settings.breakDuration)}
+          onChange={(e) => setBreakMinutes(e.target.value)}
+        />
+        min
+      </label>
+      <button type="submit" className={styles.addButton}>
+        Save
+      </button>
+      <button type="button" className={styles.cancelButton} onClick={onCancel}>
+        Cancel
+      </button>
+    </form>
+  );
+};
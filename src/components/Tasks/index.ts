@@ -1,3 +1,7 @@
 export { TaskInput } from './TaskInput';
 export { TaskList } from './TaskList';
-export { SortableTaskItem } from './SortableTaskItem'; 
\ No newline at end of file
+export { SortableTaskItem } from './SortableTaskItem';
+export { SubtaskList } from './SubtaskList';
+export { NotesEditor } from './NotesEditor';
+export { MarkdownNotes } from './MarkdownNotes';
+export { TimerProfileEditor } from './TimerProfileEditor';
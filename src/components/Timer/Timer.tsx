@@ -1,49 +1,105 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import {
+    AUTO_START_LABELS,
     COMPLETION_MESSAGES,
     ERROR_MESSAGES,
+    OVERTIME_MESSAGE,
+    INTERRUPTION_REASON_LABELS,
     TIMER_TITLES,
     TIMER_TYPES,
 } from '../../constants/timerConstants';
+import useCommands from '../../hooks/useCommands';
 import { useLogger } from '../../hooks/useLogger';
+import useSequences from '../../hooks/useSequences';
+import useSettings from '../../hooks/useSettings';
+import { useTabChannel } from '../../hooks/useTabChannel';
 import { useTimer } from '../../hooks/useTimer';
-import type { TimerProps, TimerState } from '../../types/timer';
-import { tasksDB } from '../../utils/database';
+import type { SessionOutcome } from '../../types/session';
+import type { InterruptionReason, TimerProps, TimerState } from '../../types/timer';
+import { sessionsDB, tasksDB } from '../../utils/database';
+import { createCommand } from '../../utils/hotkeys';
+import { getSessionInterruptions } from '../../utils/interruptions';
+import { getActiveSequence } from '../../utils/sequences';
+import { getFocusSegments } from '../../utils/sessions';
+import { getCheckedSubtaskIds } from '../../utils/subtasks';
+import { getSelectedTask } from '../../utils/taskSelection';
 import {
     initializeNotifications,
     showNotification,
+    showOvertimeNotification,
 } from '../../utils/notifications';
+import { GoalProgressRing } from '../Goals';
 import { Notification } from '../Notification';
+import { SubtaskList } from '../Tasks';
 import styles from './Timer.module.css';
 import { TimerControls } from './TimerControls';
 import { TimerDisplay } from './TimerDisplay';
 import { usePostHog } from 'posthog-js/react';
 
 export const Timer: React.FC<TimerProps> = ({
-    selectedTask,
+    tasks,
     onTaskComplete,
+    completedToday,
+    onUpdateSubtasks,
 }) => {
     const [notification, setNotification] = useState<string | null>(null);
+    // A session about to start by itself, and the seconds left to cancel it
+    const [autoStart, setAutoStart] = useState<{
+        isBreak: boolean;
+        secondsLeft: number;
+    } | null>(null);
     const timerLogger = useLogger('Timer');
     const posthog = usePostHog();
+    const { settings: appSettings } = useSettings();
+    const postToTabs = useTabChannel();
+    const { sequences, isLoading: isLoadingSequences } = useSequences();
 
-    const { state, startBreak, startTimer, resetTimer, pauseTimer, switchTimer, settings } =
+    const {
+        state,
+        startBreak,
+        startTimer,
+        resetTimer,
+        pauseTimer,
+        setInterruptionReason,
+        selectTask,
+        selectSequence,
+        switchTimer,
+        timerSettings,
+        segment,
+    } =
         useTimer({
             onComplete: async (state: TimerState) => {
                 if (state.timerType === TIMER_TYPES.WORK) {
                     // Mark the pomodoro as completed in the database
                     await handleDone(state);
+                    return;
+                }
+
+                // The break is logged here, however the timer then moves on to work
+                await logSession(state, 'completed', getSessionEndTime(state));
+                if (appSettings.autoStartWork) {
+                    // Roll back into work, which then starts by itself
+                    await handleDone(state);
                 } else {
-                    // For break timers, just show notification
                     showNotification(state.timerType);
                     setNotification(COMPLETION_MESSAGES[state.timerType]);
                 }
             },
         });
 
+    const selectedTask = getSelectedTask(tasks, state.selectedTaskId);
     const canStartWorkTimer = selectedTask !== null;
+    const sequenceId = getActiveSequence(sequences, selectedTask)?.id ?? null;
+    // Without auto-pick, work only carries on with the task of the last
+    // session; once that task is done the next one has to be chosen
+    const canAutoStartWork =
+        selectedTask !== null &&
+        (appSettings.autoPickNextTask || selectedTask.id === state.selectedTaskId);
 
     const handleStartWorkTimer = () => {
+        if (!selectedTask) return;
         startTimer(selectedTask);
         posthog.capture('timer_started', {
             timer_type: state.timerType,
@@ -59,20 +115,64 @@ export const Timer: React.FC<TimerProps> = ({
     };
 
     const handleResume = () => {
+        if (!selectedTask) return;
         startTimer(selectedTask);
     };
 
     const handleSkip = () => {
         switchTimer();
+        logSession(state, 'skipped');
     };
 
     const handleResetCurrentTimer = () => {
         resetTimer();
+        if (state.hasStarted) {
+            logSession(state, 'stopped');
+        }
     };
 
     const showInAppNotification = (message: string) => {
         setNotification(message);
     };
+
+    // A session that expired while the tab was closed ended at its expected end time
+    const getSessionEndTime = (timerState: TimerState) =>
+        timerState.hasCompleted && timerState.expectedEndTime
+            ? Math.min(timerState.expectedEndTime, Date.now())
+            : Date.now();
+
+    /**
+     * Adds a run of the timer to the sessions log. A skipped session never
+     * started, so it starts and ends at once.
+     */
+    const logSession = async (
+        timerState: TimerState,
+        outcome: SessionOutcome,
+        endTime: number = Date.now()
+    ) => {
+        const startTime =
+            timerState.sessionStartTime ?? timerState.startTime ?? endTime;
+
+        try {
+            await sessionsDB.add({
+                id: uuidv4(),
+                type: timerState.timerType,
+                outcome,
+                startTime,
+                endTime,
+                taskId: timerState.activeTaskId ?? undefined,
+                segments: getFocusSegments(
+                    startTime,
+                    endTime,
+                    getSessionInterruptions(timerState, endTime)
+                ),
+            });
+            postToTabs({ type: 'SESSIONS_CHANGED' });
+        } catch (error) {
+            timerLogger.error('Failed to log session:', error);
+        }
+    };
+
     const handleDone = async (timerState: TimerState) => {
         if (!timerState) {
             return;
@@ -80,44 +180,94 @@ export const Timer: React.FC<TimerProps> = ({
         switchTimer();
         showNotification(state.timerType);
         setNotification(COMPLETION_MESSAGES[state.timerType]);
+        scheduleAutoStart(state.timerType === TIMER_TYPES.WORK);
 
         if(state.timerType === TIMER_TYPES.BREAK || state.timerType === TIMER_TYPES.LONG_BREAK) {
+            // A break that ran out was already logged when it completed
+            if (!timerState.hasCompleted) {
+                await logSession(timerState, 'completed', getSessionEndTime(timerState));
+            }
             return;
         }
 
         let actualDurationMs = undefined;
 
+        // The length the session started with, whatever the settings or the
+        // task say now; sessions saved before it was tracked use the current one
+        const workDuration =
+            timerState.sessionDuration ?? segment?.duration ?? timerSettings.workDuration;
+
         if (timerState.hasCompleted) {
-            actualDurationMs = settings.workDuration;
+            actualDurationMs = workDuration;
         } else if (!timerState.hasCompleted && timerState.hasStarted) {
             // Calculate actual duration based on time spent
-            const totalDurationMs = settings.workDuration; 
-            const timeLeftMs = state.timeLeft; 
+            const totalDurationMs = workDuration; 
+            const timeLeftMs = timerState.timeLeft; 
             actualDurationMs = totalDurationMs - timeLeftMs;
         }
 
-        const completedTask = {
-            ...selectedTask,
-            id: `completed-${timerState.activeTaskId}-${Date.now()}`,
-            endTime: Date.now(),
-            duration: actualDurationMs,
-            completed: true,
-            pomodoros: 1,
-        };
+        const endTime = getSessionEndTime(timerState);
 
         try {
             if (!timerState.activeTaskId) {
                 throw new Error('No task id found');
             }
+
+            // The session belongs to the task it was started on, which may not be
+            // the selected task (e.g. when it completes right after a reload)
+            const sessionTask =
+                selectedTask?.id === timerState.activeTaskId
+                    ? selectedTask
+                    : await tasksDB.get(timerState.activeTaskId);
+            if (!sessionTask) {
+                throw new Error('Task not found');
+            }
+
+            const interruptions = getSessionInterruptions(timerState, endTime);
+            // Time left goes negative once the session runs into overtime
+            const overtime = Math.max(0, -timerState.timeLeft);
+            // Sessions restored from before the start was tracked are worked back from their duration
+            const startTime =
+                timerState.sessionStartTime ?? endTime - (actualDurationMs ?? 0);
+            const completedTask = {
+                ...sessionTask,
+                id: `completed-${timerState.activeTaskId}-${endTime}`,
+                startTime,
+                endTime,
+                duration: actualDurationMs,
+                segments: getFocusSegments(startTime, endTime, interruptions),
+                timerSettings: { ...timerSettings, workDuration },
+                checkedSubtaskIds: getCheckedSubtaskIds(
+                    sessionTask.subtasks,
+                    startTime,
+                    endTime
+                ),
+                completed: true,
+                pomodoros: 1,
+                interruptions,
+                ...(overtime > 0 && { overtime }),
+            };
+
             await tasksDB.completeOnePomodoro(
                 timerState.activeTaskId,
                 completedTask
             );
+            if (appSettings.autoPickNextTask && (sessionTask.pomodoros || 0) <= 1) {
+                // Carry on with the task after the finished one rather than the first.
+                // A task missing from the list has no known next one, so the timer
+                // then falls back to the first task like for any task that is gone.
+                const index = tasks.findIndex((task) => task.id === sessionTask.id);
+                if (index !== -1) {
+                    selectTask(tasks[index + 1]?.id ?? null);
+                }
+            }
+            await logSession(timerState, 'completed', endTime);
             await onTaskComplete();
             posthog.capture('timer_completed', {
                 timer_type: timerState.timerType,
                 task_id: timerState.activeTaskId,
                 duration: actualDurationMs,
+                interruptions: completedTask.interruptions.length,
             });
             showInAppNotification(COMPLETION_MESSAGES[state.timerType]);
         } catch (error) {
@@ -129,11 +279,123 @@ export const Timer: React.FC<TimerProps> = ({
         }
     };
 
+    /**
+     * Counts down to starting the session the timer switched to, if the
+     * settings say it starts by itself. Called right after switchTimer.
+     */
+    const scheduleAutoStart = (isBreak: boolean) => {
+        const shouldStart = isBreak
+            ? appSettings.autoStartBreaks
+            : appSettings.autoStartWork && canAutoStartWork;
+        if (shouldStart) {
+            setAutoStart({ isBreak, secondsLeft: appSettings.autoStartDelay });
+        }
+    };
+
+    // Read when the countdown runs out, so it starts with the latest task
+    const runAutoStartRef = useRef(() => {});
+    runAutoStartRef.current = () => {
+        if (autoStart?.isBreak) {
+            handleStartBreakTimer();
+        } else if (canStartWorkTimer) {
+            handleStartWorkTimer();
+        }
+    };
+
+    useEffect(() => {
+        if (!autoStart) return;
+
+        // Starting, skipping or switching the timer by hand takes over
+        const isBreak = state.timerType !== TIMER_TYPES.WORK;
+        if (state.hasStarted || isBreak !== autoStart.isBreak) {
+            setAutoStart(null);
+            return;
+        }
+
+        if (autoStart.secondsLeft > 0) {
+            const timeout = setTimeout(
+                () => setAutoStart({ ...autoStart, secondsLeft: autoStart.secondsLeft - 1 }),
+                1000
+            );
+            return () => clearTimeout(timeout);
+        }
+
+        setAutoStart(null);
+        runAutoStartRef.current();
+    }, [autoStart, state.hasStarted, state.timerType]);
+
+    // Follow the sequence of the selected task or the day, switching only
+    // between cycles, while a work session waits to be started
+    useEffect(() => {
+        if (isLoadingSequences || state.hasStarted || state.timerType !== TIMER_TYPES.WORK) return;
+        if (sequenceId !== state.sequenceId) {
+            selectSequence(sequenceId);
+        }
+    }, [
+        isLoadingSequences,
+        sequenceId,
+        selectSequence,
+        state.hasStarted,
+        state.timerType,
+        state.sequenceId,
+    ]);
+
     useEffect(() => {
         initializeNotifications();
     }, []);
 
+    const isBreak = state.timerType !== TIMER_TYPES.WORK;
+    const isPaused = !state.isRunning && state.hasStarted;
+    const isOvertime = !isBreak && state.hasStarted && state.timeLeft < 0;
+
+    useEffect(() => {
+        if (isOvertime) {
+            showOvertimeNotification();
+            setNotification(OVERTIME_MESSAGE);
+        }
+    }, [isOvertime]);
+
+    // The primary control: start, pause or resume, whichever the button shows
+    const handleToggle = () => {
+        if (!state.hasStarted) {
+            if (isBreak) {
+                handleStartBreakTimer();
+            } else {
+                handleStartWorkTimer();
+            }
+        } else if (isPaused) {
+            handleResume();
+        } else {
+            handlePause();
+        }
+    };
+
+    // Work sessions need a task to start or resume on, like the controls below
+    useCommands([
+        createCommand(
+            'timer.toggle',
+            handleToggle,
+            !isBreak && !canStartWorkTimer && (!state.hasStarted || isPaused)
+        ),
+        createCommand('timer.skip', handleSkip, !isBreak || state.hasStarted),
+        // Paused or over time, DONE takes the place of STOP
+        createCommand(
+            'timer.stop',
+            handleResetCurrentTimer,
+            !state.hasStarted || isPaused || isOvertime
+        ),
+        createCommand(
+            'timer.done',
+            () => handleDone(state),
+            // Only while the DONE button shows: paused, or running over time
+            !state.hasStarted ||
+                !(isPaused || isOvertime) ||
+                (!isBreak && !canStartWorkTimer && isPaused)
+        ),
+    ]);
+
     const getTimerTitle = () => {
+        if (segment?.label) return segment.label;
         const session = Math.floor(state.sessionsCompleted) + 1;
         const title = TIMER_TITLES[state.timerType];
         return typeof title === 'function' ? title(session) : title;
@@ -146,13 +408,32 @@ export const Timer: React.FC<TimerProps> = ({
                 className={`${styles.timerContainer} ${
                     styles[state.timerType]
                 }`}
+                style={segment ? { backgroundColor: segment.color } : undefined}
             >
                 <div className={styles.timerHeader}>
                     <div className={styles.headerLeft}>
                         <span className={styles.comingSoon}>⚙️</span>
                         <span className={styles.comingSoon}>📋</span>
                     </div>
-                    <div>{getTimerTitle()}</div>
+                    <div className={styles.headerRight}>
+                        <span>{getTimerTitle()}</span>
+                        {completedToday !== undefined && (
+                            // The weekly goal and streaks are in the Goals panel of the Stats page
+                            <Link
+                                to="/stats"
+                                className={styles.goalLink}
+                                title="Daily pomodoro goal. See the weekly goal on the Stats page"
+                            >
+                                <GoalProgressRing
+                                    value={completedToday}
+                                    goal={appSettings.dailyPomodoroGoal}
+                                    label="Daily pomodoro goal"
+                                    size={28}
+                                />
+                                <span className={styles.goalLinkText}>Week ›</span>
+                            </Link>
+                        )}
+                    </div>
                 </div>
                 <div className={styles.timerDisplay}>
                     <TimerDisplay timeLeft={state.timeLeft} />
@@ -162,8 +443,67 @@ export const Timer: React.FC<TimerProps> = ({
                         ? selectedTask.description
                         : 'No task selected'}
                 </div>
+                {selectedTask?.subtasks && selectedTask.subtasks.length > 0 && (
+                    <SubtaskList
+                        subtasks={selectedTask.subtasks}
+                        onChange={(subtasks) =>
+                            onUpdateSubtasks?.(selectedTask.id, subtasks)
+                        }
+                        canEdit={false}
+                        className={styles.subtasks}
+                    />
+                )}
+                {state.currentInterruption &&
+                    state.timerType === TIMER_TYPES.WORK && (
+                        <div
+                            className={styles.interruptionReason}
+                            role="radiogroup"
+                            aria-label="What interrupted you?"
+                        >
+                            <span>Interrupted by:</span>
+                            {(
+                                Object.keys(
+                                    INTERRUPTION_REASON_LABELS
+                                ) as InterruptionReason[]
+                            ).map((reason) => (
+                                <button
+                                    key={reason}
+                                    role="radio"
+                                    aria-checked={
+                                        state.currentInterruption?.reason ===
+                                        reason
+                                    }
+                                    className={`${styles.reasonButton} ${
+                                        state.currentInterruption?.reason ===
+                                        reason
+                                            ? styles.reasonButtonActive
+                                            : ''
+                                    }`}
+                                    onClick={() =>
+                                        setInterruptionReason(reason)
+                                    }
+                                >
+                                    {INTERRUPTION_REASON_LABELS[reason]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                {autoStart && autoStart.secondsLeft > 0 && (
+                    <div className={styles.autoStart} role="status">
+                        <span>
+                            {AUTO_START_LABELS[state.timerType]} starts in{' '}
+                            {autoStart.secondsLeft}s
+                        </span>
+                        <button
+                            className={styles.reasonButton}
+                            onClick={() => setAutoStart(null)}
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                )}
                 <TimerControls
-                    isPaused={!state.isRunning && state.hasStarted}
+                    isPaused={isPaused}
                     hasStarted={state.hasStarted}
                     onStart={handleStartWorkTimer}
                     onBreak={handleStartBreakTimer}
@@ -174,6 +514,7 @@ export const Timer: React.FC<TimerProps> = ({
                     onSkip={handleSkip}
                     disableWorkTimer={!canStartWorkTimer}
                     timerType={state.timerType}
+                    isOvertime={isOvertime}
                 />
             </div>
             {notification && (
@@ -14,7 +14,8 @@ export const TimerControls: React.FC<TimerControlsProps> = ({
   onSkip,
   onBreak,
   disableWorkTimer = false,
-  timerType
+  timerType,
+  isOvertime = false
 }) => {
   const renderPrimaryButton = () => {
     if (!hasStarted) {
@@ -60,14 +61,16 @@ export const TimerControls: React.FC<TimerControlsProps> = ({
     }
 
     const isDoneDisabled = isPaused && disableWorkTimer && timerType === TIMER_TYPES.WORK;
+    // Overtime only ends when the session is marked done
+    const showDone = isPaused || isOvertime;
 
     return (
       <button 
         className={`${styles.controlButton} ${isDoneDisabled ? styles.disabled : ''}`} 
-        onClick={isPaused ? onDone : onStop}
+        onClick={showDone ? onDone : onStop}
         disabled={isDoneDisabled}
       >
-        <span>{isPaused ? 'DONE' : 'STOP'}</span>
+        <span>{showDone ? 'DONE' : 'STOP'}</span>
       </button>
     );
   };
@@ -3,8 +3,9 @@ import { TimerDisplayProps } from '../../types';
 import styles from './Timer.module.css';
 
 export const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({ timeLeft }) => {
-  // Ensure timeLeft is a valid number and not negative
-  const validTimeLeft = Math.max(0, Number(timeLeft) || 0);
+  // Negative time is overtime, counted up from the end of the session
+  const isOvertime = timeLeft < 0;
+  const validTimeLeft = Math.abs(Number(timeLeft) || 0);
   
   // Use Math.floor to ensure we get whole numbers
   const timeLeftInSeconds = Math.floor(validTimeLeft / 1000);
@@ -12,7 +13,8 @@ export const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({ timeLeft
   const seconds = Math.floor(timeLeftInSeconds % 60);
 
   return (
-    <div className={styles.timerDisplay}>
+    <div className={`${styles.timerDisplay} ${isOvertime ? styles.overtime : ''}`}>
+      {isOvertime && '+'}
       {String(minutes).padStart(2, '0')}:{String(seconds).padStart(2, '0')}
     </div>
   );
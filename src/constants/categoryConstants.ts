@@ -0,0 +1,14 @@
+// Colours given to new categories, in turn
+export const CATEGORY_COLORS = [
+  '#d9534f',
+  '#f0ad4e',
+  '#5cb85c',
+  '#428bca',
+  '#9b59b6',
+  '#1abc9c',
+  '#e67e22',
+  '#34495e',
+] as const;
+
+// Used for category names without a stored category
+export const DEFAULT_CATEGORY_COLOR = '#bbb';
@@ -0,0 +1,39 @@
+import type { CommandDefinition, CommandGroup, CommandId, KeyBindings } from '../types';
+
+// Every bindable command, in the order they are listed in Settings and the help overlay
+export const COMMAND_DEFINITIONS: Record<CommandId, CommandDefinition> = {
+  'timer.toggle': { title: 'Start or pause the timer', group: 'Timer' },
+  'timer.skip': { title: 'Skip the break', group: 'Timer' },
+  'timer.stop': { title: 'Stop the timer', group: 'Timer' },
+  'timer.done': { title: 'Finish the session', group: 'Timer' },
+  'task.new': { title: 'New task', group: 'Tasks' },
+  'task.next': { title: 'Next task', group: 'Tasks' },
+  'task.previous': { title: 'Previous task', group: 'Tasks' },
+  'task.undo': { title: 'Undo the last task change', group: 'Tasks' },
+  'task.redo': { title: 'Redo the undone task change', group: 'Tasks' },
+  'nav.home': { title: 'Go to Home', group: 'Navigation' },
+  'nav.stats': { title: 'Go to Stats', group: 'Navigation' },
+  'nav.settings': { title: 'Go to Settings', group: 'Navigation' },
+  'palette.open': { title: 'Open the command palette', group: 'General' },
+  'help.open': { title: 'Show keyboard shortcuts', group: 'General' },
+};
+
+// Order of the groups in the command palette
+export const COMMAND_GROUPS: CommandGroup[] = ['Timer', 'Tasks', 'Categories', 'Navigation', 'General'];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  'timer.toggle': 'Space',
+  'timer.skip': 'S',
+  'timer.stop': 'X',
+  'timer.done': 'D',
+  'task.new': 'N',
+  'task.next': 'J',
+  'task.previous': 'K',
+  'task.undo': 'Mod+Z',
+  'task.redo': 'Mod+Shift+Z',
+  'nav.home': '1',
+  'nav.stats': '2',
+  'nav.settings': '3',
+  'palette.open': 'Mod+K',
+  'help.open': '?',
+};
@@ -0,0 +1,61 @@
+import type { SequencePreset, SequenceSegment } from '../types';
+import { TIMER_TYPES, type TimerType } from './timerConstants';
+
+// Colours of new segments, matching the built-in timer themes
+export const SEGMENT_COLORS: Record<TimerType, string> = {
+  [TIMER_TYPES.WORK]: '#d9534f',
+  [TIMER_TYPES.BREAK]: '#5cb85c',
+  [TIMER_TYPES.LONG_BREAK]: '#428bca',
+};
+
+export const SEGMENT_TYPE_LABELS: Record<TimerType, string> = {
+  [TIMER_TYPES.WORK]: 'Work',
+  [TIMER_TYPES.BREAK]: 'Break',
+  [TIMER_TYPES.LONG_BREAK]: 'Long break',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const segment = (type: TimerType, minutes: number, label: string): SequenceSegment => ({
+  type,
+  duration: minutes * 60 * 1000,
+  label,
+  color: SEGMENT_COLORS[type],
+});
+
+export const SEQUENCE_PRESETS: SequencePreset[] = [
+  {
+    name: '52/17',
+    segments: [
+      segment(TIMER_TYPES.WORK, 52, 'Focus'),
+      segment(TIMER_TYPES.BREAK, 17, 'Break'),
+    ],
+  },
+  {
+    name: 'Ultradian 90/20',
+    segments: [
+      segment(TIMER_TYPES.WORK, 90, 'Deep work'),
+      segment(TIMER_TYPES.BREAK, 20, 'Recovery'),
+    ],
+  },
+  {
+    name: 'Exam: 50/10 x3 then 30',
+    segments: [
+      segment(TIMER_TYPES.WORK, 50, 'Paper 1'),
+      segment(TIMER_TYPES.BREAK, 10, 'Break'),
+      segment(TIMER_TYPES.WORK, 50, 'Paper 2'),
+      segment(TIMER_TYPES.BREAK, 10, 'Break'),
+      segment(TIMER_TYPES.WORK, 50, 'Paper 3'),
+      segment(TIMER_TYPES.LONG_BREAK, 30, 'Long break'),
+    ],
+  },
+];
+
+// Starting point for a sequence built from scratch
+export const CUSTOM_SEQUENCE_PRESET: SequencePreset = {
+  name: 'New sequence',
+  segments: [
+    segment(TIMER_TYPES.WORK, 25, 'Work'),
+    segment(TIMER_TYPES.BREAK, 5, 'Break'),
+  ],
+};
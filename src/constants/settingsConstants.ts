@@ -0,0 +1,154 @@
+import type {
+  KeyBindings,
+  SettingDefinition,
+  SettingsRegistry,
+  SettingsValues,
+  TimerSettings,
+} from '../types';
+import { DEFAULT_KEY_BINDINGS } from './commandConstants';
+import { DEFAULT_TIMER_SETTINGS } from './timerConstants';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isTimerSettings = (value: unknown): value is TimerSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const settings = value as Record<string, unknown>;
+  return (Object.keys(DEFAULT_TIMER_SETTINGS) as (keyof TimerSettings)[]).every(
+    key => isPositiveInteger(settings[key])
+  );
+};
+
+const isKeyBindings = (value: unknown): value is KeyBindings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const bindings = value as Record<string, unknown>;
+  return Object.keys(DEFAULT_KEY_BINDINGS).every(key => typeof bindings[key] === 'string');
+};
+
+export const SETTINGS_REGISTRY: SettingsRegistry = {
+  addTasksToBottom: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Add new tasks to bottom of list',
+    description: 'When enabled, new tasks will be added to the bottom of your task list instead of the top.',
+  },
+  timerSettings: {
+    type: 'object',
+    defaultValue: DEFAULT_TIMER_SETTINGS,
+    version: 1,
+    validate: isTimerSettings,
+    // Older records may be missing fields added since; fill them from the defaults
+    migrate: (value) =>
+      typeof value === 'object' && value !== null
+        ? { ...DEFAULT_TIMER_SETTINGS, ...value }
+        : value,
+  },
+  dailyPomodoroGoal: {
+    type: 'number',
+    defaultValue: 8,
+    version: 1,
+    validate: isPositiveInteger,
+    min: 1,
+    max: 48,
+    label: 'Daily pomodoro goal',
+    description: 'Pomodoros to complete each day. Days that reach it extend your streak.',
+  },
+  weeklyFocusGoal: {
+    type: 'number',
+    defaultValue: 20 * 60,
+    version: 1,
+    validate: isPositiveInteger,
+    min: 30,
+    max: 7 * 24 * 60,
+    label: 'Weekly focus goal (minutes)',
+    description: 'Minutes of focus to reach each week, from Monday to Sunday.',
+  },
+  keyBindings: {
+    type: 'object',
+    defaultValue: DEFAULT_KEY_BINDINGS,
+    // 2: undo and redo
+    version: 2,
+    validate: isKeyBindings,
+    // Bump the version when adding commands so saved bindings pick up their default keys
+    migrate: (value) =>
+      typeof value === 'object' && value !== null
+        ? { ...DEFAULT_KEY_BINDINGS, ...value }
+        : value,
+  },
+  autoStartBreaks: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Auto-start breaks',
+    description: 'Start the break by itself when a work session ends.',
+  },
+  autoStartWork: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Auto-start work sessions',
+    description: 'Start the next pomodoro by itself when a break ends, as long as the task you were working on has pomodoros left.',
+  },
+  autoPickNextTask: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Move on to the next task automatically',
+    description: 'When a task is done, select the task after it so that the next pomodoro can start on it.',
+  },
+  autoStartDelay: {
+    type: 'number',
+    defaultValue: 10,
+    version: 1,
+    validate: isNonNegativeInteger,
+    min: 0,
+    max: 300,
+    label: 'Auto-start countdown (seconds)',
+    description: 'Time to cancel a session before it starts by itself. 0 starts it straight away.',
+  },
+  overtimeMode: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Overtime mode',
+    description: 'When a work session ends, keep counting up until you press Done. The extra time is recorded as overtime.',
+  },
+  extendBreaksAfterOvertime: {
+    type: 'boolean',
+    defaultValue: false,
+    version: 1,
+    validate: isBoolean,
+    label: 'Lengthen breaks after overtime',
+    description: 'Add to the next break in proportion to the overtime, e.g. 5 more minutes of a 30-minute break after 15 minutes over a 90-minute session.',
+  },
+};
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+  Object.entries(SETTINGS_REGISTRY).map(([key, definition]) => [key, definition.defaultValue])
+) as unknown as SettingsValues;
+
+// Add type guards for better type safety
+export function isSettingKey(value: string): value is keyof SettingsValues {
+  return Object.prototype.hasOwnProperty.call(SETTINGS_REGISTRY, value);
+}
+
+export function isValidSetting<T>(definition: SettingDefinition<T>, value: unknown): value is T {
+  if (!definition.validate(value)) return false;
+  if (definition.options && !definition.options.includes(value)) return false;
+  if (typeof value === 'number') {
+    if (definition.min !== undefined && value < definition.min) return false;
+    if (definition.max !== undefined && value > definition.max) return false;
+  }
+  return true;
+}
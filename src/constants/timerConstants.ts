@@ -25,6 +25,8 @@ export const COMPLETION_MESSAGES = {
   [TIMER_TYPES.LONG_BREAK]: "Long break session completed!"
 } as const;
 
+export const OVERTIME_MESSAGE = "Pomodoro time is up! Keep going and press Done when you're ready.";
+
 export const ERROR_MESSAGES = {
   TASK_LOAD_FAILED: "Failed to load tasks",
   TASK_UPDATE_FAILED: "Failed to update task",
@@ -38,6 +40,18 @@ export const TIMER_TITLES = {
   DEFAULT: "Timer"
 } as const;
 
+// Names used in the countdown before a session starts by itself
+export const AUTO_START_LABELS = {
+  [TIMER_TYPES.WORK]: "Pomodoro",
+  [TIMER_TYPES.BREAK]: "Break",
+  [TIMER_TYPES.LONG_BREAK]: "Long break"
+} as const;
+
+export const INTERRUPTION_REASON_LABELS = {
+  internal: "Internal",
+  external: "External"
+} as const;
+
 // Add type guards for better type safety
 export function isTimerType(value: string): value is TimerType {
   return Object.values(TIMER_TYPES).includes(value as TimerType);
@@ -0,0 +1,61 @@
+import React, { createContext, useCallback, useEffect, useState } from 'react';
+import { useLogger } from '../hooks/useLogger';
+import { useTabChannel } from '../hooks/useTabChannel';
+import type { CategoriesContextType, Category } from '../types';
+import { findCategory } from '../utils/categories';
+import { categoriesDB } from '../utils/database';
+
+const CategoriesContext = createContext<CategoriesContextType | null>(null);
+
+export const CategoriesProvider: React.FC<{ children: React.ReactNode }> = ({
+    children,
+}) => {
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const categoriesLogger = useLogger('CategoriesProvider');
+
+    /**
+     * Reads the categories from the database again. Adding or editing a task
+     * may create a category, so call this after changing tasks.
+     */
+    const reloadCategories = useCallback(async () => {
+        try {
+            setCategories(await categoriesDB.getAll());
+        } catch (error) {
+            categoriesLogger.error('Failed to load categories:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [categoriesLogger]);
+
+    useEffect(() => {
+        reloadCategories();
+    }, [reloadCategories]);
+
+    // Other tabs create and rename categories along with their tasks
+    useTabChannel((message) => {
+        if (message.type === 'TASKS_CHANGED') {
+            reloadCategories();
+        }
+    });
+
+    const getCategory = useCallback(
+        (name: string) => findCategory(categories, name),
+        [categories]
+    );
+
+    const value = {
+        categories,
+        isLoading,
+        getCategory,
+        reloadCategories,
+    };
+
+    return (
+        <CategoriesContext.Provider value={value}>
+            {children}
+        </CategoriesContext.Provider>
+    );
+};
+
+export default CategoriesContext;
@@ -0,0 +1,128 @@
+import React, { createContext, useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CommandPalette, ShortcutsHelp } from '../components/Commands';
+import { COMMAND_GROUPS } from '../constants/commandConstants';
+import useSettings from '../hooks/useSettings';
+import type { Command, CommandsContextType } from '../types';
+import {
+    createCommand,
+    findCommandForCombo,
+    getKeyCombo,
+    shouldIgnoreHotkey,
+} from '../utils/hotkeys';
+
+const CommandsContext = createContext<CommandsContextType | null>(null);
+
+type Overlay = 'palette' | 'help' | null;
+
+/**
+ * Holds the commands registered by the mounted components and runs them
+ * from their key bindings, the command palette and the shortcuts overlay.
+ * Must be rendered inside the router, as it registers the navigation commands.
+ */
+export const CommandsProvider: React.FC<{ children: React.ReactNode }> = ({
+    children,
+}) => {
+    const { settings } = useSettings();
+    const { keyBindings } = settings;
+    const navigate = useNavigate();
+    const registrationsRef = useRef(new Map<symbol, Command[]>());
+    const [overlay, setOverlay] = useState<Overlay>(null);
+    // What the palette lists, read when it opens
+    const [paletteCommands, setPaletteCommands] = useState<Command[]>([]);
+
+    const registerCommands = useCallback((commands: Command[]) => {
+        const registration = Symbol('commands');
+        registrationsRef.current.set(registration, commands);
+        return () => {
+            registrationsRef.current.delete(registration);
+        };
+    }, []);
+
+    // Components register again on every render, so order by group rather than by registration
+    const getCommands = useCallback(
+        () =>
+            [...registrationsRef.current.values()]
+                .flat()
+                .sort(
+                    (a, b) =>
+                        COMMAND_GROUPS.indexOf(a.group) - COMMAND_GROUPS.indexOf(b.group)
+                ),
+        []
+    );
+
+    const openPalette = useCallback(() => {
+        setPaletteCommands(getCommands());
+        setOverlay('palette');
+    }, [getCommands]);
+
+    const openHelp = useCallback(() => setOverlay('help'), []);
+
+    const closeOverlay = useCallback(() => setOverlay(null), []);
+
+    useEffect(() =>
+        registerCommands([
+            createCommand('nav.home', () => navigate('/')),
+            createCommand('nav.stats', () => navigate('/stats')),
+            createCommand('nav.settings', () => navigate('/settings')),
+            createCommand('palette.open', () =>
+                overlay === 'palette' ? closeOverlay() : openPalette()
+            ),
+            createCommand('help.open', () =>
+                overlay === 'help' ? closeOverlay() : openHelp()
+            ),
+        ])
+    );
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            // Presses already handled by the focused element, e.g. picking up a task to drag it
+            if (event.defaultPrevented || event.repeat) {
+                return;
+            }
+
+            const combo = getKeyCombo(event);
+            if (!combo || shouldIgnoreHotkey(event.target, combo)) {
+                return;
+            }
+
+            const commandId = findCommandForCombo(keyBindings, combo);
+            const command = getCommands().find(
+                (registered) => registered.id === commandId && !registered.disabled
+            );
+            if (command) {
+                event.preventDefault();
+                command.run();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [keyBindings, getCommands]);
+
+    const value = {
+        registerCommands,
+        getCommands,
+        keyBindings,
+        openPalette,
+        openHelp,
+    };
+
+    return (
+        <CommandsContext.Provider value={value}>
+            {children}
+            {overlay === 'palette' && (
+                <CommandPalette
+                    commands={paletteCommands}
+                    keyBindings={keyBindings}
+                    onClose={closeOverlay}
+                />
+            )}
+            {overlay === 'help' && (
+                <ShortcutsHelp keyBindings={keyBindings} onClose={closeOverlay} />
+            )}
+        </CommandsContext.Provider>
+    );
+};
+
+export default CommandsContext;
@@ -0,0 +1,53 @@
+import React, { createContext, useCallback, useEffect, useState } from 'react';
+import { useLogger } from '../hooks/useLogger';
+import { useTabChannel } from '../hooks/useTabChannel';
+import type { SequencesContextType, SessionSequence } from '../types';
+import { sequencesDB } from '../utils/database';
+
+const SequencesContext = createContext<SequencesContextType | null>(null);
+
+export const SequencesProvider: React.FC<{ children: React.ReactNode }> = ({
+    children,
+}) => {
+    const [sequences, setSequences] = useState<SessionSequence[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const sequencesLogger = useLogger('SequencesProvider');
+
+    /**
+     * Reads the sequences from the database again, e.g. after one was saved.
+     */
+    const reloadSequences = useCallback(async () => {
+        try {
+            setSequences(await sequencesDB.getAll());
+        } catch (error) {
+            sequencesLogger.error('Failed to load sequences:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [sequencesLogger]);
+
+    useEffect(() => {
+        reloadSequences();
+    }, [reloadSequences]);
+
+    // Other tabs edit sequences, or import them along with tasks
+    useTabChannel((message) => {
+        if (message.type === 'SEQUENCES_CHANGED' || message.type === 'TASKS_CHANGED') {
+            reloadSequences();
+        }
+    });
+
+    const value = {
+        sequences,
+        isLoading,
+        reloadSequences,
+    };
+
+    return (
+        <SequencesContext.Provider value={value}>
+            {children}
+        </SequencesContext.Provider>
+    );
+};
+
+export default SequencesContext;
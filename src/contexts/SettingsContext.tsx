@@ -0,0 +1,63 @@
+import React, { createContext, useCallback, useEffect, useState } from 'react';
+import { DEFAULT_SETTINGS } from '../constants/settingsConstants';
+import { useLogger } from '../hooks/useLogger';
+import type {
+    SettingKey,
+    SettingsContextType,
+    SettingsValues,
+} from '../types/settings';
+import { settingsDB } from '../utils/database';
+
+const SettingsContext = createContext<SettingsContextType | null>(null);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
+    children,
+}) => {
+    const [settings, setSettings] = useState<SettingsValues>(DEFAULT_SETTINGS);
+    const [isLoading, setIsLoading] = useState(true);
+    const settingsLogger = useLogger('SettingsProvider');
+
+    /**
+     * Reads every setting from the database again, e.g. after an import.
+     */
+    const reloadSettings = useCallback(async () => {
+        try {
+            setSettings(await settingsDB.getAll());
+        } catch (error) {
+            settingsLogger.error('Failed to load settings:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [settingsLogger]);
+
+    useEffect(() => {
+        reloadSettings();
+    }, [reloadSettings]);
+
+    /**
+     * Persists a setting and, once stored, publishes the new value to every
+     * component using the settings. Rejects if the value fails validation.
+     */
+    const updateSetting = useCallback(
+        async <K extends SettingKey>(key: K, value: SettingsValues[K]) => {
+            await settingsDB.set(key, value);
+            setSettings((prev) => ({ ...prev, [key]: value }));
+        },
+        []
+    );
+
+    const value = {
+        settings,
+        isLoading,
+        updateSetting,
+        reloadSettings,
+    };
+
+    return (
+        <SettingsContext.Provider value={value}>
+            {children}
+        </SettingsContext.Provider>
+    );
+};
+
+export default SettingsContext;
@@ -2,21 +2,34 @@ import React, {
     createContext,
     useCallback,
     useEffect,
+    useMemo,
     useReducer,
     useRef,
+    useState,
 } from 'react';
 import {
     DEFAULT_TIMER_SETTINGS,
     TIMER_TYPES,
     type TimerType,
 } from '../constants/timerConstants';
+import { useLogger } from '../hooks/useLogger';
+import { useTabChannel } from '../hooks/useTabChannel';
+import type { SessionSequence } from '../types/sequence';
+import type { TabSyncMessage, TimerCommand } from '../types/sync';
 import type { Task } from '../types/task';
 import type {
+    InterruptionReason,
     TimerAction,
     TimerContextType,
     TimerSettings,
     TimerState,
 } from '../types/timer';
+import { timerStateDB } from '../utils/database';
+import { endInterruption } from '../utils/interruptions';
+import { getStartSegmentIndex } from '../utils/sequences';
+import { requestTimerLeadership } from '../utils/tabSync';
+import { getSelectedTask } from '../utils/taskSelection';
+import { applyTimerProfile } from '../utils/timerProfile';
 
 const initialState: TimerState = {
     timeLeft: DEFAULT_TIMER_SETTINGS.workDuration,
@@ -24,10 +37,41 @@ const initialState: TimerState = {
     hasStarted: false,
     timerType: TIMER_TYPES.WORK,
     activeTaskId: null,
+    selectedTaskId: null,
     startTime: null,
+    sessionStartTime: null,
+    sessionDuration: null,
     expectedEndTime: undefined,
     sessionsCompleted: 0,
     hasCompleted: false,
+    interruptions: [],
+    currentInterruption: null,
+    breakExtension: 0,
+    sequenceId: null,
+    segmentIndex: 0,
+};
+
+const NO_SEQUENCES: SessionSequence[] = [];
+const NO_TASKS: Task[] = [];
+
+/**
+ * Length of a session of the given type in the timer settings, used when no sequence runs.
+ */
+const getSettingsDuration = (timerType: TimerType, settings: TimerSettings): number => {
+    if (timerType === TIMER_TYPES.BREAK) return settings.breakDuration;
+    if (timerType === TIMER_TYPES.LONG_BREAK) return settings.longBreakDuration;
+    return settings.workDuration;
+};
+
+/**
+ * Time left of a running session given its expected end time. Work sessions
+ * that may run into overtime go negative rather than stopping at zero.
+ */
+const getTimeLeft = (timerState: TimerState, allowOvertime: boolean): number => {
+    const remaining = (timerState.expectedEndTime ?? Date.now()) - Date.now();
+    return allowOvertime && timerState.timerType === TIMER_TYPES.WORK
+        ? remaining
+        : Math.max(0, remaining);
 };
 
 
@@ -44,26 +88,66 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
                 timerType: action.payload.timerType,
                 activeTaskId: null,
                 startTime: action.payload.startTime,
+                sessionStartTime: action.payload.startTime,
+                sessionDuration: action.payload.duration,
                 expectedEndTime: action.payload.expectedEndTime,
                 hasCompleted: false,
+                interruptions: [],
+                currentInterruption: null,
             };
-        case 'START_TIMER':
+        case 'START_TIMER': {
+            const startTime = action.payload?.startTime ?? Date.now();
+            const timeLeft = action.payload?.timeLeft ?? state.timeLeft;
+            let interruptions = state.interruptions;
+            let sessionStartTime = state.sessionStartTime;
+            let sessionDuration = state.sessionDuration;
+            if (!state.hasStarted) {
+                interruptions = [];
+                sessionStartTime = startTime;
+                sessionDuration = timeLeft;
+            } else if (state.currentInterruption) {
+                // Resuming ends the pause in progress
+                interruptions = [
+                    ...interruptions,
+                    endInterruption(state.currentInterruption, startTime),
+                ];
+            }
             return {
                 ...state,
                 activeTaskId: action.payload?.activeTaskId ?? null,
+                // The task a session runs on stays selected for the next one
+                selectedTaskId: action.payload?.activeTaskId ?? state.selectedTaskId,
                 isRunning: true,
                 hasStarted: true,
-                startTime: action.payload?.startTime ?? Date.now(),
-                expectedEndTime: Date.now() + state.timeLeft,
+                startTime,
+                sessionStartTime,
+                sessionDuration,
+                timeLeft,
+                expectedEndTime: Date.now() + timeLeft,
+                interruptions,
+                currentInterruption: null,
             };
+        }
 
         case 'PAUSE_TIMER':
+            if (!state.isRunning) return state;
             return {
                 ...state,
                 isRunning: false,
+                currentInterruption: { pausedAt: action.payload.pausedAt },
                 // Keep timeLeft as is
             };
 
+        case 'SET_INTERRUPTION_REASON':
+            if (!state.currentInterruption) return state;
+            return {
+                ...state,
+                currentInterruption: {
+                    ...state.currentInterruption,
+                    reason: action.payload.reason,
+                },
+            };
+
         case 'UPDATE_TIME_LEFT':
             return {
                 ...state,
@@ -79,8 +163,41 @@ const TimerContext = createContext<TimerContextType | null>(null);
 export const TimerProvider: React.FC<{
     children: React.ReactNode;
     settings?: TimerSettings;
-}> = ({ children, settings = DEFAULT_TIMER_SETTINGS }) => {
+    // Work sessions count up past zero until they are marked done
+    allowOvertime?: boolean;
+    // The break after overtime grows by the overtime, scaled by break length over work length
+    extendBreaksAfterOvertime?: boolean;
+    // Sequences the timer can run through instead of the settings' work and break cycle
+    sequences?: SessionSequence[];
+    // Tasks the timer runs, whose own timer profiles take the place of the settings
+    tasks?: Task[];
+    // Set until the settings above are read, as until then overtime may not be allowed yet
+    isLoadingSettings?: boolean;
+}> = ({
+    children,
+    settings = DEFAULT_TIMER_SETTINGS,
+    allowOvertime = false,
+    extendBreaksAfterOvertime = false,
+    sequences = NO_SEQUENCES,
+    tasks = NO_TASKS,
+    isLoadingSettings = false,
+}) => {
     const [state, dispatch] = useReducer(timerReducer, initialState);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const timerLogger = useLogger('TimerProvider');
+
+    // Only the leader tab runs the countdown, completes sessions and persists
+    // the state; the other tabs mirror it and forward their actions to it
+    const [isLeader, setIsLeader] = useState(false);
+    const isLeaderRef = useRef(false);
+
+    // Latest state, read when persisting so that ticks alone don't trigger writes
+    const stateRef = useRef(state);
+    stateRef.current = state;
+
+    // Read when restoring or mirroring a running session
+    const allowOvertimeRef = useRef(allowOvertime);
+    allowOvertimeRef.current = allowOvertime;
 
     // Animation frame reference
     const animationFrameRef = useRef<number | undefined>(undefined);
@@ -96,39 +213,188 @@ export const TimerProvider: React.FC<{
         []
     );
 
+    // The sequence being run, and the session of it the timer is on; without
+    // one the timer alternates work and breaks as set in the timer settings
+    const sequence =
+        sequences.find((candidate) => candidate.id === state.sequenceId) ?? null;
+    const segment = sequence
+        ? sequence.segments[state.segmentIndex % sequence.segments.length]
+        : null;
+
+    // The timer settings with the work and break lengths of the task the timer
+    // is on: the one a session runs on, else the one the next session will run
+    const timerProfile = getSelectedTask(
+        tasks,
+        state.activeTaskId ?? state.selectedTaskId
+    )?.timerProfile;
+    const timerSettings = useMemo(
+        () => applyTimerProfile(settings, timerProfile),
+        [settings, timerProfile]
+    );
+
+    // Length of the current session, before any break extension
+    const currentDuration =
+        segment?.type === state.timerType
+            ? segment.duration
+            : getSettingsDuration(state.timerType, timerSettings);
+
     // Get next timer type and duration
-    const getNextTimer = useCallback(() => {
+    const getNextTimer = useCallback((): {
+        type: TimerType;
+        duration: number;
+        segmentIndex: number;
+    } => {
+        if (sequence) {
+            const segmentIndex = (state.segmentIndex + 1) % sequence.segments.length;
+            const nextSegment = sequence.segments[segmentIndex];
+            return {
+                type: nextSegment.type,
+                duration: nextSegment.duration,
+                segmentIndex,
+            };
+        }
+
         if (state.timerType === TIMER_TYPES.WORK) {
             const nextSessions = state.sessionsCompleted + 1;
 
-            if (nextSessions % settings.sessionsUntilLongBreak === 0) {
+            if (nextSessions % timerSettings.sessionsUntilLongBreak === 0) {
                 return {
                     type: TIMER_TYPES.LONG_BREAK,
-                    duration: settings.longBreakDuration,
+                    duration: timerSettings.longBreakDuration,
+                    segmentIndex: 0,
                 };
             }
             return {
                 type: TIMER_TYPES.BREAK,
-                duration: settings.breakDuration,
+                duration: timerSettings.breakDuration,
+                segmentIndex: 0,
             };
         }
         return {
             type: TIMER_TYPES.WORK,
-            duration: settings.workDuration,
+            duration: timerSettings.workDuration,
+            segmentIndex: 0,
         };
-    }, [state.timerType, state.sessionsCompleted, settings]);
+    }, [sequence, state.segmentIndex, state.timerType, state.sessionsCompleted, timerSettings]);
+
+    // Set once the state of the leader tab arrives, which is newer than the saved one
+    const hasLeaderStateRef = useRef(false);
+
+    // Restore the timer saved before the page was reloaded or closed
+    useEffect(() => {
+        async function rehydrateTimer() {
+            try {
+                const savedState = await timerStateDB.get();
+                if (savedState && !hasLeaderStateRef.current) {
+                    const payload: Partial<TimerState> = { ...savedState };
+                    if (savedState.isRunning && savedState.expectedEndTime) {
+                        // Resume from the expected end time; a session that expired
+                        // while the tab was closed completes on the next frame
+                        payload.timeLeft = getTimeLeft(
+                            { ...initialState, ...savedState },
+                            allowOvertimeRef.current
+                        );
+                    }
+                    dispatch({ type: 'UPDATE_TIMER_STATE', payload });
+                }
+            } catch (error) {
+                timerLogger.error('Failed to restore timer state:', error);
+            } finally {
+                setIsHydrated(true);
+            }
+        }
+
+        rehydrateTimer();
+    }, [timerLogger]);
+
+    // Commands received from follower tabs, run through the latest action creators
+    const runCommandRef = useRef<(command: TimerCommand) => void>(() => {});
+
+    const postToTabs = useTabChannel((message: TabSyncMessage) => {
+        if (isLeaderRef.current) {
+            if (message.type === 'TIMER_COMMAND') {
+                runCommandRef.current(message.command);
+            } else if (message.type === 'TIMER_STATE_REQUEST') {
+                postToTabs({ type: 'TIMER_STATE', state: stateRef.current });
+            }
+        } else if (message.type === 'TIMER_STATE') {
+            const payload: Partial<TimerState> = { ...message.state };
+            if (message.state.isRunning && message.state.expectedEndTime) {
+                payload.timeLeft = getTimeLeft(message.state, allowOvertimeRef.current);
+            }
+            hasLeaderStateRef.current = true;
+            dispatch({ type: 'UPDATE_TIMER_STATE', payload });
+        }
+    });
+
+    useEffect(() => {
+        const releaseLeadership = requestTimerLeadership(() => {
+            isLeaderRef.current = true;
+            setIsLeader(true);
+        });
+        // Catch up with the leader, if another tab already owns the timer
+        postToTabs({ type: 'TIMER_STATE_REQUEST' });
+
+        return () => {
+            releaseLeadership();
+            isLeaderRef.current = false;
+            setIsLeader(false);
+        };
+    }, [postToTabs]);
+
+    // Persist and share every transition; countdown ticks are recovered from expectedEndTime
+    useEffect(() => {
+        if (!isHydrated || !isLeader) return;
+
+        postToTabs({ type: 'TIMER_STATE', state: stateRef.current });
+        timerStateDB.set(stateRef.current).catch((error) => {
+            timerLogger.error('Failed to persist timer state:', error);
+        });
+    }, [
+        isHydrated,
+        isLeader,
+        postToTabs,
+        timerLogger,
+        state.isRunning,
+        state.hasStarted,
+        state.timerType,
+        state.activeTaskId,
+        state.selectedTaskId,
+        state.startTime,
+        state.sessionStartTime,
+        state.sessionDuration,
+        state.expectedEndTime,
+        state.sessionsCompleted,
+        state.hasCompleted,
+        state.interruptions,
+        state.currentInterruption,
+        state.breakExtension,
+        state.sequenceId,
+        state.segmentIndex,
+    ]);
 
     // Update timer logic
     const updateTimer = useCallback(() => {
         if (!state.isRunning || !state.startTime || !state.expectedEndTime)
             return;
 
-        const now = Date.now();
-        const remaining = Math.max(0, state.expectedEndTime - now);
-        const newTimeLeft = Math.ceil(remaining);
+        const newTimeLeft = Math.ceil(getTimeLeft(state, allowOvertime));
+
+        // Check if timer completed; in overtime it runs on until marked done
+        const isOvertime = allowOvertime && state.timerType === TIMER_TYPES.WORK;
+        if (newTimeLeft <= 0 && !isOvertime) {
+            // Followers wait for the leader to broadcast the completed session, and
+            // the leader waits for the settings to tell whether it runs into overtime
+            if (!isLeaderRef.current || isLoadingSettings) {
+                if (state.timeLeft !== 0) {
+                    dispatch({
+                        type: 'UPDATE_TIME_LEFT',
+                        payload: { timeLeft: 0 },
+                    });
+                }
+                return;
+            }
 
-        // Check if timer completed
-        if (newTimeLeft <= 0) {
             const finalState = {
                 ...state,
                 hasCompleted: true,
@@ -136,6 +402,13 @@ export const TimerProvider: React.FC<{
                 timeLeft: 0,
             };
 
+            // Record the completion before the callback so that any follow-up
+            // transition it dispatches (e.g. switchTimer) is applied after it
+            dispatch({
+                type: 'UPDATE_TIMER_STATE',
+                payload: { hasCompleted: true, isRunning: false, timeLeft: 0 },
+            });
+
             // Call completion callback
             if (onCompleteRef.current) {
                 onCompleteRef.current(finalState);
@@ -154,7 +427,19 @@ export const TimerProvider: React.FC<{
 
         // Schedule next update
         animationFrameRef.current = requestAnimationFrame(updateTimer);
-    }, [state]);
+    }, [state, allowOvertime, isLoadingSettings]);
+
+    // Keep an idle timer in sync with the configured durations, e.g. once
+    // the user's settings have loaded or were changed on the Settings page
+    useEffect(() => {
+        if (state.hasStarted) return;
+
+        const duration =
+            state.timerType === TIMER_TYPES.WORK
+                ? currentDuration
+                : currentDuration + state.breakExtension;
+        dispatch({ type: 'UPDATE_TIME_LEFT', payload: { timeLeft: duration } });
+    }, [currentDuration, state.hasStarted, state.timerType, state.breakExtension]);
 
     // Start animation frame when running
     useEffect(() => {
@@ -173,51 +458,79 @@ export const TimerProvider: React.FC<{
     const startTimer = useCallback(
         (task: Task) => {
             const now = Date.now();
+            // A new work session lasts as long as the task it runs on says,
+            // which differs from the idle timer when another task was selected
+            const timeLeft =
+                state.hasStarted || state.timerType !== TIMER_TYPES.WORK
+                    ? state.timeLeft
+                    : segment?.type === TIMER_TYPES.WORK
+                      ? segment.duration
+                      : applyTimerProfile(settings, task.timerProfile).workDuration;
             dispatch({
                 type: 'START_TIMER',
                 payload: {
                     startTime: now,
-                    expectedEndTime: now + state.timeLeft,
+                    expectedEndTime: now + timeLeft,
                     activeTaskId: task.id,
+                    timeLeft,
                 },
             });
         },
-        [state.timeLeft]
+        [state.hasStarted, state.timerType, state.timeLeft, segment, settings]
     );
 
     const startBreak = useCallback(
         (breakType: TimerType) => {
+            if (breakType === TIMER_TYPES.WORK) return;
+
             const now = Date.now();
-            if (breakType === TIMER_TYPES.BREAK) {
-                dispatch({
-                    type: 'START_BREAK',
-                    payload: {
-                        startTime: now,
-                        expectedEndTime: now + settings.breakDuration ,
-                        duration: settings.breakDuration ,
-                        timerType: TIMER_TYPES.BREAK,
-                    },
-                });
-            } else if (breakType === TIMER_TYPES.LONG_BREAK) {
-                dispatch({
-                    type: 'START_BREAK',
-                    payload: {
-                        startTime: now,
-                        expectedEndTime:
-                            now + settings.longBreakDuration ,
-                        duration: settings.longBreakDuration ,
-                        timerType: TIMER_TYPES.LONG_BREAK,
-                    },
-                });
-            }
+            const duration =
+                (segment?.type === breakType
+                    ? segment.duration
+                    : getSettingsDuration(breakType, timerSettings)) + state.breakExtension;
+            dispatch({
+                type: 'START_BREAK',
+                payload: {
+                    startTime: now,
+                    expectedEndTime: now + duration,
+                    duration,
+                    timerType: breakType,
+                },
+            });
         },
-        [settings.breakDuration, settings.longBreakDuration]
+        [segment, timerSettings, state.breakExtension]
     );
 
     const pauseTimer = useCallback(() => {
-        dispatch({ type: 'PAUSE_TIMER' });
+        dispatch({ type: 'PAUSE_TIMER', payload: { pausedAt: Date.now() } });
+    }, []);
+
+    // Records why the timer is currently paused
+    const setInterruptionReason = useCallback((reason: InterruptionReason) => {
+        dispatch({ type: 'SET_INTERRUPTION_REASON', payload: { reason } });
+    }, []);
+
+    const selectTask = useCallback((taskId: string | null) => {
+        dispatch({ type: 'UPDATE_TIMER_STATE', payload: { selectedTaskId: taskId } });
     }, []);
 
+    // Starts a cycle of a sequence, or of the timer settings for null
+    const selectSequence = useCallback(
+        (sequenceId: string | null) => {
+            const selected = sequences.find((candidate) => candidate.id === sequenceId);
+            const segmentIndex = selected ? getStartSegmentIndex(selected) : 0;
+            dispatch({
+                type: 'UPDATE_TIMER_STATE',
+                payload: {
+                    sequenceId: selected?.id ?? null,
+                    segmentIndex,
+                    timerType: selected?.segments[segmentIndex].type ?? TIMER_TYPES.WORK,
+                },
+            });
+        },
+        [sequences]
+    );
+
     /**
      * This function is used to reset the timer.
      * It resets uses the update timer state action to reset:
@@ -235,18 +548,19 @@ export const TimerProvider: React.FC<{
             hasStarted: false,
             activeTaskId: null,
             startTime: null,
+            sessionStartTime: null,
+            sessionDuration: null,
             expectedEndTime: undefined,
             hasCompleted: false,
+            interruptions: [],
+            currentInterruption: null,
         };
-        if (state.timerType === TIMER_TYPES.WORK) {
-            payload.timeLeft = settings.workDuration;
-        } else if (state.timerType === TIMER_TYPES.BREAK) {
-            payload.timeLeft = settings.breakDuration;
-        } else if (state.timerType === TIMER_TYPES.LONG_BREAK) {
-            payload.timeLeft = settings.longBreakDuration;
-        }
+        payload.timeLeft =
+            state.timerType === TIMER_TYPES.WORK
+                ? currentDuration
+                : currentDuration + state.breakExtension;
         dispatch({ type: 'UPDATE_TIMER_STATE', payload: payload });
-    }, [settings.breakDuration, settings.longBreakDuration, settings.workDuration, state.timerType]);
+    }, [currentDuration, state.timerType, state.breakExtension]);
 
     /**
      * This function is used to switch the timer to the next timer type.
@@ -256,26 +570,40 @@ export const TimerProvider: React.FC<{
     const switchTimer = useCallback(() => {
         const nextTimer = getNextTimer();
 
+        // Overtime earns a longer break, in proportion to the usual break and work lengths
+        let breakExtension = 0;
+        if (
+            extendBreaksAfterOvertime &&
+            state.timerType === TIMER_TYPES.WORK &&
+            nextTimer.type !== TIMER_TYPES.WORK &&
+            state.timeLeft < 0
+        ) {
+            breakExtension = Math.round(
+                (-state.timeLeft * nextTimer.duration) / currentDuration
+            );
+        }
+
         const payload: Partial<TimerState> = {
             isRunning: false,
             hasStarted: false,
             activeTaskId: null,
             startTime: null,
+            sessionStartTime: null,
+            sessionDuration: null,
             expectedEndTime: undefined,
             hasCompleted: false,
+            interruptions: [],
+            currentInterruption: null,
+            breakExtension,
+            timerType: nextTimer.type,
+            segmentIndex: nextTimer.segmentIndex,
         };
 
         if (nextTimer.type === TIMER_TYPES.WORK) {
-            payload.timeLeft = settings.workDuration;
-            payload.timerType = TIMER_TYPES.WORK;
+            payload.timeLeft = nextTimer.duration;
             payload.sessionsCompleted = state.sessionsCompleted + 1;
-        } else if (nextTimer.type === TIMER_TYPES.BREAK) {
-            payload.timeLeft = settings.breakDuration;
-            payload.timerType = TIMER_TYPES.BREAK;
-            payload.sessionsCompleted = state.sessionsCompleted;
-        } else if (nextTimer.type === TIMER_TYPES.LONG_BREAK) {
-            payload.timeLeft = settings.longBreakDuration;
-            payload.timerType = TIMER_TYPES.LONG_BREAK;
+        } else {
+            payload.timeLeft = nextTimer.duration + breakExtension;
             payload.sessionsCompleted = state.sessionsCompleted;
         }
 
@@ -285,21 +613,82 @@ export const TimerProvider: React.FC<{
         });
     }, [
         getNextTimer,
-        settings.breakDuration,
-        settings.longBreakDuration,
-        settings.workDuration,
+        extendBreaksAfterOvertime,
+        currentDuration,
         state.sessionsCompleted,
+        state.timerType,
+        state.timeLeft,
     ]);
 
+    runCommandRef.current = (command: TimerCommand) => {
+        switch (command.name) {
+            case 'startTimer':
+                startTimer(command.task);
+                break;
+            case 'startBreak':
+                startBreak(command.breakType);
+                break;
+            case 'pauseTimer':
+                pauseTimer();
+                break;
+            case 'setInterruptionReason':
+                setInterruptionReason(command.reason);
+                break;
+            case 'selectTask':
+                selectTask(command.taskId);
+                break;
+            case 'selectSequence':
+                selectSequence(command.sequenceId);
+                break;
+            case 'resetTimer':
+                resetTimer();
+                break;
+            case 'switchTimer':
+                switchTimer();
+                break;
+        }
+    };
+
+    // Runs an action here when leading, otherwise hands it to the leader tab
+    const issueCommand = useCallback(
+        (command: TimerCommand) => {
+            if (isLeaderRef.current) {
+                runCommandRef.current(command);
+            } else {
+                postToTabs({ type: 'TIMER_COMMAND', command });
+            }
+        },
+        [postToTabs]
+    );
+
+    // The actions exposed to components, valid from any tab
+    const sharedActions = useMemo(
+        () => ({
+            startBreak: (breakType: TimerType) =>
+                issueCommand({ name: 'startBreak', breakType }),
+            startTimer: (task: Task) =>
+                issueCommand({ name: 'startTimer', task }),
+            pauseTimer: () => issueCommand({ name: 'pauseTimer' }),
+            setInterruptionReason: (reason: InterruptionReason) =>
+                issueCommand({ name: 'setInterruptionReason', reason }),
+            selectTask: (taskId: string | null) =>
+                issueCommand({ name: 'selectTask', taskId }),
+            selectSequence: (sequenceId: string | null) =>
+                issueCommand({ name: 'selectSequence', sequenceId }),
+            resetTimer: () => issueCommand({ name: 'resetTimer' }),
+            switchTimer: () => issueCommand({ name: 'switchTimer' }),
+        }),
+        [issueCommand]
+    );
+
     const value = {
         state,
-        startBreak,
-        startTimer,
-        pauseTimer,
-        resetTimer,
-        switchTimer,
+        ...sharedActions,
         setOnComplete,
         settings,
+        timerSettings,
+        sequence,
+        segment,
     };
 
     return (
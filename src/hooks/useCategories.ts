@@ -0,0 +1,21 @@
+import { useContext } from 'react';
+import CategoriesContext from '../contexts/CategoriesContext';
+
+export default function useCategories() {
+  const context = useContext(CategoriesContext);
+  if (!context) {
+    throw new Error('useCategories must be used within a CategoriesProvider');
+  }
+
+  const { categories, isLoading, getCategory, reloadCategories } = context;
+
+  return {
+    // Stored categories, sorted by name
+    categories,
+    isLoading,
+    getCategory,
+
+    // Actions
+    reloadCategories
+  };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+
+// How far each key moves the selection through a chart's items
+export type ChartKeySteps = Partial<Record<string, number>>;
+
+const DEFAULT_KEY_STEPS: ChartKeySteps = { ArrowLeft: -1, ArrowRight: 1 };
+
+/**
+ * Hook for selecting an item of a chart with the mouse or the keyboard.
+ * The chart is a single tab stop; arrow keys move the selection, Home and End
+ * jump to the first and last item, and Escape clears it.
+ * @param itemCount - Number of selectable items in the chart
+ * @param keySteps - Offset each arrow key moves the selection by
+ */
+export function useChartSelection(itemCount: number, keySteps: ChartKeySteps = DEFAULT_KEY_STEPS) {
+  const [selected, setSelected] = useState<number | null>(null);
+  // The data may shrink while an item is selected
+  const selectedIndex = selected === null || itemCount === 0 ? null : Math.min(selected, itemCount - 1);
+
+  const clearSelection = useCallback(() => setSelected(null), []);
+
+  // Start from the most recent item when the chart receives focus
+  const handleFocus = useCallback(() => {
+    setSelected((current) => current ?? (itemCount > 0 ? itemCount - 1 : null));
+  }, [itemCount]);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (itemCount === 0) return;
+
+      let next: number | null;
+      if (event.key === 'Home') {
+        next = 0;
+      } else if (event.key === 'End') {
+        next = itemCount - 1;
+      } else if (event.key === 'Escape') {
+        next = null;
+      } else if (keySteps[event.key] !== undefined) {
+        const current = selectedIndex ?? itemCount - 1;
+        next = Math.max(0, Math.min(itemCount - 1, current + (keySteps[event.key] as number)));
+      } else {
+        return;
+      }
+
+      event.preventDefault();
+      setSelected(next);
+    },
+    [itemCount, keySteps, selectedIndex]
+  );
+
+  return {
+    selectedIndex,
+    select: setSelected,
+    clearSelection,
+    handleFocus,
+    handleKeyDown,
+  };
+}
@@ -0,0 +1,28 @@
+import { useContext, useEffect } from 'react';
+import CommandsContext from '../contexts/CommandsContext';
+import type { Command } from '../types';
+
+/**
+ * Hook for the command registry
+ * @param commands - Commands to offer while the calling component is mounted.
+ * They are registered again on every render, so they always act on current state.
+ */
+export default function useCommands(commands: Command[] = []) {
+  const context = useContext(CommandsContext);
+  if (!context) {
+    throw new Error('useCommands must be used within a CommandsProvider');
+  }
+
+  const { registerCommands, keyBindings, openPalette, openHelp } = context;
+
+  useEffect(() => registerCommands(commands));
+
+  return {
+    // Saved key combo of each bindable command
+    keyBindings,
+
+    // Actions
+    openPalette,
+    openHelp
+  };
+}
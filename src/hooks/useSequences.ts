@@ -0,0 +1,20 @@
+import { useContext } from 'react';
+import SequencesContext from '../contexts/SequencesContext';
+
+export default function useSequences() {
+  const context = useContext(SequencesContext);
+  if (!context) {
+    throw new Error('useSequences must be used within a SequencesProvider');
+  }
+
+  const { sequences, isLoading, reloadSequences } = context;
+
+  return {
+    // Stored sequences, sorted by name
+    sequences,
+    isLoading,
+
+    // Actions
+    reloadSequences
+  };
+}
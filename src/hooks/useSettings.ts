@@ -0,0 +1,21 @@
+import { useContext } from 'react';
+import SettingsContext from '../contexts/SettingsContext';
+
+export default function useSettings() {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+
+  const { settings, isLoading, updateSetting, reloadSettings } = context;
+
+  return {
+    // Live setting values
+    settings,
+    isLoading,
+
+    // Actions
+    updateSetting,
+    reloadSettings
+  };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { TabSyncMessage } from '../types';
+import { createTabChannel, TabChannel } from '../utils/tabSync';
+
+/**
+ * Hook for talking to the app's other open tabs
+ * @param onMessage - Called with every message posted by another tab
+ * @returns A function that posts a message to the other tabs
+ */
+export function useTabChannel(onMessage?: (message: TabSyncMessage) => void) {
+  const channelRef = useRef<TabChannel | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    const channel = createTabChannel();
+    channelRef.current = channel;
+    const unsubscribe = channel.subscribe((message) => onMessageRef.current?.(message));
+
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  return useCallback((message: TabSyncMessage) => {
+    channelRef.current?.post(message);
+  }, []);
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Task, TimerSettings } from '../types';
 import { DEFAULT_TIMER_SETTINGS } from '../constants/timerConstants';
+import { applyTimerProfile } from '../utils/timerProfile';
 
 interface TimeEstimate {
   completionTime: number;
@@ -23,19 +24,20 @@ export const useTimeEstimates = (
 
     tasks.forEach((task, index) => {
       const isActive = task.id === activeTaskId;
+      const taskSettings = applyTimerProfile(settings, task.timerProfile);
       let taskDuration = 0;
 
       if (isActive) {
         // For active task, use remaining time if timer is running
-        taskDuration = isTimerRunning ? currentTimeLeft  : settings.workDuration ;
+        taskDuration = isTimerRunning ? currentTimeLeft  : taskSettings.workDuration ;
       } else {
         // For non-active tasks, use full duration
-        taskDuration = (task.pomodoros || 1) * settings.workDuration ;
+        taskDuration = (task.pomodoros || 1) * taskSettings.workDuration ;
       }
 
       // Add break times
       if (index < tasks.length - 1) {
-        taskDuration += settings.breakDuration ;
+        taskDuration += taskSettings.breakDuration ;
       }
 
       const completionTime = accumulatedTime + taskDuration;
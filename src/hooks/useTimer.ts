@@ -28,11 +28,17 @@ export const useTimer = ({ onComplete, settings }: UseTimerProps = {}) => {
         startBreak: timerContext.startBreak,
         startTimer: (task: Task) => timerContext.startTimer(task),
         pauseTimer: timerContext.pauseTimer,
+        setInterruptionReason: timerContext.setInterruptionReason,
+        selectTask: timerContext.selectTask,
+        selectSequence: timerContext.selectSequence,
         resetTimer: timerContext.resetTimer,
         switchTimer: timerContext.switchTimer,
 
         // For backward compatibility
         settings: settings || timerContext.settings,
+        timerSettings: timerContext.timerSettings,
+        sequence: timerContext.sequence,
+        segment: timerContext.segment,
 
         // For backward compatibility with existing code
         getStartTime: () => timerContext.state.startTime,
@@ -12,10 +12,16 @@ export default function useTimerContext() {
     startBreak, 
     startTimer, 
     pauseTimer, 
+    setInterruptionReason,
+    selectTask,
+    selectSequence,
     resetTimer,
     switchTimer, 
     setOnComplete,
-    settings
+    settings,
+    timerSettings,
+    sequence,
+    segment
   } = context;
   
   return {
@@ -26,11 +32,19 @@ export default function useTimerContext() {
     startBreak,
     startTimer,
     pauseTimer,
+    setInterruptionReason,
+    selectTask,
+    selectSequence,
     resetTimer,
     switchTimer,
     setOnComplete,
 
     // Settings
-    settings
+    settings,
+    timerSettings,
+
+    // Session sequence
+    sequence,
+    segment
   };
 }
\ No newline at end of file
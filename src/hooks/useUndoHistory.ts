@@ -0,0 +1,51 @@
+import { useCallback, useRef, useState } from 'react';
+import type { UndoableChange } from '../types';
+import { EMPTY_UNDO_HISTORY, recordChange, takeRedo, takeUndo } from '../utils/undoHistory';
+
+/**
+ * Hook for undoing and redoing changes
+ * @returns The change made by undo and redo, or null when there was none.
+ * A change that fails to apply stays where it was in the history.
+ */
+export function useUndoHistory() {
+  const historyRef = useRef(EMPTY_UNDO_HISTORY);
+  // Mirrors the ref so components re-render when undo becomes possible
+  const [history, setHistory] = useState(EMPTY_UNDO_HISTORY);
+
+  const updateHistory = useCallback((next: typeof EMPTY_UNDO_HISTORY) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const record = useCallback((change: UndoableChange) => {
+    updateHistory(recordChange(historyRef.current, change));
+  }, [updateHistory]);
+
+  const apply = useCallback(async (direction: 'undo' | 'redo') => {
+    const previous = historyRef.current;
+    const taken = direction === 'undo' ? takeUndo(previous) : takeRedo(previous);
+    if (!taken) {
+      return null;
+    }
+
+    updateHistory(taken.history);
+    try {
+      await taken.change[direction]();
+    } catch (error) {
+      updateHistory(previous);
+      throw error;
+    }
+    return taken.change;
+  }, [updateHistory]);
+
+  const undo = useCallback(() => apply('undo'), [apply]);
+  const redo = useCallback(() => apply('redo'), [apply]);
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    record,
+    undo,
+    redo
+  };
+}
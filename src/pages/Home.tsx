@@ -6,12 +6,20 @@ import { Notification } from '../components/Notification';
 import { TaskInput, TaskList } from '../components/Tasks';
 import { CompletedTasksList } from '../components/Tasks/CompletedTasksList';
 import { Timer } from '../components/Timer';
-import { DEFAULT_TIMER_SETTINGS } from '../constants/timerConstants';
 import { TimerProvider } from '../contexts/TimerContext';
+import useCommands from '../hooks/useCommands';
 import { useLogger } from '../hooks/useLogger';
-import { NotificationState, Task } from '../types';
+import { useTabChannel } from '../hooks/useTabChannel';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import useCategories from '../hooks/useCategories';
+import useSequences from '../hooks/useSequences';
+import useSettings from '../hooks/useSettings';
+import { NotificationState, Subtask, Task, TimerProfile, UndoableChange } from '../types';
 import { tasksDB } from '../utils/database';
-import { settingsDB } from '../utils/database';
+import { createCommand } from '../utils/hotkeys';
+import { getCheckedSubtaskIds } from '../utils/subtasks';
+import { applyTimerProfile } from '../utils/timerProfile';
+import { restoreTaskOrder } from '../utils/undoHistory';
 
 function Home() {
     const [tasks, setTasks] = useState<Task[]>([]);
@@ -23,6 +31,24 @@ function Home() {
 
     const homePageLogger = useLogger('Home');
     const posthog = usePostHog();
+    const { settings, isLoading: isLoadingSettings } = useSettings();
+
+    // Bumped whenever another tab changes the task lists, to reload them here
+    const [tasksVersion, setTasksVersion] = useState(0);
+    const postToTabs = useTabChannel((message) => {
+        if (message.type === 'TASKS_CHANGED') {
+            setTasksVersion((version) => version + 1);
+        }
+    });
+    const { reloadCategories } = useCategories();
+    const { sequences } = useSequences();
+    // Saving a task may also have created its category
+    const notifyTasksChanged = () => {
+        postToTabs({ type: 'TASKS_CHANGED' });
+        reloadCategories();
+    };
+
+    const { canUndo, canRedo, record, undo, redo } = useUndoHistory();
 
     // We don't need the banner for now
 
@@ -65,7 +91,7 @@ function Home() {
         }
 
         loadTasks();
-    }, [homePageLogger]);
+    }, [homePageLogger, tasksVersion]);
 
     useEffect(() => {
         async function loadCompletedTasks() {
@@ -82,7 +108,7 @@ function Home() {
         }
 
         loadCompletedTasks();
-    }, [homePageLogger]);
+    }, [homePageLogger, tasksVersion]);
 
     const handleAddTask = async (category: string, description: string) => {
         const newTask: Task = {
@@ -94,14 +120,17 @@ function Home() {
         };
 
         try {
-            // Get user's preference for task position
-            const addToBottom = await settingsDB.get('addTasksToBottom');
-            
+            // Respect the user's preference for task position
+            const addToBottom = settings.addTasksToBottom;
+
             await tasksDB.add(newTask);
+            notifyTasksChanged();
             setTasks((prev) => addToBottom ? [...prev, newTask] : [newTask, ...prev]);
-            setNotification({
-                message: 'New task added',
-                type: 'success',
+            recordChange('New task added', 'success', {
+                undo: () => tasksDB.delete(newTask.id),
+                redo: async () => {
+                    await tasksDB.add(newTask);
+                },
             });
         } catch (error) {
             homePageLogger.error('Failed to add task:', error);
@@ -118,6 +147,19 @@ function Home() {
 
         try {
             await tasksDB.updateAll(reorderedTasks);
+            notifyTasksChanged();
+            // Tasks may have been added or removed since, so only their order is restored
+            const reorderTo = (orderedTasks: Task[]) => async () =>
+                tasksDB.updateAll(
+                    restoreTaskOrder(
+                        await tasksDB.getAll(),
+                        orderedTasks.map((task) => task.id)
+                    )
+                );
+            recordChange('Tasks reordered', 'info', {
+                undo: reorderTo(previousTasks),
+                redo: reorderTo(reorderedTasks),
+            });
         } catch (error) {
             homePageLogger.error('Failed to persist task order:', error);
             setTasks(previousTasks);
@@ -126,12 +168,23 @@ function Home() {
     };
 
     const handleDeleteTask = async (taskId: string) => {
+        const index = tasks.findIndex((task) => task.id === taskId);
+        const deletedTask = tasks[index];
+
         try {
             await tasksDB.delete(taskId);
+            notifyTasksChanged();
             setTasks((prev) => prev.filter((task) => task.id !== taskId));
-            setNotification({
-                message: 'Task deleted',
-                type: 'info',
+            if (!deletedTask) return;
+
+            recordChange('Task deleted', 'info', {
+                // Put the task back where it was
+                undo: async () => {
+                    const currentTasks = await tasksDB.getAll();
+                    currentTasks.splice(index, 0, deletedTask);
+                    await tasksDB.updateAll(currentTasks);
+                },
+                redo: () => tasksDB.delete(taskId),
             });
         } catch (error) {
             homePageLogger.error('Failed to delete task:', error);
@@ -149,9 +202,14 @@ function Home() {
 
             const updatedTask = { ...task, pomodoros: count };
             await tasksDB.update(updatedTask);
+            notifyTasksChanged();
             setTasks((prev) =>
                 prev.map((t) => (t.id === taskId ? updatedTask : t))
             );
+            recordChange(`Pomodoros set to ${count}`, 'info', {
+                undo: () => tasksDB.patch(taskId, { pomodoros: task.pomodoros }),
+                redo: () => tasksDB.patch(taskId, { pomodoros: count }),
+            });
         } catch (error) {
             homePageLogger.error('Failed to update task pomodoros:', error);
         }
@@ -179,12 +237,17 @@ function Home() {
             };
 
             await tasksDB.update(updatedTask);
+            notifyTasksChanged();
             setTasks((prev) =>
                 prev.map((t) => (t.id === taskId ? updatedTask : t))
             );
-            setNotification({
-                message: 'Task updated',
-                type: 'info',
+            recordChange('Task updated', 'info', {
+                undo: () =>
+                    tasksDB.patch(taskId, {
+                        category: task.category,
+                        description: task.description,
+                    }),
+                redo: () => tasksDB.patch(taskId, { category, description }),
             });
         } catch (error) {
             homePageLogger.error('Failed to update task:', error);
@@ -195,7 +258,103 @@ function Home() {
         }
     };
 
-    const handleTaskComplete = async () => {
+    // Ticking subtasks is saved straight away rather than offered for undo
+    const handleUpdateSubtasks = async (taskId: string, subtasks: Subtask[]) => {
+        try {
+            const task = tasks.find((t) => t.id === taskId);
+            if (!task) return;
+
+            const updatedTask = { ...task, subtasks };
+            await tasksDB.update(updatedTask);
+            notifyTasksChanged();
+            setTasks((prev) =>
+                prev.map((t) => (t.id === taskId ? updatedTask : t))
+            );
+        } catch (error) {
+            homePageLogger.error('Failed to update checklist:', error);
+            setNotification({
+                message: 'Failed to update checklist',
+                type: 'error',
+            });
+        }
+    };
+
+    const handleUpdateNotes = async (taskId: string, notes: string) => {
+        try {
+            const task = tasks.find((t) => t.id === taskId);
+            if (!task || (task.notes ?? '') === notes) return;
+
+            const updatedTask = { ...task, notes: notes || undefined };
+            await tasksDB.update(updatedTask);
+            notifyTasksChanged();
+            setTasks((prev) =>
+                prev.map((t) => (t.id === taskId ? updatedTask : t))
+            );
+            recordChange('Notes updated', 'info', {
+                undo: () => tasksDB.patch(taskId, { notes: task.notes }),
+                redo: () => tasksDB.patch(taskId, { notes: updatedTask.notes }),
+            });
+        } catch (error) {
+            homePageLogger.error('Failed to update notes:', error);
+            setNotification({
+                message: 'Failed to update notes',
+                type: 'error',
+            });
+        }
+    };
+
+    const handleUpdateSequence = async (taskId: string, sequenceId: string | undefined) => {
+        try {
+            const task = tasks.find((t) => t.id === taskId);
+            if (!task || task.sequenceId === sequenceId) return;
+
+            const updatedTask = { ...task, sequenceId };
+            await tasksDB.update(updatedTask);
+            notifyTasksChanged();
+            setTasks((prev) =>
+                prev.map((t) => (t.id === taskId ? updatedTask : t))
+            );
+            recordChange('Sequence changed', 'info', {
+                undo: () => tasksDB.patch(taskId, { sequenceId: task.sequenceId }),
+                redo: () => tasksDB.patch(taskId, { sequenceId }),
+            });
+        } catch (error) {
+            homePageLogger.error('Failed to update sequence:', error);
+            setNotification({
+                message: 'Failed to update sequence',
+                type: 'error',
+            });
+        }
+    };
+
+    const handleUpdateTimerProfile = async (
+        taskId: string,
+        timerProfile: TimerProfile | undefined
+    ) => {
+        try {
+            const task = tasks.find((t) => t.id === taskId);
+            if (!task) return;
+
+            const updatedTask = { ...task, timerProfile };
+            await tasksDB.update(updatedTask);
+            notifyTasksChanged();
+            setTasks((prev) =>
+                prev.map((t) => (t.id === taskId ? updatedTask : t))
+            );
+            recordChange('Timer lengths changed', 'info', {
+                undo: () => tasksDB.patch(taskId, { timerProfile: task.timerProfile }),
+                redo: () => tasksDB.patch(taskId, { timerProfile }),
+            });
+        } catch (error) {
+            homePageLogger.error('Failed to update timer lengths:', error);
+            setNotification({
+                message: 'Failed to update timer lengths',
+                type: 'error',
+            });
+        }
+    };
+
+    const reloadTaskLists = async () => {
         try {
             const [tasks, completedTasks] = await Promise.all([
                 tasksDB.getAll(),
@@ -203,6 +362,7 @@ function Home() {
             ]);
             setTasks(tasks);
             setCompletedTasks(completedTasks);
+            notifyTasksChanged();
         } catch (error) {
             homePageLogger.error(
                 'Error updating lists after task completion:',
@@ -234,14 +394,21 @@ function Home() {
 
             try {
                 await tasksDB.update(updatedTask);
+                notifyTasksChanged();
                 setTasks((prev) =>
                     prev.map((t) =>
                         t.id === existingTask.id ? updatedTask : t
                     )
                 );
-                setNotification({
-                    message: 'Added pomodoro to existing task',
-                    type: 'info',
+                recordChange('Added pomodoro to existing task', 'info', {
+                    undo: () =>
+                        tasksDB.patch(existingTask.id, {
+                            pomodoros: existingTask.pomodoros,
+                        }),
+                    redo: () =>
+                        tasksDB.patch(existingTask.id, {
+                            pomodoros: updatedTask.pomodoros,
+                        }),
                 });
             } catch (error) {
                 homePageLogger.error('Failed to update task:', error);
@@ -267,12 +434,19 @@ function Home() {
                 return;
             }
 
-            // Create a completed task object
-            const completedTask = {
+            // Nothing was timed, so record one pomodoro of the length the task runs for
+            const endTime = Date.now();
+            const timerSettings = applyTimerProfile(settings.timerSettings, task.timerProfile);
+            const startTime = endTime - timerSettings.workDuration;
+            const completedTask: Task = {
                 ...task,
-                id: `completed-${task.id}-${Date.now()}`,
-                endTime: Date.now(),
-                duration: DEFAULT_TIMER_SETTINGS.workDuration,
+                id: `completed-${task.id}-${endTime}`,
+                startTime,
+                endTime,
+                duration: timerSettings.workDuration,
+                segments: [],
+                timerSettings: { ...timerSettings },
+                checkedSubtaskIds: getCheckedSubtaskIds(task.subtasks, startTime, endTime),
                 completed: true,
             };
 
@@ -280,11 +454,11 @@ function Home() {
             await tasksDB.completeOnePomodoro(taskId, completedTask);
 
             // Refresh the task lists
-            await handleTaskComplete();
+            await reloadTaskLists();
 
-            setNotification({
-                message: 'Task marked as done',
-                type: 'success',
+            recordChange('Task marked as done', 'success', {
+                undo: () => tasksDB.restorePomodoro(task, completedTask.id),
+                redo: () => tasksDB.completeOnePomodoro(taskId, completedTask),
             });
         } catch (error) {
             homePageLogger.error('Failed to mark task as done:', error);
@@ -319,6 +493,7 @@ function Home() {
             };
 
             await tasksDB.updateCompletedTask(updatedTask);
+            notifyTasksChanged();
             setCompletedTasks((prev) =>
                 prev.map((t) => (t.id === taskId ? updatedTask : t))
             );
@@ -338,6 +513,7 @@ function Home() {
     const handleDeleteCompletedTask = async (taskId: string) => {
         try {
             await tasksDB.deleteCompletedTask(taskId);
+            notifyTasksChanged();
             setCompletedTasks((prev) => prev.filter((t) => t.id !== taskId));
             setNotification({
                 message: 'Completed task deleted',
@@ -352,6 +528,66 @@ function Home() {
         }
     };
 
+    /**
+     * Remembers a change to the task list so it can be undone, and reports it
+     * with an Undo button.
+     */
+    const recordChange = (
+        message: string,
+        type: NotificationState['type'],
+        change: Omit<UndoableChange, 'label'>
+    ) => {
+        record({ label: message, ...change });
+        setNotification({
+            message,
+            type,
+            action: { label: 'Undo', onClick: handleUndo },
+        });
+    };
+
+    const handleUndo = async () => {
+        try {
+            const change = await undo();
+            if (!change) return;
+            await reloadTaskLists();
+            setNotification({
+                message: `Undone: ${change.label}`,
+                type: 'info',
+                action: { label: 'Redo', onClick: handleRedo },
+            });
+        } catch (error) {
+            homePageLogger.error('Failed to undo change:', error);
+            setNotification({
+                message: 'Failed to undo the change',
+                type: 'error',
+            });
+        }
+    };
+
+    const handleRedo = async () => {
+        try {
+            const change = await redo();
+            if (!change) return;
+            await reloadTaskLists();
+            setNotification({
+                message: `Redone: ${change.label}`,
+                type: 'info',
+                action: { label: 'Undo', onClick: handleUndo },
+            });
+        } catch (error) {
+            homePageLogger.error('Failed to redo change:', error);
+            setNotification({
+                message: 'Failed to redo the change',
+                type: 'error',
+            });
+        }
+    };
+
+    useCommands([
+        createCommand('task.undo', handleUndo, !canUndo),
+        createCommand('task.redo', handleRedo, !canRedo),
+    ]);
+
     const handleDismissBanner = () => {
         posthog.capture('stats_banner_dismissed');
         setShowBanner(false);
@@ -364,7 +600,6 @@ function Home() {
         localStorage.setItem('statsBannerDismissed', newCount.toString());
     };
 
-    const activeTask = tasks[0] || null;
     return (
         <>
             <div className={`app ${showBanner ? 'app-with-banner' : ''}`}>
@@ -388,21 +623,33 @@ function Home() {
                         </Banner>
                     </div>
                 )}
-                <TimerProvider>
+                <TimerProvider
+                    settings={settings.timerSettings}
+                    allowOvertime={settings.overtimeMode}
+                    extendBreaksAfterOvertime={settings.extendBreaksAfterOvertime}
+                    sequences={sequences}
+                    tasks={tasks}
+                    isLoadingSettings={isLoadingSettings}
+                >
                     <main className="main-content">
                         <Timer
-                            selectedTask={activeTask}
-                            onTaskComplete={handleTaskComplete}
+                            tasks={tasks}
+                            onTaskComplete={reloadTaskLists}
+                            completedToday={completedTasks.length}
+                            onUpdateSubtasks={handleUpdateSubtasks}
                         />
                         <TaskInput onAddTask={handleAddTask} />
                         <TaskList
                             tasks={tasks}
-                            activeTaskId={activeTask?.id || null}
                             onReorder={handleReorderTasks}
                             onDelete={handleDeleteTask}
                             onUpdatePomodoros={handleUpdatePomodoros}
                             onEditTask={handleEditTask}
                             onMarkAsDone={handleMarkAsDone}
+                            onUpdateSubtasks={handleUpdateSubtasks}
+                            onUpdateNotes={handleUpdateNotes}
+                            onUpdateSequence={handleUpdateSequence}
+                            onUpdateTimerProfile={handleUpdateTimerProfile}
                         />
                         <CompletedTasksList
                             tasks={completedTasks}
@@ -416,6 +663,8 @@ function Home() {
                     <Notification
                         message={notification.message}
                         type={notification.type}
+                        action={notification.action}
+                        duration={notification.action ? 6000 : undefined}
                         onClose={() => setNotification(null)}
                     />
                 )}
@@ -1,81 +1,763 @@
 import { usePostHog } from 'posthog-js/react';
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
 import styles from './Settings.module.css';
+import { KeyCombo } from '../components/Commands';
+import { Notification } from '../components/Notification';
+import { SequenceSettingsSection } from '../components/Sequences';
+import { COMMAND_DEFINITIONS, DEFAULT_KEY_BINDINGS } from '../constants/commandConstants';
+import { isValidSetting, SETTINGS_REGISTRY } from '../constants/settingsConstants';
 import { useLogger } from '../hooks/useLogger';
-import { settingsDB } from '../utils/database';
+import useCategories from '../hooks/useCategories';
+import useSequences from '../hooks/useSequences';
+import useSettings from '../hooks/useSettings';
+import { useTabChannel } from '../hooks/useTabChannel';
+import {
+    Category,
+    CommandId,
+    ImportMode,
+    ImportSummary,
+    KeyBindings,
+    NotificationState,
+    SettingDefinition,
+    SettingKey,
+    SettingsValues,
+    TimerSettings,
+} from '../types';
+import { exportData, importData } from '../utils/backup';
+import { categoriesDB } from '../utils/database';
+import { formatLocalDate } from '../utils/dateTime';
+import { downloadFile } from '../utils/download';
+import { findCommandForCombo, getKeyCombo } from '../utils/hotkeys';
 
-interface UserSettings {
-    addTasksToBottom: boolean;
+interface TimerSettingField {
+    key: keyof TimerSettings;
+    label: string;
+    description: string;
+    unit: 'minutes' | 'sessions';
 }
 
-const Settings = () => {
-    const logger = useLogger('Settings');
-    const posthog = usePostHog();
-    const [settings, setSettings] = useState<UserSettings>({
-        addTasksToBottom: false
-    });
-    const [isLoading, setIsLoading] = useState(true);
-
-    useEffect(() => {
-        async function loadSettings() {
-            try {
-                const value = await settingsDB.get('addTasksToBottom');
-                setSettings(prev => ({
-                    ...prev,
-                    addTasksToBottom: value ?? false
-                }));
-                setIsLoading(false);
-            } catch (error) {
-                logger.error('Failed to load settings:', error);
-                setIsLoading(false);
-            }
+const TIMER_SETTING_FIELDS: TimerSettingField[] = [
+    {
+        key: 'workDuration',
+        label: 'Work session length',
+        description: 'How long each pomodoro lasts, in minutes.',
+        unit: 'minutes',
+    },
+    {
+        key: 'breakDuration',
+        label: 'Short break length',
+        description: 'How long a short break lasts, in minutes.',
+        unit: 'minutes',
+    },
+    {
+        key: 'longBreakDuration',
+        label: 'Long break length',
+        description: 'How long a long break lasts, in minutes.',
+        unit: 'minutes',
+    },
+    {
+        key: 'sessionsUntilLongBreak',
+        label: 'Sessions until long break',
+        description: 'Number of work sessions before a long break is taken.',
+        unit: 'sessions',
+    },
+];
+
+// Settings that declare a label are rendered by GeneralSettingItem
+const GENERAL_SETTING_KEYS = (Object.keys(SETTINGS_REGISTRY) as SettingKey[]).filter(
+    (key) => SETTINGS_REGISTRY[key].label
+);
+
+/**
+ * Converts a stored timer setting into the value shown in its input.
+ * Durations are stored in milliseconds but edited in minutes.
+ */
+const toInputValue = (field: TimerSettingField, value: number): number =>
+    field.unit === 'minutes' ? Math.round(value / 60000) : value;
+
+/**
+ * Converts an input value back into the stored timer setting.
+ */
+const fromInputValue = (field: TimerSettingField, value: number): number =>
+    field.unit === 'minutes' ? value * 60000 : value;
+
+const toTimerInputs = (
+    timerSettings: TimerSettings
+): Record<keyof TimerSettings, string> =>
+    Object.fromEntries(
+        TIMER_SETTING_FIELDS.map(field => [
+            field.key,
+            String(toInputValue(field, timerSettings[field.key])),
+        ])
+    ) as Record<keyof TimerSettings, string>;
+
+interface GeneralSettingItemProps {
+    definition: SettingDefinition<unknown>;
+    value: unknown;
+    onChange: (value: unknown) => void;
+}
+
+/**
+ * Renders a single setting from the registry using the control that
+ * matches its declared type.
+ */
+const GeneralSettingItem = ({ definition, value, onChange }: GeneralSettingItemProps) => {
+    const [draft, setDraft] = useState(String(value));
+
+    const renderControl = () => {
+        switch (definition.type) {
+            case 'boolean':
+                return (
+                    <div className={styles.toggleSwitch}>
+                        <input
+                            type="checkbox"
+                            checked={value === true}
+                            onChange={() => onChange(!value)}
+                        />
+                        <span className={styles.slider}></span>
+                    </div>
+                );
+            case 'enum':
+                return (
+                    <select
+                        className={styles.selectInput}
+                        value={String(value)}
+                        onChange={(e) => onChange(e.target.value)}
+                        aria-label={definition.label}
+                    >
+                        {definition.options?.map((option) => (
+                            <option key={String(option)} value={String(option)}>
+                                {String(option)}
+                            </option>
+                        ))}
+                    </select>
+                );
+            case 'number':
+                return (
+                    <input
+                        type="number"
+                        min={definition.min}
+                        max={definition.max}
+                        className={styles.numberInput}
+                        value={draft}
+                        onChange={(e) => {
+                            setDraft(e.target.value);
+                            const parsedValue = Number(e.target.value);
+                            // Leave invalid input as a draft rather than saving it
+                            if (e.target.value !== '' && isValidSetting(definition, parsedValue)) {
+                                onChange(parsedValue);
+                            }
+                        }}
+                        // A draft that was never saved goes back to the saved value
+                        onBlur={() => setDraft(String(value))}
+                        aria-label={definition.label}
+                    />
+                );
+            case 'string':
+                return (
+                    <input
+                        type="text"
+                        className={styles.textInput}
+                        value={draft}
+                        onChange={(e) => {
+                            setDraft(e.target.value);
+                            onChange(e.target.value);
+                        }}
+                        aria-label={definition.label}
+                    />
+                );
+            default:
+                return null;
         }
+    };
 
-        loadSettings();
-    }, [logger]);
+    return (
+        <div className={styles.settingItem}>
+            <label className={styles.settingLabel}>
+                <span>{definition.label}</span>
+                {renderControl()}
+            </label>
+            {definition.description && (
+                <p className={styles.settingDescription}>
+                    {definition.description}
+                </p>
+            )}
+        </div>
+    );
+};
 
-    const handleToggleTaskPosition = async () => {
-        const newValue = !settings.addTasksToBottom;
+interface TimerSettingsSectionProps {
+    timerSettings: TimerSettings;
+    onChange: (timerSettings: TimerSettings) => void;
+}
+
+const TimerSettingsSection = ({ timerSettings, onChange }: TimerSettingsSectionProps) => {
+    const [timerInputs, setTimerInputs] = useState(() =>
+        toTimerInputs(timerSettings)
+    );
+
+    const handleTimerSettingChange = (
+        field: TimerSettingField,
+        rawValue: string
+    ) => {
+        setTimerInputs(prev => ({ ...prev, [field.key]: rawValue }));
+
+        // Only persist whole, positive numbers; anything else stays a draft
+        const parsedValue = Number(rawValue);
+        if (!Number.isInteger(parsedValue) || parsedValue < 1) {
+            return;
+        }
+
+        onChange({
+            ...timerSettings,
+            [field.key]: fromInputValue(field, parsedValue),
+        });
+    };
+
+    return (
+        <>
+            <h2 className={styles.sectionTitle}>Timer</h2>
+            <div className={styles.settingsContent}>
+                {TIMER_SETTING_FIELDS.map(field => (
+                    <div className={styles.settingItem} key={field.key}>
+                        <label className={styles.settingLabel}>
+                            <span>{field.label}</span>
+                            <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                className={styles.numberInput}
+                                value={timerInputs[field.key]}
+                                onChange={(e) =>
+                                    handleTimerSettingChange(field, e.target.value)
+                                }
+                                aria-label={`${field.label} (${field.unit})`}
+                            />
+                        </label>
+                        <p className={styles.settingDescription}>
+                            {field.description}
+                        </p>
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+};
+
+interface KeyBindingsSectionProps {
+    keyBindings: KeyBindings;
+    onChange: (keyBindings: KeyBindings) => void;
+    onNotify: (notification: NotificationState) => void;
+}
+
+const KeyBindingsSection = ({ keyBindings, onChange, onNotify }: KeyBindingsSectionProps) => {
+    // The command whose button is waiting for a key press
+    const [recording, setRecording] = useState<CommandId | null>(null);
+
+    const handleRecordKey = (commandId: CommandId, e: React.KeyboardEvent) => {
+        // Tab still moves on, which stops recording
+        if (e.key === 'Tab') return;
+        // Keep the press from also running a shortcut
+        e.preventDefault();
+
+        if (e.key === 'Escape') {
+            setRecording(null);
+            return;
+        }
+        if (e.key === 'Backspace' || e.key === 'Delete') {
+            setRecording(null);
+            onChange({ ...keyBindings, [commandId]: '' });
+            return;
+        }
+
+        const combo = getKeyCombo(e.nativeEvent);
+        if (!combo) return;
+
+        const boundCommand = findCommandForCombo(keyBindings, combo);
+        if (boundCommand && boundCommand !== commandId) {
+            onNotify({
+                message: `${combo} is already used for "${COMMAND_DEFINITIONS[boundCommand].title}"`,
+                type: 'error',
+            });
+            return;
+        }
+
+        setRecording(null);
+        onChange({ ...keyBindings, [commandId]: combo });
+    };
+
+    return (
+        <>
+            <h2 className={styles.sectionTitle}>Keyboard shortcuts</h2>
+            <div className={styles.settingsContent}>
+                {(Object.keys(COMMAND_DEFINITIONS) as CommandId[]).map((commandId) => (
+                    <div className={styles.settingItem} key={commandId}>
+                        <div className={styles.settingLabel}>
+                            <span>{COMMAND_DEFINITIONS[commandId].title}</span>
+                            <button
+                                className={`${styles.actionButton} ${styles.shortcutButton}`}
+                                onClick={() => setRecording(commandId)}
+                                onKeyDown={(e) =>
+                                    recording === commandId && handleRecordKey(commandId, e)
+                                }
+                                onBlur={() => setRecording(null)}
+                                aria-label={`Shortcut for ${COMMAND_DEFINITIONS[commandId].title}`}
+                            >
+                                {recording === commandId ? (
+                                    'Press keys…'
+                                ) : keyBindings[commandId] ? (
+                                    <KeyCombo combo={keyBindings[commandId]} />
+                                ) : (
+                                    'Not set'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                <div className={styles.settingItem}>
+                    <div className={styles.settingLabel}>
+                        <span>Restore default shortcuts</span>
+                        <button
+                            className={styles.actionButton}
+                            onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+                        >
+                            Reset
+                        </button>
+                    </div>
+                    <p className={styles.settingDescription}>
+                        Click a shortcut and press the new keys. Backspace removes it and
+                        Escape keeps it as it is. Press ? anywhere to see them all.
+                    </p>
+                </div>
+            </div>
+        </>
+    );
+};
+
+const IMPORT_MODES: { value: ImportMode; label: string }[] = [
+    { value: 'merge', label: 'Merge by id' },
+    { value: 'replace', label: 'Replace all data' },
+    { value: 'dry-run', label: 'Preview only (dry run)' },
+];
+
+const STORE_LABELS: Record<keyof ImportSummary['stores'], string> = {
+    tasks: 'Tasks',
+    completedTasks: 'Completed pomodoros',
+    settings: 'Settings',
+    categories: 'Categories',
+    sessions: 'Timer sessions',
+    sequences: 'Session sequences',
+};
+
+interface DataSettingsSectionProps {
+    onImported: () => void;
+    onNotify: (notification: NotificationState) => void;
+}
+
+const DataSettingsSection = ({ onImported, onNotify }: DataSettingsSectionProps) => {
+    const logger = useLogger('DataSettings');
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExport = async () => {
         try {
-            await settingsDB.set('addTasksToBottom', newValue);
-            setSettings(prev => ({
-                ...prev,
-                addTasksToBottom: newValue
-            }));
-            logger.info('Task position setting updated:', { addTasksToBottom: newValue });
-            posthog?.capture('settings_updated', { setting: 'addTasksToBottom', value: newValue });
+            const exportDocument = await exportData();
+            downloadFile(
+                JSON.stringify(exportDocument, null, 2),
+                `pomodoro-panda-export-${formatLocalDate(exportDocument.exportedAt)}.json`,
+                'application/json'
+            );
         } catch (error) {
-            logger.error('Failed to update task position setting:', error);
+            logger.error('Failed to export data:', error);
+            onNotify({ message: 'Failed to export data', type: 'error' });
         }
     };
 
-    if (isLoading) {
-        return <div className={styles.container}>Loading settings...</div>;
-    }
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            const result = await importData(JSON.parse(await file.text()), importMode);
+            setSummary(result);
+            if (importMode !== 'dry-run') {
+                onImported();
+                onNotify({ message: 'Data imported', type: 'success' });
+            }
+        } catch (error) {
+            logger.error('Failed to import data:', error);
+            setSummary(null);
+            onNotify({
+                message: error instanceof Error ? error.message : 'Failed to import data',
+                type: 'error',
+            });
+        } finally {
+            // Allow the same file to be picked again, e.g. after a dry run
+            if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+            }
+        }
+    };
 
     return (
-        <div className={styles.container}>
-            <h1>Settings</h1>
+        <>
+            <h2 className={styles.sectionTitle}>Data</h2>
             <div className={styles.settingsContent}>
                 <div className={styles.settingItem}>
-                    <label className={styles.settingLabel}>
-                        <span>Add new tasks to bottom of list</span>
-                        <div className={styles.toggleSwitch}>
+                    <div className={styles.settingLabel}>
+                        <span>Export data</span>
+                        <button className={styles.actionButton} onClick={handleExport}>
+                            Export JSON
+                        </button>
+                    </div>
+                    <p className={styles.settingDescription}>
+                        Downloads your tasks, pomodoro history and settings as a JSON file.
+                    </p>
+                </div>
+                <div className={styles.settingItem}>
+                    <div className={styles.settingLabel}>
+                        <span>Import data</span>
+                        <div className={styles.actionGroup}>
+                            <select
+                                className={styles.selectInput}
+                                value={importMode}
+                                onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                                aria-label="Import mode"
+                            >
+                                {IMPORT_MODES.map((mode) => (
+                                    <option key={mode.value} value={mode.value}>
+                                        {mode.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                className={styles.actionButton}
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                Choose file
+                            </button>
                             <input
-                                type="checkbox"
-                                checked={settings.addTasksToBottom}
-                                onChange={handleToggleTaskPosition}
+                                ref={fileInputRef}
+                                type="file"
+                                accept="application/json,.json"
+                                className={styles.hiddenInput}
+                                onChange={handleImportFile}
+                                aria-label="Export file to import"
                             />
-                            <span className={styles.slider}></span>
                         </div>
-                    </label>
+                    </div>
                     <p className={styles.settingDescription}>
-                        When enabled, new tasks will be added to the bottom of your task list instead of the top.
+                        Restores a JSON export. Merging keeps your current data and
+                        updates records with the same id; replacing deletes it first.
                     </p>
+                    {summary && (
+                        <table className={styles.importSummary}>
+                            <caption>
+                                {summary.mode === 'dry-run'
+                                    ? 'Preview: nothing was changed'
+                                    : 'Import complete'}
+                            </caption>
+                            <thead>
+                                <tr>
+                                    <th></th>
+                                    <th>Added</th>
+                                    <th>Updated</th>
+                                    <th>Removed</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(Object.keys(STORE_LABELS) as (keyof ImportSummary['stores'])[]).map(
+                                    (store) => (
+                                        <tr key={store}>
+                                            <th>{STORE_LABELS[store]}</th>
+                                            <td>{summary.stores[store].added}</td>
+                                            <td>{summary.stores[store].updated}</td>
+                                            <td>{summary.stores[store].removed}</td>
+                                        </tr>
+                                    )
+                                )}
+                            </tbody>
+                        </table>
+                    )}
                 </div>
             </div>
+        </>
+    );
+};
+
+interface CategorySettingsRowProps {
+    category: Category;
+    otherCategories: Category[];
+    onChanged: () => Promise<void>;
+    onNotify: (notification: NotificationState) => void;
+}
+
+const CategorySettingsRow = ({
+    category,
+    otherCategories,
+    onChanged,
+    onNotify,
+}: CategorySettingsRowProps) => {
+    const logger = useLogger('CategorySettings');
+    const [name, setName] = useState(category.name);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+
+    const runChange = async (change: () => Promise<void>, successMessage?: string) => {
+        try {
+            await change();
+            await onChanged();
+            if (successMessage) {
+                onNotify({ message: successMessage, type: 'success' });
+            }
+        } catch (error) {
+            logger.error('Failed to update category:', error);
+            onNotify({
+                message: error instanceof Error ? error.message : 'Failed to update category',
+                type: 'error',
+            });
+        }
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        runChange(
+            () => categoriesDB.rename(category.id, name),
+            `Renamed "${category.name}" to "${name.trim()}"`
+        );
+    };
+
+    const handleMerge = () => {
+        const target = otherCategories.find((other) => other.id === mergeTargetId);
+        if (!target) return;
+        if (
+            !window.confirm(
+                `Move every task in "${category.name}" to "${target.name}" and delete "${category.name}"?`
+            )
+        ) {
+            return;
+        }
+        runChange(
+            () => categoriesDB.merge(category.id, target.id),
+            `Merged "${category.name}" into "${target.name}"`
+        );
+    };
+
+    return (
+        <div className={`${styles.categoryRow} ${category.archived ? styles.archived : ''}`}>
+            <input
+                type="color"
+                className={styles.colorInput}
+                value={category.color}
+                onChange={(e) =>
+                    runChange(() => categoriesDB.update({ ...category, color: e.target.value }))
+                }
+                aria-label={`Colour of ${category.name}`}
+            />
+            <input
+                type="text"
+                className={styles.emojiInput}
+                value={category.emoji ?? ''}
+                maxLength={4}
+                placeholder="🙂"
+                onChange={(e) =>
+                    runChange(() =>
+                        categoriesDB.update({
+                            ...category,
+                            emoji: e.target.value.trim() || undefined,
+                        })
+                    )
+                }
+                aria-label={`Emoji of ${category.name}`}
+            />
+            <form className={styles.actionGroup} onSubmit={handleRename}>
+                <input
+                    type="text"
+                    className={styles.textInput}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    aria-label={`Name of ${category.name}`}
+                    required
+                />
+                {name.trim() !== category.name && (
+                    <button type="submit" className={styles.actionButton}>
+                        Rename
+                    </button>
+                )}
+            </form>
+            <label className={styles.archiveToggle}>
+                <input
+                    type="checkbox"
+                    checked={category.archived}
+                    onChange={() =>
+                        runChange(() =>
+                            categoriesDB.update({ ...category, archived: !category.archived })
+                        )
+                    }
+                />
+                Archived
+            </label>
+            {otherCategories.length > 0 && (
+                <div className={styles.actionGroup}>
+                    <select
+                        className={styles.selectInput}
+                        value={mergeTargetId}
+                        onChange={(e) => setMergeTargetId(e.target.value)}
+                        aria-label={`Merge ${category.name} into`}
+                    >
+                        <option value="">Merge into…</option>
+                        {otherCategories.map((other) => (
+                            <option key={other.id} value={other.id}>
+                                {other.name}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        className={styles.actionButton}
+                        onClick={handleMerge}
+                        disabled={!mergeTargetId}
+                    >
+                        Merge
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface CategorySettingsSectionProps {
+    onChanged: () => Promise<void>;
+    onNotify: (notification: NotificationState) => void;
+}
+
+const CategorySettingsSection = ({ onChanged, onNotify }: CategorySettingsSectionProps) => {
+    const { categories } = useCategories();
+
+    return (
+        <>
+            <h2 className={styles.sectionTitle}>Categories</h2>
+            <div className={styles.settingsContent}>
+                {categories.length === 0 ? (
+                    <p className={styles.settingDescription}>
+                        Categories are created as you add tasks.
+                    </p>
+                ) : (
+                    categories.map((category) => (
+                        <CategorySettingsRow
+                            // Remount after a rename so the name input starts from the new name
+                            key={`${category.id}-${category.name}`}
+                            category={category}
+                            otherCategories={categories.filter(
+                                (other) => other.id !== category.id
+                            )}
+                            onChanged={onChanged}
+                            onNotify={onNotify}
+                        />
+                    ))
+                )}
+            </div>
+        </>
+    );
+};
+
+const Settings = () => {
+    const logger = useLogger('Settings');
+    const posthog = usePostHog();
+    const { settings, isLoading, updateSetting, reloadSettings } = useSettings();
+    const [notification, setNotification] = useState<NotificationState | null>(
+        null
+    );
+    // Bumped after an import so the setting inputs pick up the imported values
+    const [importCount, setImportCount] = useState(0);
+    const postToTabs = useTabChannel();
+    const { reloadCategories } = useCategories();
+    const { reloadSequences } = useSequences();
+
+    const handleImported = async () => {
+        await Promise.all([reloadSettings(), reloadCategories(), reloadSequences()]);
+        setImportCount((count) => count + 1);
+        postToTabs({ type: 'TASKS_CHANGED' });
+    };
+
+    // Renames and merges rewrite tasks, so other tabs reload them too
+    const handleCategoriesChanged = async () => {
+        await reloadCategories();
+        postToTabs({ type: 'TASKS_CHANGED' });
+    };
+
+    // Deleting a sequence unsets it on tasks, so other tabs reload those too
+    const handleSequencesChanged = async () => {
+        await reloadSequences();
+        postToTabs({ type: 'SEQUENCES_CHANGED' });
+        postToTabs({ type: 'TASKS_CHANGED' });
+    };
+
+    const handleSettingChange = async <K extends SettingKey>(
+        key: K,
+        value: SettingsValues[K]
+    ) => {
+        try {
+            await updateSetting(key, value);
+            logger.info('Setting updated:', { [key]: value });
+            posthog?.capture('settings_updated', { setting: key, value });
+        } catch (error) {
+            logger.error(`Failed to update setting "${key}":`, error);
+            setNotification({ message: 'Failed to update setting', type: 'error' });
+        }
+    };
+
+    if (isLoading) {
+        return <div className={styles.container}>Loading settings...</div>;
+    }
+
+    return (
+        <div className={styles.container}>
+            <h1>Settings</h1>
+            <div className={styles.settingsContent}>
+                {GENERAL_SETTING_KEYS.map((key) => (
+                    <GeneralSettingItem
+                        key={`${key}-${importCount}`}
+                        definition={SETTINGS_REGISTRY[key] as SettingDefinition<unknown>}
+                        value={settings[key]}
+                        onChange={(value) =>
+                            handleSettingChange(key, value as SettingsValues[typeof key])
+                        }
+                    />
+                ))}
+            </div>
+            <TimerSettingsSection
+                key={importCount}
+                timerSettings={settings.timerSettings}
+                onChange={(timerSettings) =>
+                    handleSettingChange('timerSettings', timerSettings)
+                }
+            />
+            <KeyBindingsSection
+                keyBindings={settings.keyBindings}
+                onChange={(keyBindings) => handleSettingChange('keyBindings', keyBindings)}
+                onNotify={setNotification}
+            />
+            <CategorySettingsSection
+                onChanged={handleCategoriesChanged}
+                onNotify={setNotification}
+            />
+            <SequenceSettingsSection
+                onChanged={handleSequencesChanged}
+                onNotify={setNotification}
+            />
+            <DataSettingsSection
+                onImported={handleImported}
+                onNotify={setNotification}
+            />
+            {notification && (
+                <Notification
+                    message={notification.message}
+                    type={notification.type}
+                    onClose={() => setNotification(null)}
+                />
+            )}
         </div>
     );
 };
 
-export default Settings; 
\ No newline at end of file
+export default Settings;
\ No newline at end of file
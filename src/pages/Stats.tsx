@@ -1,33 +1,57 @@
 import { useEffect, useMemo, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { GoalsPanel } from '../components/Goals';
+import {
+    CalendarHeatmap,
+    CategoryBreakdown,
+    CategoryTable,
+    DayTimeline,
+    FocusBarChart,
+    getCategoryColors,
+} from '../components/Stats';
 import { CompletedTasksList } from '../components/Tasks/CompletedTasksList';
 import { Notification } from '../components/Notification';
+import { TaskSearch } from '../components/Search';
+import useCategories from '../hooks/useCategories';
 import { useLogger } from '../hooks/useLogger';
-import { Task, NotificationState } from '../types';
-import { tasksDB } from '../utils/database';
+import useSettings from '../hooks/useSettings';
+import { useTabChannel } from '../hooks/useTabChannel';
+import {
+    DateRange,
+    NotificationState,
+    StatsRangePreset,
+    Task,
+    TimelineBlock,
+    TimerSession,
+} from '../types';
+import { normalizeCategory } from '../utils/categories';
+import { createCompletedTasksCsv } from '../utils/csvExport';
+import { sessionsDB, tasksDB } from '../utils/database';
+import {
+    getStatsRange,
+    parseDateInput,
+    startOfDay,
+    STATS_RANGE_PRESETS,
+} from '../utils/dateRanges';
+import { formatLocalDate, formatTotalDuration } from '../utils/dateTime';
+import { downloadFile } from '../utils/download';
+import { calculateStreaks } from '../utils/goals';
+import { summarizeInterruptions } from '../utils/interruptions';
+import { summarizeBreakAdherence } from '../utils/sessions';
+import { getCheckedSubtasks } from '../utils/subtasks';
+import { buildDayTimeline } from '../utils/timeline';
+import {
+    aggregateFocusByDay,
+    getCategoryAnalytics,
+} from '../utils/statsAggregation';
 import styles from './Stats.module.css';
 
-/**
- * Formats a total duration in milliseconds to a string of hours and minutes.
- * @param milliseconds - The total duration in milliseconds.
- * @returns A string of hours and minutes, or '0m' if the duration is 0 milliseconds.
- */
-const formatTotalDuration = (milliseconds: number): string => {
-    const totalMinutes = Math.round(milliseconds / 60000);
-
-    if (totalMinutes === 0) return '0m';
-
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-
-    if (hours > 0) {
-        if (minutes > 0) {
-            return `${hours}h ${minutes}m`;
-        }
-        return `${hours}h`;
-    }
-    return `${minutes}m`;
-};
+// Completed tasks read from the database per request
+const COMPLETED_TASKS_PAGE_SIZE = 200;
+// Completed tasks rendered initially and per "Show more"
+const VISIBLE_TASKS_STEP = 100;
+// Days covered by the calendar heatmap
+const HEATMAP_DAYS = 365;
 
 function Stats() {
     const [completedTasks, setCompletedTasks] = useState<Task[]>([]);
@@ -36,17 +60,90 @@ function Stats() {
     );
     const statsPageLogger = useLogger('StatsPage');
 
+    // Bumped whenever another tab changes the task lists, to reload them here
+    const [tasksVersion, setTasksVersion] = useState(0);
+    const postToTabs = useTabChannel((message) => {
+        if (message.type === 'TASKS_CHANGED' || message.type === 'SESSIONS_CHANGED') {
+            setTasksVersion((version) => version + 1);
+        }
+    });
+    const { getCategory, reloadCategories } = useCategories();
+    // Saving a task may also have created its category
+    const notifyTasksChanged = () => {
+        postToTabs({ type: 'TASKS_CHANGED' });
+        reloadCategories();
+    };
+
+    const [rangePreset, setRangePreset] = useState<StatsRangePreset>('last30Days');
+    const [customFrom, setCustomFrom] = useState(() => formatLocalDate(Date.now()));
+    const [customTo, setCustomTo] = useState(() => formatLocalDate(Date.now()));
+    const [isLoading, setIsLoading] = useState(true);
+    const [visibleTaskCount, setVisibleTaskCount] = useState(VISIBLE_TASKS_STEP);
+    const [selectedRange, setSelectedRange] = useState<DateRange | null>(null);
+    // Completed tasks of the last year, for the heatmap and weekly trends
+    const [yearOfTasks, setYearOfTasks] = useState<{
+        range: DateRange;
+        tasks: Task[];
+    } | null>(null);
+    // Category the completed tasks list is filtered to
+    const [selectedCategoryKey, setSelectedCategoryKey] = useState<string | null>(
+        null
+    );
+    // Bumped after completed tasks are edited here, to refresh the heatmap
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const { settings } = useSettings();
+    // End times of every completed pomodoro, for the streaks
+    const [completionTimes, setCompletionTimes] = useState<number[]>([]);
+    const [rangeSessions, setRangeSessions] = useState<TimerSession[]>([]);
+    const [timelineDate, setTimelineDate] = useState(() => formatLocalDate(Date.now()));
+    const [timeline, setTimeline] = useState<{
+        range: DateRange;
+        blocks: TimelineBlock[];
+    } | null>(null);
+
     /**
-     * Loads all completed tasks from the database.
+     * Loads the completed tasks in the selected range one page at a time,
+     * so the page stays responsive while a long history is read.
      */
     useEffect(() => {
+        let cancelled = false;
+
         async function loadCompletedTasks() {
-            statsPageLogger.info('Fetching all completed tasks...');
+            let customRange;
+            if (rangePreset === 'custom') {
+                const fromDay = parseDateInput(customFrom);
+                const toDay = parseDateInput(customTo);
+                if (fromDay === null || toDay === null) return;
+                customRange = { fromDay, toDay };
+            }
+            const { from, to } = getStatsRange(rangePreset, Date.now(), customRange);
+            setSelectedRange({ from, to });
+
+            statsPageLogger.info('Fetching completed tasks in range...', {
+                from: new Date(from).toISOString(),
+                to: new Date(to).toISOString(),
+            });
+            setIsLoading(true);
             try {
-                const tasks = await tasksDB.getCompletedTasks();
-                setCompletedTasks(tasks);
+                let page = await tasksDB.getCompletedTasksInRange(from, to, {
+                    limit: COMPLETED_TASKS_PAGE_SIZE,
+                });
+                if (cancelled) return;
+                let loadedTasks = page.tasks;
+                setCompletedTasks(loadedTasks);
+
+                while (page.nextCursor) {
+                    page = await tasksDB.getCompletedTasksInRange(from, to, {
+                        limit: COMPLETED_TASKS_PAGE_SIZE,
+                        cursor: page.nextCursor,
+                    });
+                    if (cancelled) return;
+                    loadedTasks = [...loadedTasks, ...page.tasks];
+                    setCompletedTasks(loadedTasks);
+                }
+
                 statsPageLogger.info(
-                    `Successfully fetched ${tasks.length} completed tasks.`
+                    `Successfully fetched ${loadedTasks.length} completed tasks.`
                 );
             } catch (error) {
                 statsPageLogger.error('Failed to load completed tasks:', error);
@@ -54,11 +151,211 @@ function Stats() {
                     message: 'Failed to load completed tasks',
                     type: 'error',
                 });
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
             }
         }
 
         loadCompletedTasks();
-    }, [statsPageLogger]);
+        return () => {
+            cancelled = true;
+        };
+    }, [statsPageLogger, tasksVersion, rangePreset, customFrom, customTo]);
+
+    /**
+     * Loads the completed tasks of the last year for the heatmap and the
+     * weekly trends, independently of the selected range. Read one page at
+     * a time like the selected range, as a year can hold thousands of them.
+     */
+    useEffect(() => {
+        let cancelled = false;
+
+        async function loadYearOfFocus() {
+            const yearRange = {
+                from: startOfDay(Date.now(), -HEATMAP_DAYS + 1),
+                to: startOfDay(Date.now(), 1),
+            };
+            try {
+                let page = await tasksDB.getCompletedTasksInRange(yearRange.from, yearRange.to, {
+                    limit: COMPLETED_TASKS_PAGE_SIZE,
+                });
+                if (cancelled) return;
+                let tasks = page.tasks;
+                setYearOfTasks({ range: yearRange, tasks });
+
+                while (page.nextCursor) {
+                    page = await tasksDB.getCompletedTasksInRange(yearRange.from, yearRange.to, {
+                        limit: COMPLETED_TASKS_PAGE_SIZE,
+                        cursor: page.nextCursor,
+                    });
+                    if (cancelled) return;
+                    tasks = [...tasks, ...page.tasks];
+                    setYearOfTasks({ range: yearRange, tasks });
+                }
+            } catch (error) {
+                statsPageLogger.error('Failed to load focus history:', error);
+            }
+        }
+
+        loadYearOfFocus();
+        return () => {
+            cancelled = true;
+        };
+    }, [statsPageLogger, tasksVersion, historyVersion]);
+
+    /**
+     * Loads when every pomodoro was completed, as streaks can go back
+     * further than the last year.
+     */
+    useEffect(() => {
+        let cancelled = false;
+
+        async function loadCompletionTimes() {
+            try {
+                const endTimes = await tasksDB.getCompletionTimes();
+                if (!cancelled) {
+                    setCompletionTimes(endTimes);
+                }
+            } catch (error) {
+                statsPageLogger.error('Failed to load completion times:', error);
+            }
+        }
+
+        loadCompletionTimes();
+        return () => {
+            cancelled = true;
+        };
+    }, [statsPageLogger, tasksVersion, historyVersion]);
+
+    /**
+     * Loads the timer sessions of the selected range, for break adherence.
+     */
+    useEffect(() => {
+        if (!selectedRange) return;
+        let cancelled = false;
+
+        async function loadRangeSessions(range: DateRange) {
+            try {
+                const sessions = await sessionsDB.getInRange(range.from, range.to);
+                if (!cancelled) {
+                    setRangeSessions(sessions);
+                }
+            } catch (error) {
+                statsPageLogger.error('Failed to load timer sessions:', error);
+            }
+        }
+
+        loadRangeSessions(selectedRange);
+        return () => {
+            cancelled = true;
+        };
+    }, [statsPageLogger, tasksVersion, selectedRange]);
+
+    const breakAdherence = useMemo(
+        () => summarizeBreakAdherence(rangeSessions),
+        [rangeSessions]
+    );
+
+    /**
+     * Loads the work and breaks of the day picked for the timeline.
+     */
+    useEffect(() => {
+        let cancelled = false;
+
+        async function loadTimeline() {
+            const day = parseDateInput(timelineDate);
+            if (day === null) return;
+            const range = { from: day, to: startOfDay(day, 1) };
+            // Sessions running past midnight end on the following day
+            const readUntil = startOfDay(day, 2);
+            try {
+                const [{ tasks }, sessions] = await Promise.all([
+                    tasksDB.getCompletedTasksInRange(range.from, readUntil),
+                    sessionsDB.getInRange(range.from, readUntil),
+                ]);
+                if (!cancelled) {
+                    setTimeline({
+                        range,
+                        blocks: buildDayTimeline(range, tasks, sessions),
+                    });
+                }
+            } catch (error) {
+                statsPageLogger.error('Failed to load the timeline:', error);
+            }
+        }
+
+        loadTimeline();
+        return () => {
+            cancelled = true;
+        };
+    }, [statsPageLogger, tasksVersion, historyVersion, timelineDate]);
+
+    const streaks = useMemo(
+        () => calculateStreaks(completionTimes, settings.dailyPomodoroGoal, Date.now()),
+        [completionTimes, settings.dailyPomodoroGoal]
+    );
+
+    const dailyFocus = useMemo(
+        () => (selectedRange ? aggregateFocusByDay(completedTasks, selectedRange) : []),
+        [completedTasks, selectedRange]
+    );
+
+    const yearOfFocus = useMemo(
+        () =>
+            yearOfTasks
+                ? aggregateFocusByDay(yearOfTasks.tasks, yearOfTasks.range)
+                : [],
+        [yearOfTasks]
+    );
+
+    const categoryTotals = useMemo(
+        () =>
+            getCategoryAnalytics(
+                completedTasks,
+                yearOfTasks?.tasks ?? [],
+                Date.now()
+            ),
+        [completedTasks, yearOfTasks]
+    );
+
+    const displayedTasks = useMemo(
+        () =>
+            selectedCategoryKey === null
+                ? completedTasks
+                : completedTasks.filter(
+                      (task) =>
+                          normalizeCategory(task.category) === selectedCategoryKey
+                  ),
+        [completedTasks, selectedCategoryKey]
+    );
+
+    const selectedCategory = categoryTotals.find(
+        (total) => total.key === selectedCategoryKey
+    );
+
+    const categoryColors = useMemo(
+        () =>
+            getCategoryColors(
+                categoryTotals.map((total) => total.category),
+                getCategory
+            ),
+        [categoryTotals, getCategory]
+    );
+
+    const handleRangePresetChange = (preset: StatsRangePreset) => {
+        statsPageLogger.info('Changing stats range:', { preset });
+        setRangePreset(preset);
+        setVisibleTaskCount(VISIBLE_TASKS_STEP);
+        setSelectedCategoryKey(null);
+    };
+
+    const handleSelectCategory = (key: string | null) => {
+        statsPageLogger.info('Filtering completed tasks by category:', { key });
+        setSelectedCategoryKey(key);
+        setVisibleTaskCount(VISIBLE_TASKS_STEP);
+    };
 
     /**
      * Calculates the total number of pomodoros completed.
@@ -82,6 +379,20 @@ function Stats() {
         return formatTotalDuration(totalDurationMs);
     }, [completedTasks, statsPageLogger]);
 
+    const interruptionSummary = useMemo(
+        () => summarizeInterruptions(completedTasks),
+        [completedTasks]
+    );
+
+    const subtasksDone = useMemo(
+        () =>
+            completedTasks.reduce(
+                (sum, task) => sum + getCheckedSubtasks(task).length,
+                0
+            ),
+        [completedTasks]
+    );
+
     /**
      * Repeats a task.
      * @param category - The category of the task.
@@ -112,6 +423,7 @@ function Stats() {
                     pomodoros: (existingTask.pomodoros || 1) + (pomodoros || 1),
                 };
                 await tasksDB.update(updatedTask);
+                notifyTasksChanged();
                 statsPageLogger.info(
                     'Added pomodoro to existing active task:',
                     updatedTask
@@ -132,6 +444,7 @@ function Stats() {
                     // order will be set by tasksDB.add
                 };
                 await tasksDB.add(newTask);
+                notifyTasksChanged();
                 statsPageLogger.info('Added new task to active list:', newTask);
                 setNotification({
                     message: 'Task added to the Home page.',
@@ -182,6 +495,8 @@ function Stats() {
             };
 
             await tasksDB.updateCompletedTask(updatedTask);
+            notifyTasksChanged();
+            setHistoryVersion((version) => version + 1);
             setCompletedTasks((prevTasks) =>
                 prevTasks.map((task) =>
                     task.id === taskId ? updatedTask : task
@@ -212,6 +527,8 @@ function Stats() {
         statsPageLogger.info('Deleting completed task:', { taskId });
         try {
             await tasksDB.deleteCompletedTask(taskId);
+            notifyTasksChanged();
+            setHistoryVersion((version) => version + 1);
             setCompletedTasks((prevTasks) =>
                 prevTasks.filter((task) => task.id !== taskId)
             );
@@ -232,6 +549,20 @@ function Stats() {
         }
     };
 
+    /**
+     * Downloads the completed tasks shown on the page as a CSV timesheet.
+     */
+    const handleExportCsv = () => {
+        statsPageLogger.info('Exporting completed tasks as CSV:', {
+            count: displayedTasks.length,
+        });
+        downloadFile(
+            createCompletedTasksCsv(displayedTasks),
+            `pomodoro-panda-pomodoros-${formatLocalDate(Date.now())}.csv`,
+            'text/csv;charset=utf-8'
+        );
+    };
+
     return (
         <div className={styles.statsContainer}>
             <div className={styles.infoCardsContainer}>
@@ -257,14 +588,176 @@ function Stats() {
                         <p className={styles.infoCardLabel}>Time spent</p>
                     </div>
                 </div>
+                <div
+                    className={`${styles.infoCard} ${styles.interruptionsCard}`}
+                    title={`${interruptionSummary.interruptions} interruptions (${interruptionSummary.internal} internal, ${interruptionSummary.external} external) in ${interruptionSummary.sessions} tracked sessions`}
+                >
+                    <div className={styles.infoCardLeftRow}>
+                        <span className={styles.infoCardIcon}>⏸️</span>
+                    </div>
+                    <div className={styles.infoCardRightRow}>
+                        <span className={styles.infoCardValue}>
+                            {interruptionSummary.sessions > 0
+                                ? (
+                                      interruptionSummary.interruptions /
+                                      interruptionSummary.sessions
+                                  ).toFixed(1)
+                                : '–'}
+                        </span>
+                        <p className={styles.infoCardLabel}>
+                            Interruptions / session
+                        </p>
+                    </div>
+                </div>
+                <div className={`${styles.infoCard} ${styles.pausedTimeCard}`}>
+                    <div className={styles.infoCardLeftRow}>
+                        <span className={styles.infoCardIcon}>⏳</span>
+                    </div>
+                    <div className={styles.infoCardRightRow}>
+                        <span className={styles.infoCardValue}>
+                            {formatTotalDuration(interruptionSummary.pausedTime)}
+                        </span>
+                        <p className={styles.infoCardLabel}>Paused time</p>
+                    </div>
+                </div>
+                <div
+                    className={`${styles.infoCard} ${styles.breaksCard}`}
+                    title={`${breakAdherence.taken} of ${breakAdherence.suggested} suggested breaks taken, ${breakAdherence.skipped} skipped, ${breakAdherence.stopped} stopped early`}
+                >
+                    <div className={styles.infoCardLeftRow}>
+                        <span className={styles.infoCardIcon}>☕</span>
+                    </div>
+                    <div className={styles.infoCardRightRow}>
+                        <span className={styles.infoCardValue}>
+                            {breakAdherence.ratio === null
+                                ? '–'
+                                : `${Math.round(breakAdherence.ratio * 100)}%`}
+                        </span>
+                        <p className={styles.infoCardLabel}>Breaks taken</p>
+                    </div>
+                </div>
+                <div
+                    className={`${styles.infoCard} ${styles.subtasksCard}`}
+                    title="Checklist items ticked during the pomodoros in this range"
+                >
+                    <div className={styles.infoCardLeftRow}>
+                        <span className={styles.infoCardIcon}>☑️</span>
+                    </div>
+                    <div className={styles.infoCardRightRow}>
+                        <span className={styles.infoCardValue}>{subtasksDone}</span>
+                        <p className={styles.infoCardLabel}>Subtasks done</p>
+                    </div>
+                </div>
+            </div>
+
+            <GoalsPanel
+                days={yearOfFocus}
+                streaks={streaks}
+                dailyGoal={settings.dailyPomodoroGoal}
+                weeklyFocusGoal={settings.weeklyFocusGoal}
+            />
+
+            <div className={styles.toolbar}>
+                <div
+                    className={styles.rangePicker}
+                    role="radiogroup"
+                    aria-label="Date range"
+                >
+                    {STATS_RANGE_PRESETS.map((preset) => (
+                        <button
+                            key={preset.value}
+                            role="radio"
+                            aria-checked={rangePreset === preset.value}
+                            className={`${styles.rangeButton} ${
+                                rangePreset === preset.value ? styles.rangeButtonActive : ''
+                            }`}
+                            onClick={() => handleRangePresetChange(preset.value)}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+                {rangePreset === 'custom' && (
+                    <div className={styles.customRange}>
+                        <input
+                            type="date"
+                            value={customFrom}
+                            max={customTo}
+                            onChange={(e) => setCustomFrom(e.target.value)}
+                            aria-label="From"
+                        />
+                        <span>–</span>
+                        <input
+                            type="date"
+                            value={customTo}
+                            min={customFrom}
+                            onChange={(e) => setCustomTo(e.target.value)}
+                            aria-label="To"
+                        />
+                    </div>
+                )}
+                <button
+                    className={styles.exportButton}
+                    onClick={handleExportCsv}
+                    disabled={isLoading || displayedTasks.length === 0}
+                >
+                    Export CSV
+                </button>
             </div>
 
+            {completedTasks.length > 0 && (
+                <>
+                    <FocusBarChart days={dailyFocus} categoryColors={categoryColors} />
+                    <CategoryBreakdown
+                        totals={categoryTotals}
+                        categoryColors={categoryColors}
+                    />
+                    <CategoryTable
+                        rows={categoryTotals}
+                        categoryColors={categoryColors}
+                        selectedKey={selectedCategoryKey}
+                        onSelect={handleSelectCategory}
+                    />
+                </>
+            )}
+            <CalendarHeatmap days={yearOfFocus} />
+            {timeline && (
+                <DayTimeline
+                    range={timeline.range}
+                    blocks={timeline.blocks}
+                    date={timelineDate}
+                    onDateChange={setTimelineDate}
+                />
+            )}
+
+            <TaskSearch version={tasksVersion + historyVersion} />
+            {selectedCategory && (
+                <div className={styles.categoryFilter}>
+                    Showing {selectedCategory.category} only
+                    <button
+                        className={styles.clearFilterButton}
+                        onClick={() => handleSelectCategory(null)}
+                        aria-label="Show all categories"
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
             <CompletedTasksList
-                tasks={completedTasks}
+                tasks={displayedTasks}
                 onRepeatTask={handleRepeatTask}
                 onEditCompletedTask={handleEditCompletedTask}
                 onDeleteCompletedTask={handleDeleteCompletedTask}
+                maxVisibleTasks={visibleTaskCount}
+                onShowMore={() =>
+                    setVisibleTaskCount((count) => count + VISIBLE_TASKS_STEP)
+                }
             />
+            {!isLoading && completedTasks.length === 0 && (
+                <p className={styles.emptyRange}>
+                    No pomodoros completed in this range.
+                </p>
+            )}
             {notification && (
                 <Notification
                     message={notification.message}
@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+    backupDB,
+    categoriesDB,
+    CATEGORIES_STORE,
+    COMPLETED_TASKS_STORE,
+    DB_MIGRATIONS,
+    initDB,
+    tasksDB,
+    TASKS_STORE,
+} from '../../utils/database';
+import { parseExportDocument, EXPORT_FORMAT } from '../../utils/backup';
+import type { Task } from '../../types';
+import { clearDatabase, EMPTY_SNAPSHOT, makeCompletedTask, makeTask } from '../factories';
+
+const DB_NAME = 'dev_PomodoroDB';
+
+/**
+ * Creates the database as it was at an older version, with some data in it.
+ */
+const createDatabaseAtVersion = (version: number, tasks: Task[], completedTasks: Task[]) =>
+    new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, version);
+        request.onupgradeneeded = () => {
+            const transaction = request.transaction as IDBTransaction;
+            for (let v = 1; v <= version; v++) {
+                DB_MIGRATIONS[v as keyof typeof DB_MIGRATIONS](request.result, transaction);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([TASKS_STORE, COMPLETED_TASKS_STORE], 'readwrite');
+            tasks.forEach(task => transaction.objectStore(TASKS_STORE).put(task));
+            completedTasks.forEach(task => transaction.objectStore(COMPLETED_TASKS_STORE).put(task));
+            transaction.oncomplete = () => {
+                db.close();
+                resolve();
+            };
+            transaction.onerror = () => reject(transaction.error);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+describe('Categories Database Integration', () => {
+    afterEach(async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+    });
+
+    describe('migration', () => {
+        test('should create categories for the names existing tasks use', async () => {
+            await indexedDB.deleteDatabase(DB_NAME);
+            await createDatabaseAtVersion(
+                4,
+                [makeTask('task-1', { category: 'Work' }), makeTask('task-2', { category: 'Study' })],
+                [
+                    makeCompletedTask('completed-1', 1000, { category: 'work' }),
+                    makeCompletedTask('completed-2', 2000, { category: 'Reading' }),
+                ]
+            );
+
+            const db = await initDB();
+            expect(db.objectStoreNames.contains(CATEGORIES_STORE)).toBe(true);
+            db.close();
+
+            const categories = await categoriesDB.getAll();
+            expect(categories.map(category => category.name)).toEqual(['Reading', 'Study', 'Work']);
+            expect(new Set(categories.map(category => category.color)).size).toBe(3);
+            expect(categories.every(category => !category.archived)).toBe(true);
+        });
+    });
+
+    describe('categoriesDB', () => {
+        beforeEach(async () => {
+            await clearDatabase();
+        });
+
+        test('should create a category when a task uses a new one', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Work' }));
+            await tasksDB.add(makeTask('task-2', { category: 'work' }));
+
+            const categories = await categoriesDB.getAll();
+            expect(categories.map(category => category.name)).toEqual(['Work']);
+        });
+
+        test('should rename a category and its tasks in both stores', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Wrok' }));
+            await backupDB.importAll(
+                { ...EMPTY_SNAPSHOT, completedTasks: [makeCompletedTask('completed-1', 1000, { category: 'wrok' })] },
+                'merge'
+            );
+            const [category] = await categoriesDB.getAll();
+
+            await categoriesDB.rename(category.id, ' Work ');
+
+            expect((await categoriesDB.getAll()).map(c => c.name)).toEqual(['Work']);
+            expect((await tasksDB.getAll())[0].category).toBe('Work');
+            expect((await tasksDB.getCompletedTasks())[0].category).toBe('Work');
+        });
+
+        test('should refuse to rename a category to the name of another one', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Work' }));
+            await tasksDB.add(makeTask('task-2', { category: 'Study' }));
+            const study = (await categoriesDB.getAll()).find(c => c.name === 'Study');
+
+            await expect(categoriesDB.rename(study!.id, 'WORK')).rejects.toThrow('already exists');
+            await expect(categoriesDB.rename(study!.id, '  ')).rejects.toThrow('cannot be empty');
+            expect((await tasksDB.get('task-2'))?.category).toBe('Study');
+        });
+
+        test('should merge one category into another across both task stores', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Work' }));
+            await tasksDB.add(makeTask('task-2', { category: 'Job' }));
+            await backupDB.importAll(
+                { ...EMPTY_SNAPSHOT, completedTasks: [makeCompletedTask('completed-1', 1000, { category: 'job' })] },
+                'merge'
+            );
+            const categories = await categoriesDB.getAll();
+            const job = categories.find(c => c.name === 'Job');
+            const work = categories.find(c => c.name === 'Work');
+
+            await categoriesDB.merge(job!.id, work!.id);
+
+            expect((await categoriesDB.getAll()).map(c => c.name)).toEqual(['Work']);
+            expect((await tasksDB.getAll()).map(task => task.category)).toEqual(['Work', 'Work']);
+            expect((await tasksDB.getCompletedTasks())[0].category).toBe('Work');
+        });
+
+        test('should leave everything untouched when merging an unknown category', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Work' }));
+            const [work] = await categoriesDB.getAll();
+
+            await expect(categoriesDB.merge('missing', work.id)).rejects.toThrow('Category not found');
+            await expect(categoriesDB.merge(work.id, work.id)).rejects.toThrow('into itself');
+            expect(await categoriesDB.getAll()).toHaveLength(1);
+        });
+
+        test('should save colour, emoji and archived state but not the name', async () => {
+            await tasksDB.add(makeTask('task-1', { category: 'Work' }));
+            const [work] = await categoriesDB.getAll();
+
+            await categoriesDB.update({ ...work, name: 'Other', color: '#000000', emoji: '💼', archived: true });
+
+            expect(await categoriesDB.getAll()).toEqual([
+                { ...work, color: '#000000', emoji: '💼', archived: true },
+            ]);
+        });
+    });
+
+    test('should create categories when upgrading an export from before categories', () => {
+        const document = parseExportDocument({
+            format: EXPORT_FORMAT,
+            schemaVersion: 4,
+            exportedAt: 0,
+            stores: {
+                tasks: [makeTask('task-1', { category: 'Work' })],
+                completedTasks: [makeCompletedTask('completed-1', 1000, { category: 'WORK' })],
+                settings: [],
+            },
+        });
+
+        expect(document.stores.categories.map(category => category.name)).toEqual(['Work']);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect, afterAll } from 'vitest';
+import { DEFAULT_KEY_BINDINGS } from '../../constants/commandConstants';
+import { initDB, settingsDB, SETTINGS_STORE } from '../../utils/database';
+import { fuzzyFilter, fuzzyScore } from '../../utils/fuzzySearch';
+import {
+    findCommandForCombo,
+    getKeyCombo,
+    getKeyComboParts,
+    shouldIgnoreHotkey,
+} from '../../utils/hotkeys';
+import type { KeyBindings } from '../../types';
+
+const keyEvent = (key: string, code: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+    key,
+    code,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...modifiers,
+});
+
+describe('Keyboard shortcuts and command palette', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should describe key presses as combos', () => {
+        expect(getKeyCombo(keyEvent('k', 'KeyK', { metaKey: true }))).toBe('Mod+K');
+        expect(getKeyCombo(keyEvent('k', 'KeyK', { ctrlKey: true }))).toBe('Mod+K');
+        // Letters come from the physical key, whatever Alt turns them into
+        expect(getKeyCombo(keyEvent('ß', 'KeyS', { altKey: true }))).toBe('Alt+S');
+        expect(getKeyCombo(keyEvent('S', 'KeyS', { shiftKey: true }))).toBe('Shift+S');
+        // "?" already means Shift was held
+        expect(getKeyCombo(keyEvent('?', 'Slash', { shiftKey: true }))).toBe('?');
+        expect(getKeyCombo(keyEvent(' ', 'Space'))).toBe('Space');
+        expect(getKeyCombo(keyEvent('ArrowDown', 'ArrowDown'))).toBe('ArrowDown');
+        expect(getKeyCombo(keyEvent('Shift', 'ShiftLeft', { shiftKey: true }))).toBeNull();
+    });
+
+    test('should show Ctrl or Cmd for Mod, and cope with the plus key', () => {
+        expect(getKeyComboParts('Mod+Shift+K', true)).toEqual(['⌘', 'Shift', 'K']);
+        expect(getKeyComboParts('Mod+K', false)).toEqual(['Ctrl', 'K']);
+        expect(getKeyComboParts('Mod++', false)).toEqual(['Ctrl', '+']);
+    });
+
+    test('should leave key presses in text fields and on buttons to them', () => {
+        const input = document.createElement('input');
+        const button = document.createElement('button');
+
+        expect(shouldIgnoreHotkey(input, 'N')).toBe(true);
+        expect(shouldIgnoreHotkey(input, 'Mod+K')).toBe(false);
+        // Fields keep their own undo
+        expect(shouldIgnoreHotkey(input, 'Mod+Z')).toBe(true);
+        expect(shouldIgnoreHotkey(document.body, 'Mod+Z')).toBe(false);
+        expect(shouldIgnoreHotkey(button, 'Space')).toBe(true);
+        expect(shouldIgnoreHotkey(button, 'S')).toBe(false);
+        expect(shouldIgnoreHotkey(document.body, 'Space')).toBe(false);
+    });
+
+    test('should find the command bound to a combo', () => {
+        const keyBindings: KeyBindings = { ...DEFAULT_KEY_BINDINGS, 'timer.skip': '' };
+
+        expect(findCommandForCombo(keyBindings, 'Mod+K')).toBe('palette.open');
+        expect(findCommandForCombo(keyBindings, 'S')).toBeNull();
+    });
+
+    test('should match the characters of a query in order', () => {
+        expect(fuzzyScore('nt', 'New task')).not.toBeNull();
+        expect(fuzzyScore('tn', 'New task')).toBeNull();
+        expect(fuzzyScore('', 'anything')).toBe(0);
+    });
+
+    test('should rank word starts and runs of characters first', () => {
+        const titles = ['Stop the timer', 'Go to Stats', 'Show keyboard shortcuts', 'Start or pause the timer'];
+
+        expect(fuzzyFilter(titles, 'stats', title => title)[0]).toBe('Go to Stats');
+        // Equally good matches go to the shorter title
+        expect(fuzzyFilter(titles, 'timer', title => title)).toEqual([
+            'Stop the timer',
+            'Start or pause the timer',
+        ]);
+        expect(fuzzyFilter(titles, '', title => title)).toEqual(titles);
+    });
+
+    test('should store key bindings and reject incomplete ones', async () => {
+        const keyBindings = { ...DEFAULT_KEY_BINDINGS, 'timer.toggle': 'P' };
+        await settingsDB.set('keyBindings', keyBindings);
+
+        expect(await settingsDB.get('keyBindings')).toEqual(keyBindings);
+        await expect(
+            settingsDB.set('keyBindings', { 'timer.toggle': 'P' } as KeyBindings)
+        ).rejects.toThrow();
+    });
+
+    test('should give commands added since bindings were saved their default keys', async () => {
+        // Saved before undo and redo were added
+        const savedBindings = Object.fromEntries(
+            Object.entries({ ...DEFAULT_KEY_BINDINGS, 'timer.toggle': 'P' }).filter(
+                ([commandId]) => commandId !== 'task.undo' && commandId !== 'task.redo'
+            )
+        );
+        const db = await initDB();
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+            transaction.objectStore(SETTINGS_STORE).put({ id: 'keyBindings', value: savedBindings, version: 1 });
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+
+        expect(await settingsDB.get('keyBindings')).toEqual({
+            ...DEFAULT_KEY_BINDINGS,
+            'timer.toggle': 'P',
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { backupDB, tasksDB } from '../../utils/database';
+import { getStatsRange, parseDateInput } from '../../utils/dateRanges';
+import type { CompletedTasksCursor, Task } from '../../types';
+import { clearDatabase, EMPTY_SNAPSHOT, makeCompletedTask } from '../factories';
+
+const HOUR = 60 * 60 * 1000;
+
+const addCompletedTasks = (tasks: Task[]) =>
+    backupDB.importAll({ ...EMPTY_SNAPSHOT, completedTasks: tasks }, 'merge');
+
+describe('Completed tasks range queries', () => {
+    const base = new Date(2024, 2, 10).getTime();
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    beforeEach(async () => {
+        await clearDatabase();
+    });
+
+    test('should return tasks in [from, to) newest first', async () => {
+        await addCompletedTasks([
+            makeCompletedTask('before', base - 1),
+            makeCompletedTask('start', base),
+            makeCompletedTask('middle', base + HOUR),
+            makeCompletedTask('end', base + 2 * HOUR),
+        ]);
+
+        const { tasks, nextCursor } = await tasksDB.getCompletedTasksInRange(base, base + 2 * HOUR);
+
+        expect(tasks.map(task => task.id)).toEqual(['middle', 'start']);
+        expect(nextCursor).toBeNull();
+    });
+
+    test('should page through a range without skipping or repeating tasks', async () => {
+        // Several tasks share an endTime to exercise the cursor tie-break
+        const stored = [
+            ...Array.from({ length: 7 }, (_, i) => makeCompletedTask(`task-${i}`, base + i * HOUR)),
+            makeCompletedTask('same-a', base + 3 * HOUR),
+            makeCompletedTask('same-b', base + 3 * HOUR),
+        ];
+        await addCompletedTasks(stored);
+
+        const seen: string[] = [];
+        let cursor: CompletedTasksCursor | null = null;
+        let pages = 0;
+        do {
+            const page = await tasksDB.getCompletedTasksInRange(base, base + 24 * HOUR, { limit: 2, cursor });
+            expect(page.tasks.length).toBeLessThanOrEqual(2);
+            seen.push(...page.tasks.map(task => task.id));
+            cursor = page.nextCursor;
+            pages++;
+        } while (cursor);
+
+        expect(pages).toBe(5);
+        expect([...seen].sort()).toEqual(stored.map(task => task.id).sort());
+        const endTimes = seen.map(id => stored.find(task => task.id === id)?.endTime ?? 0);
+        expect(endTimes).toEqual([...endTimes].sort((a, b) => b - a));
+    });
+
+    test('should return nothing for an empty or inverted range', async () => {
+        await addCompletedTasks([makeCompletedTask('task', base)]);
+
+        expect((await tasksDB.getCompletedTasksInRange(base, base)).tasks).toEqual([]);
+        expect((await tasksDB.getCompletedTasksInRange(base + HOUR, base)).tasks).toEqual([]);
+    });
+
+    test("should only return today's tasks for the today query", async () => {
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        await addCompletedTasks([
+            makeCompletedTask('yesterday', startOfToday.getTime() - 1),
+            makeCompletedTask('today', startOfToday.getTime() + 1),
+        ]);
+
+        const tasks = await tasksDB.getCompletedTasksForToday();
+
+        expect(tasks.map(task => task.id)).toEqual(['today']);
+    });
+});
+
+describe('Stats range presets', () => {
+    // Wednesday 13 March 2024, mid-afternoon
+    const now = new Date(2024, 2, 13, 15, 30).getTime();
+    const tomorrow = new Date(2024, 2, 14).getTime();
+
+    test('should cover today', () => {
+        expect(getStatsRange('today', now)).toEqual({ from: new Date(2024, 2, 13).getTime(), to: tomorrow });
+    });
+
+    test('should start the week on Monday', () => {
+        expect(getStatsRange('week', now)).toEqual({ from: new Date(2024, 2, 11).getTime(), to: tomorrow });
+    });
+
+    test('should start the month on the first', () => {
+        expect(getStatsRange('month', now)).toEqual({ from: new Date(2024, 2, 1).getTime(), to: tomorrow });
+    });
+
+    test('should cover the last 30 days including today', () => {
+        expect(getStatsRange('last30Days', now)).toEqual({ from: new Date(2024, 1, 13).getTime(), to: tomorrow });
+    });
+
+    test('should include both picked days of a custom range', () => {
+        const fromDay = parseDateInput('2024-01-05') as number;
+        const toDay = parseDateInput('2024-01-07') as number;
+
+        expect(getStatsRange('custom', now, { fromDay, toDay })).toEqual({
+            from: new Date(2024, 0, 5).getTime(),
+            to: new Date(2024, 0, 8).getTime(),
+        });
+    });
+
+    test('should reject malformed date input values', () => {
+        expect(parseDateInput('')).toBeNull();
+        expect(parseDateInput('05/01/2024')).toBeNull();
+    });
+});
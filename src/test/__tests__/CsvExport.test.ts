@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import {
+    COMPLETED_TASKS_CSV_HEADERS,
+    createCompletedTasksCsv,
+    escapeCsvField,
+    parseOriginalTaskId,
+} from '../../utils/csvExport';
+import type { Task } from '../../types';
+import { makeCompletedTask } from '../factories';
+
+// The 'Write report' pomodoro of task-1, ended at 10:25 UTC on 15 January 2024
+const makeReportPomodoro = (overrides: Partial<Task>): Task =>
+    makeCompletedTask('completed-task-1-1700000000000', Date.UTC(2024, 0, 15, 10, 25), {
+        description: 'Write report',
+        ...overrides,
+    });
+
+describe('Completed tasks CSV export', () => {
+    const originalTimeZone = process.env.TZ;
+
+    beforeAll(() => {
+        process.env.TZ = 'UTC';
+    });
+
+    afterAll(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    test('should only contain the header row when there are no tasks', () => {
+        expect(createCompletedTasksCsv([])).toBe(COMPLETED_TASKS_CSV_HEADERS.join(','));
+    });
+
+    test('should write one row per completed pomodoro', () => {
+        const csv = createCompletedTasksCsv([makeReportPomodoro({})]);
+
+        expect(csv.split('\r\n')).toEqual([
+            'Category,Description,Start time,End time,Duration (minutes),Task id,Notes',
+            'Work,Write report,2024-01-15 10:00:00,2024-01-15 10:25:00,25,task-1,',
+        ]);
+    });
+
+    test('should start a paused pomodoro when it was started, not its duration before the end', () => {
+        const csv = createCompletedTasksCsv([
+            makeReportPomodoro({ startTime: Date.UTC(2024, 0, 15, 9, 50) }),
+        ]);
+
+        expect(csv.split('\r\n')[1].split(',')[2]).toBe('2024-01-15 09:50:00');
+    });
+
+    test('should order rows from oldest to newest', () => {
+        const csv = createCompletedTasksCsv([
+            makeReportPomodoro({ description: 'Later', endTime: Date.UTC(2024, 0, 16, 9) }),
+            makeReportPomodoro({ description: 'Earlier', endTime: Date.UTC(2024, 0, 15, 9) }),
+        ]);
+
+        const descriptions = csv.split('\r\n').slice(1).map((row) => row.split(',')[1]);
+        expect(descriptions).toEqual(['Earlier', 'Later']);
+    });
+
+    test('should keep the notes of a task, line breaks included', () => {
+        const csv = createCompletedTasksCsv([
+            makeReportPomodoro({ notes: 'Blocked on **API review**\nSee [PP-12](https://example.com/PP-12)' }),
+        ]);
+
+        expect(csv.endsWith(',"Blocked on **API review**\nSee [PP-12](https://example.com/PP-12)"')).toBe(true);
+    });
+
+    test('should keep partial minutes of edited durations', () => {
+        const csv = createCompletedTasksCsv([makeReportPomodoro({ duration: 90 * 1000 })]);
+
+        expect(csv.split('\r\n')[1].split(',')[4]).toBe('1.5');
+    });
+
+    test('should quote fields containing commas, quotes and line breaks', () => {
+        const csv = createCompletedTasksCsv([
+            makeReportPomodoro({ category: 'Admin, misc', description: 'Say "hi"\nthen leave' }),
+        ]);
+
+        expect(csv).toContain('"Admin, misc","Say ""hi""\nthen leave"');
+    });
+
+    test('should neutralise values a spreadsheet would run as a formula', () => {
+        expect(escapeCsvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+        expect(escapeCsvField('-1')).toBe("'-1");
+        expect(escapeCsvField('Plain text')).toBe('Plain text');
+    });
+
+    test('should parse the original task id from completed pomodoro ids', () => {
+        expect(parseOriginalTaskId('completed-abc-1700000000000')).toBe('abc');
+        // uuids contain dashes themselves
+        expect(
+            parseOriginalTaskId('completed-3f2b8c1e-9d4a-4f6b-8e2a-1c5d7e9f0a1b-1700000000000')
+        ).toBe('3f2b8c1e-9d4a-4f6b-8e2a-1c5d7e9f0a1b');
+        // Made unique when saved, as another pomodoro had the same id
+        expect(parseOriginalTaskId('completed-abc-1700000000000_1700000000500')).toBe('abc');
+        expect(parseOriginalTaskId('imported-record')).toBe('');
+    });
+});
@@ -0,0 +1,211 @@
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import {
+    DB_MIGRATIONS,
+    settingsDB,
+    tasksDB,
+    timerStateDB,
+} from '../../utils/database';
+import {
+    EXPORT_FORMAT,
+    EXPORT_UPGRADES,
+    exportData,
+    importData,
+    parseExportDocument,
+} from '../../utils/backup';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import { clearDatabase, EMPTY_SNAPSHOT, makeCompletedTask, makeTask } from '../factories';
+
+describe('Data export and import', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    beforeEach(async () => {
+        await clearDatabase();
+        await timerStateDB.clear();
+    });
+
+    test('should export every task, completed task and setting', async () => {
+        await tasksDB.add(makeTask('task-1', { order: 0, pomodoros: 2 }));
+        await tasksDB.completeOnePomodoro('task-1', makeCompletedTask('completed-task-1-1', 1000));
+        await settingsDB.set('addTasksToBottom', true);
+
+        const document = await exportData();
+
+        expect(document.format).toBe(EXPORT_FORMAT);
+        expect(document.schemaVersion).toBe(Math.max(...Object.keys(DB_MIGRATIONS).map(Number)));
+        expect(document.stores.tasks).toHaveLength(1);
+        expect(document.stores.completedTasks.map(task => task.id)).toEqual(['completed-task-1-1']);
+        expect(document.stores.settings).toContainEqual({ id: 'addTasksToBottom', value: true, version: 1 });
+    });
+
+    test('should restore an export after the data was cleared', async () => {
+        await tasksDB.add(makeTask('task-1', { order: 0 }));
+        await tasksDB.add(makeTask('task-2', { order: 1 }));
+        await settingsDB.set('addTasksToBottom', true);
+        const document = JSON.parse(JSON.stringify(await exportData()));
+
+        await clearDatabase();
+        await importData(document, 'replace');
+
+        expect((await tasksDB.getAll()).map(task => task.id)).toEqual(['task-1', 'task-2']);
+        expect(await settingsDB.get('addTasksToBottom')).toBe(true);
+    });
+
+    test('should remove data missing from the file when replacing', async () => {
+        await tasksDB.add(makeTask('old-task', { order: 0 }));
+        const document = {
+            format: EXPORT_FORMAT,
+            schemaVersion: 4,
+            exportedAt: 0,
+            stores: { ...EMPTY_SNAPSHOT, tasks: [makeTask('new-task', { order: 0 })] },
+        };
+
+        const summary = await importData(document, 'replace');
+
+        expect(summary.stores.tasks).toEqual({ added: 1, updated: 0, removed: 1 });
+        expect((await tasksDB.getAll()).map(task => task.id)).toEqual(['new-task']);
+    });
+
+    test('should upsert by id and keep existing data when merging', async () => {
+        await tasksDB.add(makeTask('task-1', { order: 0 }));
+        await tasksDB.add(makeTask('task-2', { order: 1 }));
+        const document = {
+            format: EXPORT_FORMAT,
+            schemaVersion: 4,
+            exportedAt: 0,
+            stores: {
+                tasks: [makeTask('task-2', { order: 0, description: 'Imported' }), makeTask('task-3', { order: 1 })],
+                completedTasks: [],
+                settings: [],
+                categories: [],
+            },
+        };
+
+        const summary = await importData(document, 'merge');
+
+        expect(summary.stores.tasks).toEqual({ added: 1, updated: 1, removed: 0 });
+        const tasks = await tasksDB.getAll();
+        expect(tasks.map(task => task.id)).toEqual(['task-1', 'task-2', 'task-3']);
+        expect(tasks.find(task => task.id === 'task-2')?.description).toBe('Imported');
+    });
+
+    test('should not write anything on a dry run', async () => {
+        await tasksDB.add(makeTask('task-1', { order: 0 }));
+        const document = {
+            format: EXPORT_FORMAT,
+            schemaVersion: 4,
+            exportedAt: 0,
+            stores: { ...EMPTY_SNAPSHOT, tasks: [makeTask('task-2', { order: 0 })] },
+        };
+
+        const summary = await importData(document, 'dry-run');
+
+        expect(summary.stores.tasks).toEqual({ added: 1, updated: 0, removed: 0 });
+        expect((await tasksDB.getAll()).map(task => task.id)).toEqual(['task-1']);
+    });
+
+    test('should leave the database untouched when the file is invalid', async () => {
+        await tasksDB.add(makeTask('task-1', { order: 0 }));
+
+        await expect(importData({ format: 'something-else' }, 'replace')).rejects.toThrow(
+            'not a Pomodoro Panda export'
+        );
+        await expect(
+            importData({ format: EXPORT_FORMAT, schemaVersion: 4, stores: { tasks: [{}] } }, 'replace')
+        ).rejects.toThrow('Invalid export file');
+
+        expect(await tasksDB.getAll()).toHaveLength(1);
+    });
+
+    test('should reject records missing the fields the app reads', () => {
+        const parseTasks = (tasks: unknown[]) =>
+            parseExportDocument({
+                format: EXPORT_FORMAT,
+                schemaVersion: 10,
+                exportedAt: 0,
+                stores: { ...EMPTY_SNAPSHOT, tasks },
+            });
+
+        expect(() => parseTasks([makeTask('task-1')])).not.toThrow();
+        expect(() => parseTasks([makeTask('task-1', { category: 7 as unknown as string })])).toThrow(
+            '"category" of "tasks" record "task-1" must be a string'
+        );
+        expect(() => parseTasks([{ ...makeTask('task-2'), pomodoros: undefined }])).toThrow(
+            '"pomodoros" of "tasks" record "task-2" must be a number'
+        );
+    });
+
+    test('should reject exports from an unknown or newer schema version', () => {
+        const stores = EMPTY_SNAPSHOT;
+
+        expect(() => parseExportDocument({ format: EXPORT_FORMAT, schemaVersion: 999, stores })).toThrow(
+            'Unsupported export schema version'
+        );
+        expect(() => parseExportDocument({ format: EXPORT_FORMAT, schemaVersion: 0, stores })).toThrow(
+            'Unsupported export schema version'
+        );
+    });
+
+    test('should upgrade exports from older schema versions', () => {
+        const document = parseExportDocument({
+            format: EXPORT_FORMAT,
+            schemaVersion: 1,
+            exportedAt: 0,
+            stores: { tasks: [makeTask('task-1', { order: 0 })] },
+        });
+
+        expect(document.stores.tasks).toHaveLength(1);
+        expect(document.stores.completedTasks).toEqual([]);
+        expect(document.stores.settings).toEqual([]);
+    });
+
+    test('should drop settings that are no longer registered', () => {
+        const document = parseExportDocument({
+            format: EXPORT_FORMAT,
+            schemaVersion: 4,
+            exportedAt: 0,
+            stores: {
+                tasks: [],
+                completedTasks: [],
+                settings: [{ id: 'retiredSetting', value: 1 }, { id: 'addTasksToBottom', value: true }],
+            },
+        });
+
+        expect(document.stores.settings.map(setting => setting.id)).toEqual(['addTasksToBottom']);
+    });
+
+    test('should not include the running timer in exports', async () => {
+        await timerStateDB.set({
+            timeLeft: 1000,
+            isRunning: true,
+            hasStarted: true,
+            timerType: TIMER_TYPES.WORK,
+            activeTaskId: null,
+            selectedTaskId: null,
+            startTime: 0,
+            sessionStartTime: 0,
+            sessionDuration: 1000,
+            expectedEndTime: 1000,
+            sessionsCompleted: 0,
+            hasCompleted: false,
+            interruptions: [],
+            currentInterruption: null,
+            breakExtension: 0,
+            sequenceId: null,
+            segmentIndex: 0,
+        });
+
+        const document = await exportData();
+
+        expect(Object.keys(document.stores).sort()).toEqual(['categories', 'completedTasks', 'sequences', 'sessions', 'settings', 'tasks']);
+    });
+
+    test('should have an export upgrade for every database migration', () => {
+        const versions = Object.keys(DB_MIGRATIONS).map(Number).filter(version => version > 1);
+
+        versions.forEach(version => {
+            expect(EXPORT_UPGRADES[version]).toBeTypeOf('function');
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect, afterEach, afterAll } from 'vitest';
+import { calculateStreaks, countPomodorosByDay, getWeeklyGoalProgress } from '../../utils/goals';
+import { aggregateFocusByDay } from '../../utils/statsAggregation';
+import { backupDB, tasksDB } from '../../utils/database';
+import { EMPTY_SNAPSHOT, makeCompletedTask, MINUTE } from '../factories';
+
+/**
+ * Two pomodoros at the given hour on each listed day of March 2024.
+ */
+const pomodorosOnMarchDays = (days: number[], hour = 12) =>
+    days.flatMap(day => [new Date(2024, 2, day, hour).getTime(), new Date(2024, 2, day, hour, 30).getTime()]);
+
+describe('Goals and streaks', () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should only count days that reach the daily goal', () => {
+        const endTimes = [...pomodorosOnMarchDays([10, 11, 12]), new Date(2024, 2, 13, 9).getTime()];
+
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 2, 13, 18).getTime())).toEqual({
+            current: 3,
+            longest: 3,
+        });
+        expect(calculateStreaks(endTimes, 3, new Date(2024, 2, 13, 18).getTime())).toEqual({
+            current: 0,
+            longest: 0,
+        });
+    });
+
+    test('should keep the current streak going until today is over', () => {
+        const endTimes = pomodorosOnMarchDays([10, 11, 12]);
+
+        // Today's goal is not reached yet, so the streak still runs up to yesterday
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 2, 13, 8).getTime()).current).toBe(3);
+        // A whole day without reaching the goal ends it
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 2, 14, 8).getTime())).toEqual({
+            current: 0,
+            longest: 3,
+        });
+    });
+
+    test('should track the longest streak separately from the current one', () => {
+        const endTimes = pomodorosOnMarchDays([1, 2, 3, 4, 8, 9]);
+
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 2, 9, 20).getTime())).toEqual({
+            current: 2,
+            longest: 4,
+        });
+    });
+
+    test('should split days exactly at local midnight', () => {
+        const midnight = new Date(2024, 2, 11).getTime();
+        const endTimes = [midnight - 1, midnight, midnight + 1];
+
+        const counts = countPomodorosByDay(endTimes);
+
+        expect(counts.get(new Date(2024, 2, 10).getTime())).toBe(1);
+        expect(counts.get(midnight)).toBe(2);
+        // One pomodoro each side of midnight does not make a day of two
+        expect(calculateStreaks([midnight - 1, midnight], 2, midnight + MINUTE)).toEqual({
+            current: 0,
+            longest: 0,
+        });
+    });
+
+    test('should keep streaks going across the clocks going forward', () => {
+        process.env.TZ = 'Europe/London';
+        // 31 March 2024 is only 23 hours long in London
+        const endTimes = [
+            ...pomodorosOnMarchDays([30, 31], 23),
+            new Date(2024, 3, 1, 0, 10).getTime(),
+            new Date(2024, 3, 1, 23, 50).getTime(),
+        ];
+
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 3, 1, 23, 55).getTime())).toEqual({
+            current: 3,
+            longest: 3,
+        });
+    });
+
+    test('should keep streaks going across the clocks going back', () => {
+        process.env.TZ = 'America/New_York';
+        // 3 November 2024 is 25 hours long in New York
+        const endTimes = [
+            new Date(2024, 10, 2, 23, 30).getTime(),
+            new Date(2024, 10, 2, 23, 59).getTime(),
+            new Date(2024, 10, 3, 0, 1).getTime(),
+            new Date(2024, 10, 3, 23, 59).getTime(),
+            new Date(2024, 10, 4, 0, 0).getTime(),
+            new Date(2024, 10, 4, 1, 0).getTime(),
+        ];
+
+        expect(countPomodorosByDay(endTimes).size).toBe(3);
+        expect(calculateStreaks(endTimes, 2, new Date(2024, 10, 4, 12).getTime())).toEqual({
+            current: 3,
+            longest: 3,
+        });
+    });
+
+    test('should sum focus into Monday-started weeks and check the goals', () => {
+        // Sunday 10 to Tuesday 19 March 2024
+        const range = { from: new Date(2024, 2, 10).getTime(), to: new Date(2024, 2, 20).getTime() };
+        const days = aggregateFocusByDay(
+            [
+                makeCompletedTask('a', new Date(2024, 2, 10, 23, 59).getTime(), { duration: 60 * MINUTE }),
+                makeCompletedTask('b', new Date(2024, 2, 11, 0, 0).getTime(), { duration: 50 * MINUTE }),
+                makeCompletedTask('c', new Date(2024, 2, 11, 9).getTime(), { duration: 50 * MINUTE }),
+                makeCompletedTask('d', new Date(2024, 2, 18, 9).getTime(), { duration: 25 * MINUTE }),
+            ],
+            range
+        );
+
+        const weeks = getWeeklyGoalProgress(days, 100, 2);
+
+        expect(weeks).toEqual([
+            { weekStart: new Date(2024, 2, 4).getTime(), minutes: 60, daysMeetingDailyGoal: 0, met: false },
+            { weekStart: new Date(2024, 2, 11).getTime(), minutes: 100, daysMeetingDailyGoal: 1, met: true },
+            { weekStart: new Date(2024, 2, 18).getTime(), minutes: 25, daysMeetingDailyGoal: 0, met: false },
+        ]);
+    });
+
+    test('should read completion times oldest first from the endTime index', async () => {
+        await backupDB.importAll(
+            {
+                ...EMPTY_SNAPSHOT,
+                completedTasks: [makeCompletedTask('late', 3000), makeCompletedTask('early', 1000)],
+            },
+            'replace'
+        );
+
+        expect(await tasksDB.getCompletionTimes()).toEqual([1000, 3000]);
+    });
+});
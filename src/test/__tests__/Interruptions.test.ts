@@ -0,0 +1,85 @@
+import { describe, test, expect, afterAll } from 'vitest';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import { tasksDB } from '../../utils/database';
+import {
+    endInterruption,
+    getSessionInterruptions,
+    summarizeInterruptions,
+} from '../../utils/interruptions';
+import type { TimerState } from '../../types';
+import { clearDatabase, makeCompletedTask, makeTask, MINUTE } from '../factories';
+
+const pausedState: TimerState = {
+    timeLeft: 50 * MINUTE,
+    isRunning: false,
+    hasStarted: true,
+    timerType: TIMER_TYPES.WORK,
+    activeTaskId: 'task-1',
+    selectedTaskId: null,
+    startTime: 0,
+    sessionStartTime: 0,
+    sessionDuration: null,
+    expectedEndTime: undefined,
+    sessionsCompleted: 0,
+    hasCompleted: false,
+    interruptions: [{ pausedAt: 10 * MINUTE, duration: 5 * MINUTE, reason: 'internal' }],
+    currentInterruption: { pausedAt: 40 * MINUTE, reason: 'external' },
+    breakExtension: 0,
+    sequenceId: null,
+    segmentIndex: 0,
+};
+
+describe('Interruptions', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should measure a pause from when it started until it ended', () => {
+        expect(endInterruption({ pausedAt: 1000, reason: 'internal' }, 61_000)).toEqual({
+            pausedAt: 1000,
+            duration: 60_000,
+            reason: 'internal',
+        });
+        expect(endInterruption({ pausedAt: 1000 }, 500).duration).toBe(0);
+    });
+
+    test('should close a pause still in progress when the session ends', () => {
+        expect(getSessionInterruptions(pausedState, 80 * MINUTE)).toEqual([
+            { pausedAt: 10 * MINUTE, duration: 5 * MINUTE, reason: 'internal' },
+            { pausedAt: 40 * MINUTE, duration: 40 * MINUTE, reason: 'external' },
+        ]);
+        expect(
+            getSessionInterruptions({ ...pausedState, currentInterruption: null }, 80 * MINUTE)
+        ).toEqual(pausedState.interruptions);
+    });
+
+    test('should total interruptions and skip records from before tracking', () => {
+        const summary = summarizeInterruptions([
+            makeCompletedTask('clean', 100 * MINUTE, { interruptions: [] }),
+            makeCompletedTask('interrupted', 100 * MINUTE, {
+                interruptions: getSessionInterruptions(pausedState, 80 * MINUTE),
+            }),
+            makeCompletedTask('untracked', 100 * MINUTE),
+        ]);
+
+        expect(summary).toEqual({
+            sessions: 2,
+            interruptions: 2,
+            internal: 1,
+            external: 1,
+            pausedTime: 45 * MINUTE,
+        });
+    });
+
+    test('should keep interruptions on the completed pomodoro record', async () => {
+        await clearDatabase();
+        await tasksDB.add(makeTask('task-1', { pomodoros: 2 }));
+
+        const completed = makeCompletedTask('completed-task-1-6000000', 100 * MINUTE, {
+            interruptions: pausedState.interruptions,
+        });
+        await tasksDB.completeOnePomodoro('task-1', completed);
+
+        expect((await tasksDB.getCompletedTasks())[0].interruptions).toEqual(pausedState.interruptions);
+    });
+});
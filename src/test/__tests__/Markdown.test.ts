@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { getNotesPreview, renderMarkdown } from '../../utils/markdown';
+
+describe('Markdown notes', () => {
+    test('should render inline formatting', () => {
+        expect(renderMarkdown('**Blocked** on *API* review, ~~today~~ `v2`')).toBe(
+            '<p><strong>Blocked</strong> on <em>API</em> review, <del>today</del> <code>v2</code></p>'
+        );
+        // Underscores inside words are not emphasis
+        expect(renderMarkdown('Rename snake_case_name')).toBe('<p>Rename snake_case_name</p>');
+    });
+
+    test('should render headings, lists, quotes and code blocks', () => {
+        const html = renderMarkdown(
+            ['# Plan', '- one', '- two', '', '1. first', '> quoted', '```', '<b>raw</b>', '```'].join('\n')
+        );
+
+        expect(html).toBe(
+            '<h1>Plan</h1>' +
+                '<ul><li>one</li><li>two</li></ul>' +
+                '<ol><li>first</li></ol>' +
+                '<blockquote>quoted</blockquote>' +
+                '<pre><code>&lt;b&gt;raw&lt;/b&gt;</code></pre>'
+        );
+    });
+
+    test('should keep line breaks within a paragraph', () => {
+        expect(renderMarkdown('first\nsecond\n\nthird')).toBe('<p>first<br>second</p><p>third</p>');
+    });
+
+    test('should link web and mail addresses', () => {
+        expect(renderMarkdown('See [PP-12](https://example.com/PP-12?a=1&b=2)')).toBe(
+            '<p>See <a href="https://example.com/PP-12?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">PP-12</a></p>'
+        );
+        expect(renderMarkdown('Ticket: https://example.com/PP-12.')).toBe(
+            '<p>Ticket: <a href="https://example.com/PP-12" target="_blank" rel="noopener noreferrer">https://example.com/PP-12</a>.</p>'
+        );
+        expect(renderMarkdown('[Ask](mailto:team@example.com)')).toContain('href="mailto:team@example.com"');
+    });
+
+    test('should escape HTML rather than render it', () => {
+        expect(renderMarkdown('<script>alert(1)</script>')).toBe(
+            '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+        );
+        expect(renderMarkdown('<img src=x onerror="alert(1)">')).not.toContain('<img');
+    });
+
+    test('should not link unsafe URLs or let them break out of the link', () => {
+        expect(renderMarkdown('[click](javascript:alert(1))')).not.toContain('<a');
+        expect(renderMarkdown('[click](data:text/html,<script>)')).not.toContain('<a');
+
+        const html = renderMarkdown('[click](https://example.com/"onmouseover="alert(1))');
+        expect(html).not.toContain('"onmouseover');
+        expect(html).toContain('&quot;onmouseover=&quot;');
+    });
+
+    test('should preview the first line without Markdown markers', () => {
+        expect(getNotesPreview('\n## **Blocked** on [review](https://example.com)\nmore')).toBe(
+            'Blocked on review'
+        );
+        expect(getNotesPreview('')).toBe('');
+    });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { act, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { OVERTIME_MESSAGE, TIMER_TYPES } from '../../constants/timerConstants';
+import { settingsDB, tasksDB, timerStateDB } from '../../utils/database';
+import { clearDatabase, makeTask, makeTimerState, MINUTE } from '../factories';
+import { renderHome } from '../renderHome';
+import { renderTimerContext } from '../renderTimerContext';
+
+// Moves the clock on and runs the next frame of the countdown
+const passTime = (ms: number) =>
+    act(() => {
+        vi.setSystemTime(Date.now() + ms);
+        vi.advanceTimersToNextFrame();
+    });
+
+// To the second, as waiting for the next frame adds a few milliseconds
+const inMinutes = (ms: number | null) => Math.round((ms ?? 0) / 1000) / 60;
+
+describe('Overtime', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    describe('timer', () => {
+        beforeEach(() => {
+            // IndexedDB runs on setImmediate, which is left real
+            vi.useFakeTimers({ toFake: ['Date', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        test('should end a work session at zero without overtime', () => {
+            const { result, onComplete } = renderTimerContext();
+
+            act(() => result.current.startTimer(makeTask('a')));
+            passTime(26 * MINUTE);
+
+            expect(onComplete).toHaveBeenCalledTimes(1);
+            expect(result.current.state).toMatchObject({
+                timeLeft: 0,
+                isRunning: false,
+                hasCompleted: true,
+            });
+        });
+
+        test('should count a work session on past zero until it is marked done', () => {
+            const { result, onComplete } = renderTimerContext({ allowOvertime: true });
+
+            act(() => result.current.startTimer(makeTask('a')));
+            passTime(30 * MINUTE);
+
+            expect(onComplete).not.toHaveBeenCalled();
+            expect(inMinutes(result.current.state.timeLeft)).toBe(-5);
+            expect(result.current.state).toMatchObject({ isRunning: true, hasCompleted: false });
+        });
+
+        test('should still end breaks at zero', () => {
+            const { result, onComplete } = renderTimerContext({ allowOvertime: true });
+
+            act(() => result.current.startBreak(TIMER_TYPES.BREAK));
+            passTime(6 * MINUTE);
+
+            expect(onComplete).toHaveBeenCalledTimes(1);
+            expect(result.current.state.timeLeft).toBe(0);
+        });
+
+        test('should lengthen the next break by the overtime, scaled to the break', () => {
+            const { result } = renderTimerContext({
+                allowOvertime: true,
+                extendBreaksAfterOvertime: true,
+            });
+
+            act(() => result.current.startTimer(makeTask('a')));
+            passTime(35 * MINUTE);
+            act(() => result.current.switchTimer());
+
+            // 10 minutes over a 25-minute pomodoro earn 10 * 5 / 25 more minutes of break
+            const { state } = result.current;
+            expect(state.timerType).toBe(TIMER_TYPES.BREAK);
+            expect(inMinutes(state.breakExtension)).toBe(2);
+            expect(inMinutes(state.timeLeft)).toBe(7);
+
+            act(() => result.current.startBreak(TIMER_TYPES.BREAK));
+            expect(inMinutes(result.current.state.sessionDuration)).toBe(7);
+        });
+
+        test('should keep the usual break when breaks are not extended', () => {
+            const { result } = renderTimerContext({ allowOvertime: true });
+
+            act(() => result.current.startTimer(makeTask('a')));
+            passTime(35 * MINUTE);
+            act(() => result.current.switchTimer());
+
+            expect(result.current.state).toMatchObject({ breakExtension: 0, timeLeft: 5 * MINUTE });
+        });
+
+        test('should wait for the settings before ending a session at zero', () => {
+            const { result, rerender, onComplete } = renderTimerContext({ isLoadingSettings: true });
+
+            act(() => result.current.startTimer(makeTask('a')));
+            passTime(26 * MINUTE);
+
+            expect(onComplete).not.toHaveBeenCalled();
+            expect(result.current.state).toMatchObject({ timeLeft: 0, isRunning: true });
+
+            // The settings turn out to allow overtime
+            rerender({ allowOvertime: true });
+            act(() => vi.advanceTimersToNextFrame());
+
+            expect(onComplete).not.toHaveBeenCalled();
+            expect(inMinutes(result.current.state.timeLeft)).toBe(-1);
+        });
+    });
+
+    describe('home page', () => {
+        const NotificationMock = Object.assign(vi.fn(), {
+            permission: 'granted',
+            requestPermission: vi.fn(),
+        });
+
+        beforeEach(async () => {
+            vi.stubGlobal('Notification', NotificationMock);
+            NotificationMock.mockClear();
+            await clearDatabase();
+            await settingsDB.set('overtimeMode', true);
+            await tasksDB.add(makeTask('a', { pomodoros: 2 }));
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        test('should carry on a restored pomodoro past zero and record the overtime once done', async () => {
+            const startTime = Date.now() - 95 * MINUTE;
+            await timerStateDB.set(
+                makeTimerState({
+                    timeLeft: 90 * MINUTE,
+                    isRunning: true,
+                    hasStarted: true,
+                    activeTaskId: 'a',
+                    startTime,
+                    sessionStartTime: startTime,
+                    sessionDuration: 90 * MINUTE,
+                    expectedEndTime: startTime + 90 * MINUTE,
+                })
+            );
+
+            renderHome();
+
+            await screen.findByText(OVERTIME_MESSAGE);
+            expect(NotificationMock).toHaveBeenCalledWith('Pomodoro Timer', {
+                body: OVERTIME_MESSAGE,
+                tag: 'overtime',
+            });
+            expect(await tasksDB.getCompletedTasks()).toEqual([]);
+
+            await userEvent.click(screen.getByRole('button', { name: 'DONE' }));
+
+            await waitFor(async () => expect(await tasksDB.getCompletedTasks()).toHaveLength(1));
+            const [pomodoro] = await tasksDB.getCompletedTasks();
+            expect(pomodoro.overtime).toBeGreaterThanOrEqual(5 * MINUTE);
+            expect(pomodoro.duration).toBe(90 * MINUTE + pomodoro.overtime!);
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+    backupDB,
+    categoriesDB,
+    COMPLETED_TASKS_STORE,
+    DB_MIGRATIONS,
+    searchDB,
+    SEARCH_INDEX_STORE,
+    initDB,
+    tasksDB,
+    TASKS_STORE,
+} from '../../utils/database';
+import { getSearchTerms, tokenize } from '../../utils/search';
+import type { SearchIndexEntry } from '../../types';
+import { EMPTY_SNAPSHOT, makeCompletedTask, makeTask } from '../factories';
+
+const DB_NAME = 'dev_PomodoroDB';
+
+const searchIds = async (...args: Parameters<typeof searchDB.search>) =>
+    (await searchDB.search(...args)).results.map(({ task }) => task.id);
+
+const getIndexEntries = async (): Promise<SearchIndexEntry[]> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction([SEARCH_INDEX_STORE], 'readonly')
+            .objectStore(SEARCH_INDEX_STORE)
+            .getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+describe('Task search', () => {
+    afterEach(async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+    });
+
+    test('should split text into distinct words without case or accents', () => {
+        expect(tokenize('Café API-review, api  #42')).toEqual(['cafe', 'api', 'review', '42']);
+        expect(
+            getSearchTerms({ category: 'Work', description: 'Review PR', notes: '**Blocked** on QA' })
+        ).toEqual(['work', 'review', 'pr', 'blocked', 'on', 'qa']);
+    });
+
+    test('should find tasks by the start of words in their description, category and notes', async () => {
+        await tasksDB.add(makeTask('a', { description: 'Write the API review' }));
+        await tasksDB.add(makeTask('b', { category: 'Reading', description: 'Chapter 3' }));
+        await tasksDB.add(makeTask('c', { description: 'Fix login', notes: 'Blocked on [PP-12](https://example.com)' }));
+
+        expect(await searchIds('rev')).toEqual(['a']);
+        expect(await searchIds('READ')).toEqual(['b']);
+        expect(await searchIds('blocked pp')).toEqual(['c']);
+        // Every word has to match
+        expect(await searchIds('api login')).toEqual([]);
+        // Only the start of words matches
+        expect(await searchIds('view')).toEqual([]);
+        expect(await searchIds('  ')).toEqual([]);
+    });
+
+    test('should list active tasks first, then completed ones newest first', async () => {
+        await tasksDB.add(makeTask('active', { description: 'Plan sprint' }));
+        await tasksDB.add(makeTask('completing', { description: 'Plan sprint' }));
+        await tasksDB.completeOnePomodoro('completing', makeCompletedTask('done-old', 1000, { description: 'Plan sprint' }));
+        await tasksDB.updateCompletedTask(makeCompletedTask('done-new', 2000, { description: 'Plan sprint' }));
+
+        const { results, total } = await searchDB.search('plan', { limit: 2 });
+
+        expect(results.map(({ task, isCompleted }) => [task.id, isCompleted])).toEqual([
+            ['active', false],
+            ['done-new', true],
+        ]);
+        expect(total).toBe(3);
+    });
+
+    test('should filter by category and end time, counting matches per category', async () => {
+        await tasksDB.add(makeTask('active', { description: 'Standup' }));
+        await tasksDB.updateCompletedTask(makeCompletedTask('early', 1000, { description: 'Standup' }));
+        await tasksDB.updateCompletedTask(makeCompletedTask('work', 5000, { description: 'Standup' }));
+        await tasksDB.updateCompletedTask(
+            makeCompletedTask('home', 6000, { category: 'Home', description: 'Standup' })
+        );
+
+        const inRange = await searchDB.search('standup', { range: { from: 2000, to: 10000 } });
+        expect(inRange.results.map(({ task }) => task.id)).toEqual(['home', 'work']);
+        expect(inRange.categories).toEqual([
+            { category: 'Home', count: 1 },
+            { category: 'Work', count: 1 },
+        ]);
+
+        const inCategory = await searchDB.search('standup', { category: 'work' });
+        expect(inCategory.results.map(({ task }) => task.id)).toEqual(['active', 'work', 'early']);
+        expect(inCategory.categories).toEqual([
+            { category: 'Work', count: 3 },
+            { category: 'Home', count: 1 },
+        ]);
+    });
+
+    test('should keep the index in step with edits, deletes and renamed categories', async () => {
+        await tasksDB.add(makeTask('a', { description: 'Draft proposal' }));
+        await tasksDB.update(makeTask('a', { description: 'Final proposal' }));
+
+        expect(await searchIds('draft')).toEqual([]);
+        expect(await searchIds('final')).toEqual(['a']);
+
+        const [work] = await categoriesDB.getAll();
+        await categoriesDB.rename(work.id, 'Clients');
+        expect(await searchIds('clients')).toEqual(['a']);
+        expect(await searchIds('work')).toEqual([]);
+
+        await tasksDB.delete('a');
+        expect(await searchIds('final')).toEqual([]);
+        expect(await getIndexEntries()).toEqual([]);
+    });
+
+    test('should index completed pomodoros and undo them', async () => {
+        const task = makeTask('a', { description: 'Ship release' });
+        await tasksDB.add(task);
+        await tasksDB.completeOnePomodoro('a', makeCompletedTask('done', 1000, { description: 'Ship release' }));
+
+        expect((await searchDB.search('ship')).results).toEqual([
+            { task: expect.objectContaining({ id: 'done' }), isCompleted: true },
+        ]);
+
+        await tasksDB.restorePomodoro(task, 'done');
+        expect(await searchIds('ship')).toEqual(['a']);
+
+        await tasksDB.updateAll([]);
+        expect(await getIndexEntries()).toEqual([]);
+    });
+
+    test('should index imported tasks', async () => {
+        await tasksDB.add(makeTask('old', { description: 'Replaced soon' }));
+        await backupDB.importAll(
+            {
+                ...EMPTY_SNAPSHOT,
+                tasks: [makeTask('imported', { description: 'From backup' })],
+                completedTasks: [makeCompletedTask('history', 1000, { description: 'From backup' })],
+            },
+            'replace'
+        );
+
+        expect(await searchIds('backup')).toEqual(['imported', 'history']);
+        expect(await searchIds('replaced')).toEqual([]);
+    });
+
+    test('should build the index from existing tasks when upgrading', async () => {
+        await new Promise<void>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 8);
+            request.onupgradeneeded = () => {
+                const transaction = request.transaction as IDBTransaction;
+                for (let v = 1; v <= 8; v++) {
+                    DB_MIGRATIONS[v as keyof typeof DB_MIGRATIONS](request.result, transaction);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                const transaction = db.transaction([TASKS_STORE, COMPLETED_TASKS_STORE], 'readwrite');
+                transaction.objectStore(TASKS_STORE).put(makeTask('a', { description: 'Existing task' }));
+                transaction.objectStore(COMPLETED_TASKS_STORE).put(
+                    makeCompletedTask('b', 1000, { description: 'Existing history' })
+                );
+                transaction.oncomplete = () => {
+                    db.close();
+                    resolve();
+                };
+                transaction.onerror = () => reject(transaction.error);
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+        expect(await searchIds('existing')).toEqual(['a', 'b']);
+        expect(await searchIds('hist')).toEqual(['b']);
+    });
+});
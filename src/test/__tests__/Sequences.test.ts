@@ -0,0 +1,145 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { SEQUENCE_PRESETS } from '../../constants/sequenceConstants';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import { backupDB, sequencesDB, tasksDB } from '../../utils/database';
+import { parseExportDocument, EXPORT_FORMAT } from '../../utils/backup';
+import {
+    createSequence,
+    getActiveSequence,
+    getStartSegmentIndex,
+    validateSequence,
+} from '../../utils/sequences';
+import type { SessionSequence } from '../../types';
+import { clearDatabase, makeTask, MINUTE } from '../factories';
+
+const DB_NAME = 'dev_PomodoroDB';
+
+const makeSequence = (name: string, weekdays: number[] = []): SessionSequence => ({
+    ...createSequence(SEQUENCE_PRESETS[0]),
+    name,
+    weekdays,
+});
+
+describe('Session sequences', () => {
+    afterEach(async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+    });
+
+    test('should reject sequences without a name, a work segment or whole-minute segments', () => {
+        const sequence = makeSequence('Focus');
+        const [work, rest] = sequence.segments;
+
+        expect(() => validateSequence(sequence)).not.toThrow();
+        expect(() => validateSequence({ ...sequence, name: '  ' })).toThrow('name cannot be empty');
+        expect(() => validateSequence({ ...sequence, segments: [rest] })).toThrow('at least one work segment');
+        expect(() =>
+            validateSequence({ ...sequence, segments: [{ ...work, duration: 1.5 * MINUTE }] })
+        ).toThrow('whole number of minutes');
+        expect(() =>
+            validateSequence({ ...sequence, segments: [{ ...work, duration: 0 }] })
+        ).toThrow('whole number of minutes');
+    });
+
+    test('should start a cycle at the first work segment', () => {
+        const sequence = makeSequence('Break first');
+        const [work, rest] = sequence.segments;
+
+        expect(getStartSegmentIndex(sequence)).toBe(0);
+        expect(getStartSegmentIndex({ ...sequence, segments: [rest, work] })).toBe(1);
+        expect(createSequence(SEQUENCE_PRESETS[2]).segments.map(({ type }) => type)).toEqual([
+            TIMER_TYPES.WORK,
+            TIMER_TYPES.BREAK,
+            TIMER_TYPES.WORK,
+            TIMER_TYPES.BREAK,
+            TIMER_TYPES.WORK,
+            TIMER_TYPES.LONG_BREAK,
+        ]);
+    });
+
+    test("should run the task's sequence, else the one for the day of the week", () => {
+        const weekdays = makeSequence('Weekdays', [1, 2, 3, 4, 5]);
+        const exam = makeSequence('Exam');
+        const sequences = [weekdays, exam];
+        const monday = new Date(2026, 9, 19);
+        const sunday = new Date(2026, 9, 18);
+
+        expect(getActiveSequence(sequences, makeTask('a', { sequenceId: exam.id }), monday)).toBe(exam);
+        expect(getActiveSequence(sequences, makeTask('a'), monday)).toBe(weekdays);
+        expect(getActiveSequence(sequences, null, monday)).toBe(weekdays);
+        expect(getActiveSequence(sequences, makeTask('a'), sunday)).toBeNull();
+        // A deleted sequence falls back to the day's one
+        expect(getActiveSequence(sequences, makeTask('a', { sequenceId: 'deleted' }), monday)).toBe(weekdays);
+        // Tasks with their own timer lengths skip the day's sequence
+        const triage = makeTask('a', { timerProfile: { workDuration: 15 * MINUTE } });
+        expect(getActiveSequence(sequences, triage, monday)).toBeNull();
+        expect(getActiveSequence(sequences, { ...triage, sequenceId: exam.id }, monday)).toBe(exam);
+    });
+
+    test('should save sequences sorted by name with a trimmed name', async () => {
+        const ultradian = makeSequence('Ultradian');
+        await sequencesDB.put(ultradian);
+        await sequencesDB.put(makeSequence('  Exam  '));
+
+        expect((await sequencesDB.getAll()).map(({ name }) => name)).toEqual(['Exam', 'Ultradian']);
+        await expect(sequencesDB.put({ ...ultradian, segments: [] })).rejects.toThrow(
+            'at least one work segment'
+        );
+    });
+
+    test('should unset a deleted sequence on the tasks that used it', async () => {
+        const sequence = makeSequence('Exam');
+        await sequencesDB.put(sequence);
+        await tasksDB.add(makeTask('a', { sequenceId: sequence.id }));
+        await tasksDB.add(makeTask('b', { sequenceId: 'other' }));
+
+        await sequencesDB.delete(sequence.id);
+
+        expect(await sequencesDB.getAll()).toEqual([]);
+        const tasks = await tasksDB.getAll();
+        expect(tasks.find(({ id }) => id === 'a')?.sequenceId).toBeUndefined();
+        expect(tasks.find(({ id }) => id === 'b')?.sequenceId).toBe('other');
+    });
+
+    test('should export and import sequences', async () => {
+        const sequence = makeSequence('Exam', [6]);
+        await sequencesDB.put(sequence);
+
+        const snapshot = await backupDB.exportAll();
+        expect(snapshot.sequences).toEqual([sequence]);
+
+        await clearDatabase();
+        expect(await sequencesDB.getAll()).toEqual([]);
+
+        await backupDB.importAll(snapshot, 'merge');
+        expect(await sequencesDB.getAll()).toEqual([sequence]);
+    });
+
+    test('should upgrade exports made before sequences existed', () => {
+        const document = parseExportDocument({
+            format: EXPORT_FORMAT,
+            schemaVersion: 9,
+            exportedAt: 0,
+            stores: { tasks: [], completedTasks: [], settings: [], categories: [], sessions: [] },
+        });
+
+        expect(document.stores.sequences).toEqual([]);
+    });
+
+    test('should refuse to import a sequence it would not save', () => {
+        const sequence = makeSequence('Rest only');
+        const breaks = sequence.segments.filter(({ type }) => type !== TIMER_TYPES.WORK);
+        const importSequences = (sequences: unknown[]) =>
+            parseExportDocument({
+                format: EXPORT_FORMAT,
+                schemaVersion: 10,
+                exportedAt: 0,
+                stores: { tasks: [], completedTasks: [], settings: [], categories: [], sessions: [], sequences },
+            });
+
+        expect(importSequences([sequence]).stores.sequences).toEqual([sequence]);
+        expect(() => importSequences([{ ...sequence, segments: breaks }])).toThrow(
+            'sequence "Rest only": A sequence needs at least one work segment'
+        );
+        expect(() => importSequences([{ id: sequence.id }])).toThrow('"name" of "sequences" record');
+    });
+});
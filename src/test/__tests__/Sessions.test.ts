@@ -0,0 +1,212 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { DEFAULT_TIMER_SETTINGS, TIMER_TYPES, type TimerType } from '../../constants/timerConstants';
+import { parseExportDocument, EXPORT_FORMAT } from '../../utils/backup';
+import {
+    COMPLETED_TASKS_STORE,
+    DB_MIGRATIONS,
+    SESSIONS_STORE,
+    SETTINGS_STORE,
+    sessionsDB,
+    tasksDB,
+} from '../../utils/database';
+import {
+    backfillSessionDetails,
+    getFocusSegments,
+    summarizeBreakAdherence,
+} from '../../utils/sessions';
+import type { SessionOutcome, TimerSession } from '../../types';
+import { makeCompletedTask, MINUTE } from '../factories';
+
+const DB_NAME = 'dev_PomodoroDB';
+
+const customTimerSettings = {
+    workDuration: 25 * MINUTE,
+    breakDuration: 5 * MINUTE,
+    longBreakDuration: 15 * MINUTE,
+    sessionsUntilLongBreak: 4,
+};
+
+const makeSession = (
+    id: string,
+    type: TimerType,
+    outcome: SessionOutcome,
+    endTime: number = MINUTE
+): TimerSession => ({
+    id,
+    type,
+    outcome,
+    startTime: endTime - MINUTE,
+    endTime,
+    segments: outcome === 'skipped' ? [] : [{ start: endTime - MINUTE, end: endTime }],
+});
+
+/**
+ * Creates the database as it was at an older version, with some data in it.
+ */
+const createDatabaseAtVersion = (
+    version: number,
+    storeNames: string[],
+    fill: (transaction: IDBTransaction) => void
+) =>
+    new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, version);
+        request.onupgradeneeded = () => {
+            const transaction = request.transaction as IDBTransaction;
+            for (let v = 1; v <= version; v++) {
+                DB_MIGRATIONS[v as keyof typeof DB_MIGRATIONS](request.result, transaction);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction(storeNames, 'readwrite');
+            fill(transaction);
+            transaction.oncomplete = () => {
+                db.close();
+                resolve();
+            };
+            transaction.onerror = () => reject(transaction.error);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+describe('Session details of completed pomodoros', () => {
+    afterEach(async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+    });
+
+    test('should split a session into focus segments around its pauses', () => {
+        const segments = getFocusSegments(0, 60 * MINUTE, [
+            { pausedAt: 40 * MINUTE, duration: 10 * MINUTE },
+            { pausedAt: 10 * MINUTE, duration: 5 * MINUTE },
+        ]);
+
+        expect(segments).toEqual([
+            { start: 0, end: 10 * MINUTE },
+            { start: 15 * MINUTE, end: 40 * MINUTE },
+            { start: 50 * MINUTE, end: 60 * MINUTE },
+        ]);
+    });
+
+    test('should end on the last pause when a session was finished while paused', () => {
+        const segments = getFocusSegments(0, 30 * MINUTE, [
+            { pausedAt: 20 * MINUTE, duration: 10 * MINUTE },
+        ]);
+
+        expect(segments).toEqual([{ start: 0, end: 20 * MINUTE }]);
+    });
+
+    test('should work back the start of an older record from its duration and pauses', () => {
+        const task = makeCompletedTask('old', 100 * MINUTE, {
+            interruptions: [{ pausedAt: 80 * MINUTE, duration: 5 * MINUTE }],
+        });
+
+        expect(backfillSessionDetails(task, customTimerSettings)).toEqual({
+            ...task,
+            startTime: 70 * MINUTE,
+            segments: [
+                { start: 70 * MINUTE, end: 80 * MINUTE },
+                { start: 85 * MINUTE, end: 100 * MINUTE },
+            ],
+            timerSettings: customTimerSettings,
+        });
+    });
+
+    test('should leave records that already have a start untouched', () => {
+        const task = makeCompletedTask('new', 100, { duration: 50, startTime: 10 });
+
+        expect(backfillSessionDetails(task, customTimerSettings)).toBe(task);
+    });
+
+    test('should backfill completed tasks with the stored timer settings when upgrading', async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+        await createDatabaseAtVersion(5, [COMPLETED_TASKS_STORE, SETTINGS_STORE], transaction => {
+            transaction.objectStore(COMPLETED_TASKS_STORE).put(makeCompletedTask('timed', 100 * MINUTE));
+            transaction.objectStore(COMPLETED_TASKS_STORE).put(makeCompletedTask('untimed', 200 * MINUTE, { duration: undefined }));
+            transaction.objectStore(SETTINGS_STORE).put({
+                id: 'timerSettings',
+                value: customTimerSettings,
+                version: 1,
+            });
+        });
+
+        const tasks = await tasksDB.getCompletedTasks();
+
+        expect(tasks.find(task => task.id === 'timed')).toMatchObject({
+            startTime: 75 * MINUTE,
+            segments: [{ start: 75 * MINUTE, end: 100 * MINUTE }],
+            timerSettings: customTimerSettings,
+        });
+        expect(tasks.find(task => task.id === 'untimed')).toMatchObject({
+            startTime: 200 * MINUTE,
+            segments: [],
+        });
+    });
+
+    test('should backfill completed tasks when importing an older export', () => {
+        const document = parseExportDocument({
+            format: EXPORT_FORMAT,
+            schemaVersion: 5,
+            exportedAt: 0,
+            stores: {
+                tasks: [],
+                completedTasks: [makeCompletedTask('old', 100 * MINUTE)],
+                settings: [],
+                categories: [],
+            },
+        });
+
+        expect(document.stores.completedTasks[0]).toMatchObject({
+            startTime: 75 * MINUTE,
+            timerSettings: DEFAULT_TIMER_SETTINGS,
+        });
+    });
+
+    test('should count the suggested breaks that were taken', () => {
+        const adherence = summarizeBreakAdherence([
+            makeSession('work-1', TIMER_TYPES.WORK, 'completed', 1 * MINUTE),
+            makeSession('taken', TIMER_TYPES.BREAK, 'completed', 2 * MINUTE),
+            makeSession('work-2', TIMER_TYPES.WORK, 'completed', 3 * MINUTE),
+            makeSession('long', TIMER_TYPES.LONG_BREAK, 'completed', 4 * MINUTE),
+            makeSession('work-3', TIMER_TYPES.WORK, 'completed', 5 * MINUTE),
+            makeSession('skipped', TIMER_TYPES.BREAK, 'skipped', 6 * MINUTE),
+            makeSession('work-4', TIMER_TYPES.WORK, 'completed', 7 * MINUTE),
+            makeSession('stopped', TIMER_TYPES.BREAK, 'stopped', 8 * MINUTE),
+        ]);
+
+        expect(adherence).toEqual({ suggested: 4, taken: 2, skipped: 1, stopped: 1, ratio: 0.5 });
+        expect(summarizeBreakAdherence([makeSession('work', TIMER_TYPES.WORK, 'stopped')]).ratio).toBeNull();
+    });
+
+    test('should count a stopped break once, by how it ended after starting over', () => {
+        const adherence = summarizeBreakAdherence([
+            // Listed out of order; their end times say which came first
+            makeSession('taken', TIMER_TYPES.BREAK, 'completed', 4 * MINUTE),
+            makeSession('work-1', TIMER_TYPES.WORK, 'completed', 1 * MINUTE),
+            makeSession('stopped-1', TIMER_TYPES.BREAK, 'stopped', 2 * MINUTE),
+            makeSession('stopped-2', TIMER_TYPES.BREAK, 'stopped', 3 * MINUTE),
+            makeSession('work-2', TIMER_TYPES.WORK, 'completed', 5 * MINUTE),
+            makeSession('stopped-3', TIMER_TYPES.BREAK, 'stopped', 6 * MINUTE),
+            makeSession('skipped', TIMER_TYPES.BREAK, 'skipped', 7 * MINUTE),
+        ]);
+
+        expect(adherence).toEqual({ suggested: 2, taken: 1, skipped: 1, stopped: 0, ratio: 0.5 });
+    });
+
+    test('should mark breaks logged before outcomes as completed when upgrading', async () => {
+        await indexedDB.deleteDatabase(DB_NAME);
+        const loggedBreak = {
+            id: 'break',
+            type: TIMER_TYPES.BREAK,
+            startTime: 0,
+            endTime: MINUTE,
+            segments: [{ start: 0, end: MINUTE }],
+        };
+        await createDatabaseAtVersion(7, [SESSIONS_STORE], transaction => {
+            transaction.objectStore(SESSIONS_STORE).put(loggedBreak);
+        });
+
+        const [session] = await sessionsDB.getInRange(0, 2 * MINUTE);
+
+        expect(session).toEqual({ ...loggedBreak, outcome: 'completed' });
+    });
+});
@@ -1,7 +1,29 @@
 import { describe, test, expect, beforeEach, afterAll } from 'vitest';
 import { settingsDB, initDB, SETTINGS_STORE } from '../../utils/database';
+import { DEFAULT_TIMER_SETTINGS } from '../../constants/timerConstants';
+import { DEFAULT_SETTINGS } from '../../constants/settingsConstants';
+import type { SettingKey, SettingsValues } from '../../types';
+
+// Writes a raw record, bypassing validation, to simulate data from older versions
+const putRawSetting = async (record: Record<string, unknown>) => {
+    const db = await initDB();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+        transaction.objectStore(SETTINGS_STORE).put(record);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
 
 describe('Settings Database Integration', () => {
+    const customTimerSettings = {
+        workDuration: 25 * 60 * 1000,
+        breakDuration: 5 * 60 * 1000,
+        longBreakDuration: 15 * 60 * 1000,
+        sessionsUntilLongBreak: 4
+    };
+
     // Clean up database after all tests
     afterAll(async () => {
         await indexedDB.deleteDatabase('dev_PomodoroDB');
@@ -21,84 +43,67 @@ describe('Settings Database Integration', () => {
     });
 
     test('should set and get a boolean setting', async () => {
-        const key = 'testSetting';
-        const value = true;
+        await settingsDB.set('addTasksToBottom', true);
+        const retrievedValue = await settingsDB.get('addTasksToBottom');
+
+        expect(retrievedValue).toBe(true);
+    });
 
-        await settingsDB.set(key, value);
-        const retrievedValue = await settingsDB.get(key);
+    test('should set and get timer settings', async () => {
+        await settingsDB.set('timerSettings', customTimerSettings);
+        const retrievedValue = await settingsDB.get('timerSettings');
 
-        expect(retrievedValue).toBe(value);
+        expect(retrievedValue).toEqual(customTimerSettings);
     });
 
     test('should update an existing setting', async () => {
-        const key = 'updateTest';
-        
         // Set initial value
-        await settingsDB.set(key, true);
-        
+        await settingsDB.set('addTasksToBottom', true);
+
         // Update value
-        await settingsDB.set(key, false);
-        
+        await settingsDB.set('addTasksToBottom', false);
+
         // Verify updated value
-        const updatedValue = await settingsDB.get(key);
+        const updatedValue = await settingsDB.get('addTasksToBottom');
         expect(updatedValue).toBe(false);
     });
 
-    test('should return null for non-existent setting', async () => {
-        const value = await settingsDB.get('nonExistentSetting');
-        expect(value).toBeNull();
+    test('should return the default for a setting that was never stored', async () => {
+        expect(await settingsDB.get('addTasksToBottom')).toBe(false);
+        expect(await settingsDB.get('timerSettings')).toEqual(DEFAULT_TIMER_SETTINGS);
     });
 
-    test('should handle multiple settings', async () => {
-        const settings = {
-            setting1: true,
-            setting2: false,
-            setting3: true
-        };
-
-        // Set all settings
-        await Promise.all(
-            Object.entries(settings).map(([key, value]) => 
-                settingsDB.set(key, value)
-            )
-        );
-
-        // Verify all settings
-        for (const [key, expectedValue] of Object.entries(settings)) {
-            const value = await settingsDB.get(key);
-            expect(value).toBe(expectedValue);
-        }
+    test('should return every setting with defaults filled in', async () => {
+        await settingsDB.set('timerSettings', customTimerSettings);
+
+        const settings = await settingsDB.getAll();
+
+        expect(settings).toEqual({
+            ...DEFAULT_SETTINGS,
+            addTasksToBottom: false,
+            timerSettings: customTimerSettings
+        });
     });
 
     test('should handle transaction integrity during concurrent operations', async () => {
-        const operations = Array.from({ length: 10 }, (_, i) => ({
-            key: `concurrent-${i}`,
-            value: i % 2 === 0
-        }));
-
-        // Test concurrent sets
         try {
-            await Promise.all(
-                operations.map(({ key, value }) => settingsDB.set(key, value))
-            );
+            await Promise.all([
+                settingsDB.set('addTasksToBottom', true),
+                settingsDB.set('timerSettings', customTimerSettings)
+            ]);
         } catch (error) {
             console.error('FAILURE IN concurrent settingsDB.set operations');
             throw error;
         }
 
         // Verify all settings were set correctly
-        for (const { key, value } of operations) {
-            const retrievedValue = await settingsDB.get(key);
-            expect(retrievedValue).toBe(value);
-        }
+        expect(await settingsDB.get('addTasksToBottom')).toBe(true);
+        expect(await settingsDB.get('timerSettings')).toEqual(customTimerSettings);
     });
 
     test('should persist settings across database connections', async () => {
-        const key = 'persistenceTest';
-        const value = true;
-
         // Set value
-        await settingsDB.set(key, value);
+        await settingsDB.set('addTasksToBottom', true);
 
         // Close and reopen database connection
         const db = await initDB();
@@ -106,18 +111,57 @@ describe('Settings Database Integration', () => {
         await initDB();
 
         // Verify value persisted
-        const retrievedValue = await settingsDB.get(key);
-        expect(retrievedValue).toBe(value);
+        const retrievedValue = await settingsDB.get('addTasksToBottom');
+        expect(retrievedValue).toBe(true);
     });
 
-    test('should handle invalid inputs gracefully', async () => {
+    test('should reject invalid keys and values', async () => {
         // Test with empty key
-        await expect(settingsDB.set('', true)).rejects.toThrow();
-        
-        // Test with very long key (100 characters)
-        const longKey = 'a'.repeat(100);
-        await settingsDB.set(longKey, true);
-        const longKeyValue = await settingsDB.get(longKey);
-        expect(longKeyValue).toBe(true);
+        await expect(settingsDB.set('' as SettingKey, true)).rejects.toThrow();
+
+        // Test with a key that is not in the registry
+        await expect(settingsDB.set('unknownSetting' as SettingKey, true)).rejects.toThrow();
+        await expect(settingsDB.get('unknownSetting' as SettingKey)).rejects.toThrow();
+
+        // Test with values of the wrong type or out of range
+        await expect(
+            settingsDB.set('addTasksToBottom', 'yes' as unknown as boolean)
+        ).rejects.toThrow();
+        await expect(
+            settingsDB.set('timerSettings', { ...customTimerSettings, workDuration: -1 })
+        ).rejects.toThrow();
+
+        // Nothing invalid should have been stored
+        expect(await settingsDB.get('timerSettings')).toEqual(DEFAULT_TIMER_SETTINGS);
+    });
+
+    test('should allow a zero auto-start countdown but not a negative or overly long one', async () => {
+        await settingsDB.set('autoStartDelay', 0);
+        expect(await settingsDB.get('autoStartDelay')).toBe(0);
+
+        await expect(settingsDB.set('autoStartDelay', -1)).rejects.toThrow();
+        await expect(settingsDB.set('autoStartDelay', 301)).rejects.toThrow();
+        await expect(settingsDB.set('autoStartDelay', 2.5)).rejects.toThrow();
+        expect(await settingsDB.get('autoStartDelay')).toBe(0);
+    });
+
+    test('should fall back to the default for invalid stored values', async () => {
+        await putRawSetting({ id: 'addTasksToBottom', value: 'not-a-boolean', version: 1 });
+
+        expect(await settingsDB.get('addTasksToBottom')).toBe(false);
+    });
+
+    test('should migrate records written before settings were versioned', async () => {
+        // Legacy records have no version and may be missing newer fields
+        await putRawSetting({ id: 'addTasksToBottom', value: true });
+        await putRawSetting({ id: 'timerSettings', value: { workDuration: 25 * 60 * 1000 } });
+
+        const settings: SettingsValues = await settingsDB.getAll();
+
+        expect(settings.addTasksToBottom).toBe(true);
+        expect(settings.timerSettings).toEqual({
+            ...DEFAULT_TIMER_SETTINGS,
+            workDuration: 25 * 60 * 1000
+        });
     });
-}); 
\ No newline at end of file
+});
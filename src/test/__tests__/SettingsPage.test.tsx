@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CategoriesProvider } from '../../contexts/CategoriesContext';
+import { SequencesProvider } from '../../contexts/SequencesContext';
+import { SettingsProvider } from '../../contexts/SettingsContext';
+import Settings from '../../pages/Settings';
+import { settingsDB } from '../../utils/database';
+import { clearDatabase } from '../factories';
+
+const renderSettings = () =>
+    render(
+        <SettingsProvider>
+            <CategoriesProvider>
+                <SequencesProvider>
+                    <Settings />
+                </SequencesProvider>
+            </CategoriesProvider>
+        </SettingsProvider>
+    );
+
+// The daily goal allows 1 to 48 pomodoros and defaults to 8
+const typeDailyGoal = async (value: string) => {
+    const input = await screen.findByRole('spinbutton', { name: 'Daily pomodoro goal' });
+    await userEvent.clear(input);
+    // Pasted at once, as typing saves every valid number on the way
+    await userEvent.click(input);
+    await userEvent.paste(value);
+    return input;
+};
+
+describe('Settings page', () => {
+    beforeEach(async () => {
+        await clearDatabase();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should not save a number outside the bounds of the setting', async () => {
+        renderSettings();
+
+        const input = await typeDailyGoal('100');
+        await userEvent.tab();
+
+        expect(input).toHaveValue(8);
+        expect(await settingsDB.get('dailyPomodoroGoal')).toBe(8);
+    });
+
+    test('should show the error and the saved value when saving fails', async () => {
+        vi.spyOn(settingsDB, 'set').mockRejectedValue(new Error('Quota exceeded'));
+        renderSettings();
+
+        const input = await typeDailyGoal('12');
+        await userEvent.tab();
+
+        expect(await screen.findByText('Failed to update setting')).toBeInTheDocument();
+        expect(input).toHaveValue(8);
+    });
+
+    test('should save a number within the bounds of the setting', async () => {
+        renderSettings();
+
+        await typeDailyGoal('12');
+
+        await waitFor(async () => expect(await settingsDB.get('dailyPomodoroGoal')).toBe(12));
+    });
+});
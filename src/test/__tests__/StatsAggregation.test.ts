@@ -0,0 +1,159 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+    aggregateFocusByCategory,
+    aggregateFocusByDay,
+    getCategoryAnalytics,
+    getHeatmapLevel,
+    getWeekOverWeekChange,
+    groupDaysIntoWeeks,
+} from '../../utils/statsAggregation';
+import { makeCompletedTask, MINUTE } from '../factories';
+
+const makeCategoryPomodoro = (category: string, endTime: number, minutes = 25) =>
+    makeCompletedTask(`completed-${category}-${endTime}`, endTime, {
+        category,
+        duration: minutes * MINUTE,
+    });
+
+describe('Stats aggregation', () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    test('should return every day of the range, including empty ones', () => {
+        const range = { from: new Date(2024, 2, 10).getTime(), to: new Date(2024, 2, 13).getTime() };
+
+        const days = aggregateFocusByDay(
+            [
+                makeCategoryPomodoro('Work', new Date(2024, 2, 10, 9).getTime()),
+                makeCategoryPomodoro('Study', new Date(2024, 2, 10, 11).getTime(), 50),
+                makeCategoryPomodoro('Work', new Date(2024, 2, 12, 23, 59).getTime()),
+            ],
+            range
+        );
+
+        expect(days.map(day => day.minutes)).toEqual([75, 0, 25]);
+        expect(days.map(day => day.pomodoros)).toEqual([2, 0, 1]);
+        expect(days[0].byCategory).toEqual({ Work: 25, Study: 50 });
+    });
+
+    test('should ignore tasks outside the range', () => {
+        const range = { from: new Date(2024, 2, 10).getTime(), to: new Date(2024, 2, 11).getTime() };
+
+        const days = aggregateFocusByDay(
+            [
+                makeCategoryPomodoro('Work', range.from - 1),
+                makeCategoryPomodoro('Work', range.to),
+            ],
+            range
+        );
+
+        expect(days).toHaveLength(1);
+        expect(days[0].pomodoros).toBe(0);
+    });
+
+    test('should keep calendar days across a daylight saving change', () => {
+        process.env.TZ = 'Europe/London';
+        // Clocks go forward on 31 March 2024, making it a 23 hour day
+        const range = { from: new Date(2024, 2, 30).getTime(), to: new Date(2024, 3, 2).getTime() };
+
+        const days = aggregateFocusByDay(
+            [makeCategoryPomodoro('Work', new Date(2024, 3, 1, 0, 30).getTime())],
+            range
+        );
+
+        expect(days.map(day => new Date(day.day).getDate())).toEqual([30, 31, 1]);
+        expect(days[2].pomodoros).toBe(1);
+    });
+
+    test('should total categories from most to least focus time', () => {
+        const totals = aggregateFocusByCategory([
+            makeCategoryPomodoro('Work', 1),
+            makeCategoryPomodoro('Study', 2, 50),
+            makeCategoryPomodoro('Work', 3),
+            makeCategoryPomodoro('Admin', 4, 10),
+        ]);
+
+        expect(totals).toEqual([
+            { key: 'study', category: 'Study', minutes: 50, pomodoros: 1 },
+            { key: 'work', category: 'Work', minutes: 50, pomodoros: 2 },
+            { key: 'admin', category: 'Admin', minutes: 10, pomodoros: 1 },
+        ]);
+    });
+
+    test('should match categories case-insensitively', () => {
+        const tasks = [
+            makeCategoryPomodoro('Work', new Date(2024, 2, 10, 12).getTime()),
+            makeCategoryPomodoro('work', new Date(2024, 2, 10, 11).getTime()),
+            makeCategoryPomodoro(' WORK ', new Date(2024, 2, 10, 10).getTime()),
+        ];
+
+        const totals = aggregateFocusByCategory(tasks);
+        const [day] = aggregateFocusByDay(tasks, {
+            from: new Date(2024, 2, 10).getTime(),
+            to: new Date(2024, 2, 11).getTime(),
+        });
+
+        // The first spelling found, i.e. the most recent one, is shown
+        expect(totals).toEqual([{ key: 'work', category: 'Work', minutes: 75, pomodoros: 3 }]);
+        expect(day.byCategory).toEqual({ Work: 75 });
+    });
+
+    test('should compute averages, shares and weekly trends per category', () => {
+        const now = new Date(2024, 2, 20, 12).getTime();
+        const thisWeek = new Date(2024, 2, 18, 9).getTime();
+        const lastWeek = new Date(2024, 2, 11, 9).getTime();
+        const tasks = [
+            makeCategoryPomodoro('Work', thisWeek, 50),
+            makeCategoryPomodoro('Work', thisWeek, 25),
+            makeCategoryPomodoro('Study', thisWeek, 25),
+        ];
+        const recentTasks = [
+            ...tasks,
+            makeCategoryPomodoro('work', lastWeek, 50),
+            // Older than two weeks, so not part of the trend
+            makeCategoryPomodoro('Study', new Date(2024, 1, 1).getTime(), 25),
+        ];
+
+        const [work, study] = getCategoryAnalytics(tasks, recentTasks, now);
+
+        expect(work).toMatchObject({
+            key: 'work',
+            pomodoros: 2,
+            minutes: 75,
+            averageMinutes: 37.5,
+            share: 0.75,
+            thisWeekMinutes: 75,
+            lastWeekMinutes: 50,
+        });
+        expect(getWeekOverWeekChange(work)).toBe(0.5);
+        expect(study).toMatchObject({ share: 0.25, thisWeekMinutes: 25, lastWeekMinutes: 0 });
+        expect(getWeekOverWeekChange(study)).toBeNull();
+    });
+
+    test('should lay days out in weeks starting on Monday', () => {
+        // 13 March 2024 is a Wednesday
+        const days = aggregateFocusByDay([], {
+            from: new Date(2024, 2, 13).getTime(),
+            to: new Date(2024, 2, 23).getTime(),
+        });
+
+        const weeks = groupDaysIntoWeeks(days);
+
+        expect(weeks).toHaveLength(2);
+        expect(weeks[0].slice(0, 2)).toEqual([null, null]);
+        expect(weeks[0][2]).toBe(days[0]);
+        expect(weeks[1][0] && new Date(weeks[1][0].day).getDay()).toBe(1);
+        expect(weeks[1]).toHaveLength(5);
+    });
+
+    test('should bucket heatmap levels relative to the busiest day', () => {
+        expect(getHeatmapLevel(0, 100)).toBe(0);
+        expect(getHeatmapLevel(1, 100)).toBe(1);
+        expect(getHeatmapLevel(50, 100)).toBe(2);
+        expect(getHeatmapLevel(100, 100)).toBe(4);
+        expect(getHeatmapLevel(10, 0)).toBe(0);
+    });
+});
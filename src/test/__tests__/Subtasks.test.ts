@@ -0,0 +1,79 @@
+import { describe, test, expect, afterAll } from 'vitest';
+import { tasksDB } from '../../utils/database';
+import {
+    getCheckedSubtaskIds,
+    getCheckedSubtasks,
+    getSubtaskProgress,
+    toggleSubtask,
+} from '../../utils/subtasks';
+import type { Subtask } from '../../types';
+import { clearDatabase, makeCompletedTask, makeTask, MINUTE } from '../factories';
+
+const checklist: Subtask[] = [
+    { id: 'outline', title: 'Outline', done: true, doneAt: 5 * MINUTE },
+    { id: 'draft', title: 'Draft', done: true, doneAt: 20 * MINUTE },
+    { id: 'review', title: 'Review', done: false },
+];
+
+describe('Subtasks', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should tick and untick subtasks, recording when they were ticked', () => {
+        const ticked = toggleSubtask(checklist, 'review', 30 * MINUTE);
+        expect(ticked[2]).toEqual({ id: 'review', title: 'Review', done: true, doneAt: 30 * MINUTE });
+        expect(ticked[0]).toBe(checklist[0]);
+
+        const unticked = toggleSubtask(ticked, 'review', 31 * MINUTE);
+        expect(unticked[2]).toMatchObject({ done: false, doneAt: undefined });
+    });
+
+    test('should count the ticked subtasks', () => {
+        expect(getSubtaskProgress(checklist)).toEqual({ done: 2, total: 3 });
+        expect(getSubtaskProgress(undefined)).toEqual({ done: 0, total: 0 });
+    });
+
+    test('should only credit a session with the subtasks ticked during it', () => {
+        expect(getCheckedSubtaskIds(checklist, 10 * MINUTE, 35 * MINUTE)).toEqual(['draft']);
+        expect(getCheckedSubtaskIds(checklist, 0, 20 * MINUTE)).toEqual(['outline', 'draft']);
+        expect(getCheckedSubtaskIds(undefined, 0, 20 * MINUTE)).toEqual([]);
+    });
+
+    test('should list what a completed pomodoro achieved in checklist order', () => {
+        const completed = makeCompletedTask('completed-a', 35 * MINUTE, {
+            subtasks: checklist,
+            checkedSubtaskIds: ['draft', 'outline'],
+        });
+
+        expect(getCheckedSubtasks(completed).map(subtask => subtask.title)).toEqual(['Outline', 'Draft']);
+        expect(getCheckedSubtasks({ ...completed, checkedSubtaskIds: undefined })).toEqual([]);
+    });
+
+    test('should keep the checklist on the task and snapshot it on the completed pomodoro', async () => {
+        await clearDatabase();
+        const task = makeTask('a', {
+            category: 'Writing',
+            description: 'Blog post',
+            pomodoros: 2,
+            subtasks: checklist,
+        });
+        await tasksDB.add(task);
+
+        await tasksDB.completeOnePomodoro(
+            'a',
+            makeCompletedTask('completed-a', 35 * MINUTE, {
+                category: task.category,
+                description: task.description,
+                subtasks: checklist,
+                checkedSubtaskIds: ['draft'],
+            })
+        );
+        await tasksDB.update({ ...(await tasksDB.get('a'))!, subtasks: toggleSubtask(checklist, 'review', 40 * MINUTE) });
+
+        const [completed] = await tasksDB.getCompletedTasks();
+        expect(getCheckedSubtasks(completed).map(subtask => subtask.id)).toEqual(['draft']);
+        expect(completed.subtasks?.[2].done).toBe(false);
+        expect(getSubtaskProgress((await tasksDB.get('a'))?.subtasks)).toEqual({ done: 3, total: 3 });
+    });
+});
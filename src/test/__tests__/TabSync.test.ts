@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { act, screen, waitFor } from '@testing-library/react';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import { tasksDB } from '../../utils/database';
+import { requestTimerLeadership } from '../../utils/tabSync';
+import { clearDatabase, makeTask, makeTimerState, MINUTE } from '../factories';
+import { openOtherTab } from '../otherTab';
+import { renderHome } from '../renderHome';
+import { renderTimerContext } from '../renderTimerContext';
+
+vi.mock('../../utils/tabSync', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../utils/tabSync')>()),
+    requestTimerLeadership: vi.fn(),
+}));
+
+// Whether the tab under test wins the timer, or another tab already owns it
+const leadTimer = (isLeader: boolean) =>
+    vi.mocked(requestTimerLeadership).mockImplementation((onAcquired) => {
+        if (isLeader) onAcquired();
+        return () => {};
+    });
+
+describe('Syncing open tabs', () => {
+    let otherTab: ReturnType<typeof openOtherTab>;
+
+    beforeEach(async () => {
+        await clearDatabase();
+        otherTab = openOtherTab();
+    });
+
+    afterEach(() => {
+        otherTab.close();
+    });
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    describe('a tab following the timer of another tab', () => {
+        beforeEach(() => {
+            leadTimer(false);
+        });
+
+        test('should ask the leading tab for the timer when it opens', async () => {
+            renderTimerContext();
+
+            await waitFor(() => expect(otherTab.received).toContainEqual({ type: 'TIMER_STATE_REQUEST' }));
+        });
+
+        test('should show the running session of the leading tab', async () => {
+            const startTime = Date.now() - 15 * MINUTE;
+            const { result } = renderTimerContext();
+
+            otherTab.post({
+                type: 'TIMER_STATE',
+                state: makeTimerState({
+                    // Sent as it was when the leading tab last changed it
+                    timeLeft: 25 * MINUTE,
+                    isRunning: true,
+                    hasStarted: true,
+                    activeTaskId: 'a',
+                    startTime,
+                    sessionStartTime: startTime,
+                    expectedEndTime: startTime + 25 * MINUTE,
+                }),
+            });
+
+            await waitFor(() => expect(result.current.state.activeTaskId).toBe('a'));
+            expect(result.current.state.timeLeft).toBeLessThanOrEqual(10 * MINUTE);
+            expect(result.current.state.timeLeft).toBeGreaterThan(9 * MINUTE);
+        });
+
+        test('should hand its actions to the leading tab rather than run them', async () => {
+            const { result } = renderTimerContext();
+            const task = makeTask('a');
+
+            act(() => result.current.startTimer(task));
+
+            await waitFor(() =>
+                expect(otherTab.received).toContainEqual({
+                    type: 'TIMER_COMMAND',
+                    command: { name: 'startTimer', task },
+                })
+            );
+            expect(result.current.state.hasStarted).toBe(false);
+        });
+
+        test('should leave completing a session that runs out to the leading tab', async () => {
+            const startTime = Date.now() - 26 * MINUTE;
+            const { result, onComplete } = renderTimerContext();
+
+            otherTab.post({
+                type: 'TIMER_STATE',
+                state: makeTimerState({
+                    isRunning: true,
+                    hasStarted: true,
+                    activeTaskId: 'a',
+                    startTime,
+                    sessionStartTime: startTime,
+                    expectedEndTime: startTime + 25 * MINUTE,
+                }),
+            });
+
+            await waitFor(() => expect(result.current.state.activeTaskId).toBe('a'));
+            expect(result.current.state).toMatchObject({ timeLeft: 0, isRunning: true });
+            expect(onComplete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('the tab leading the timer', () => {
+        beforeEach(() => {
+            leadTimer(true);
+        });
+
+        test('should run the actions of other tabs and share the result', async () => {
+            const { result } = renderTimerContext();
+
+            otherTab.post({
+                type: 'TIMER_COMMAND',
+                command: { name: 'startBreak', breakType: TIMER_TYPES.BREAK },
+            });
+
+            await waitFor(() => expect(result.current.state.timerType).toBe(TIMER_TYPES.BREAK));
+            expect(result.current.state.isRunning).toBe(true);
+            await waitFor(() =>
+                expect(otherTab.received).toContainEqual({
+                    type: 'TIMER_STATE',
+                    state: expect.objectContaining({
+                        timerType: TIMER_TYPES.BREAK,
+                        isRunning: true,
+                    }),
+                })
+            );
+        });
+
+        test('should send its timer to a tab that asks for it', async () => {
+            const { result } = renderTimerContext();
+            act(() => result.current.selectTask('b'));
+            await waitFor(() => expect(result.current.state.selectedTaskId).toBe('b'));
+            otherTab.received.length = 0;
+
+            otherTab.post({ type: 'TIMER_STATE_REQUEST' });
+
+            await waitFor(() =>
+                expect(otherTab.received).toContainEqual({
+                    type: 'TIMER_STATE',
+                    state: result.current.state,
+                })
+            );
+        });
+    });
+
+    test('should reload the task list when another tab changes it', async () => {
+        leadTimer(true);
+        renderHome();
+        await screen.findByText('No task selected');
+
+        await tasksDB.add(makeTask('a', { description: 'Added elsewhere' }));
+        otherTab.post({ type: 'TASKS_CHANGED' });
+
+        expect(await screen.findAllByText('Added elsewhere')).not.toHaveLength(0);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_TIMER_SETTINGS } from '../../constants/timerConstants';
+import { getSelectedTask, getWorkOrder } from '../../utils/taskSelection';
+import { calculateEstimatedCompletion } from '../../utils/timeCalculations';
+import type { TimerSettings } from '../../types';
+import { makeTask, MINUTE } from '../factories';
+
+const settings: TimerSettings = {
+    ...DEFAULT_TIMER_SETTINGS,
+    workDuration: 25 * MINUTE,
+    breakDuration: 5 * MINUTE,
+    longBreakDuration: 15 * MINUTE,
+    sessionsUntilLongBreak: 4,
+};
+
+describe('Timer task selection', () => {
+    const tasks = [makeTask('a'), makeTask('b', { pomodoros: 2 }), makeTask('c')];
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('should run the picked task, or the first one when none or a missing one was picked', () => {
+        expect(getSelectedTask(tasks, 'b')?.id).toBe('b');
+        expect(getSelectedTask(tasks, null)?.id).toBe('a');
+        expect(getSelectedTask(tasks, 'deleted')?.id).toBe('a');
+        expect(getSelectedTask([], 'b')).toBeNull();
+    });
+
+    test('should work on the active task first and keep the others in list order', () => {
+        expect(getWorkOrder(tasks, 'c').map(({ id }) => id)).toEqual(['c', 'a', 'b']);
+        expect(getWorkOrder(tasks, 'a')).toEqual(tasks);
+        expect(getWorkOrder(tasks, null)).toEqual(tasks);
+    });
+
+    test('should estimate finish times with the active task moved to the front', () => {
+        const estimate = (taskIndex: number, timeLeft: number | null) =>
+            (calculateEstimatedCompletion(tasks, taskIndex, timeLeft, false, 'c', null, settings) - now) / MINUTE;
+
+        // c, paused with 10 minutes left, is worked on before a and b
+        expect(estimate(2, 10 * MINUTE)).toBe(10);
+        expect(estimate(0, 10 * MINUTE)).toBe(10 + 5 + 25);
+        expect(estimate(1, 10 * MINUTE)).toBe(10 + 5 + 25 + 5 + 50);
+        // Without a session under way, c counts in full
+        expect(estimate(2, null)).toBe(25);
+    });
+});
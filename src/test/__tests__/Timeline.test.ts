@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { TIMER_TYPES, type TimerType } from '../../constants/timerConstants';
+import { backupDB, sessionsDB } from '../../utils/database';
+import { buildDayTimeline } from '../../utils/timeline';
+import type { FocusSegment, Task, TimerSession } from '../../types';
+import { clearDatabase, makeCompletedTask, MINUTE } from '../factories';
+
+const HOUR = 60 * MINUTE;
+
+const day = { from: new Date(2024, 2, 10).getTime(), to: new Date(2024, 2, 11).getTime() };
+const at = (hours: number) => day.from + hours * HOUR;
+
+// A pomodoro that ended with the last of its focus segments
+const makeTimedPomodoro = (id: string, segments: FocusSegment[]): Task =>
+    makeCompletedTask(id, segments[segments.length - 1]?.end ?? day.from, { segments });
+
+const makeBreak = (
+    id: string,
+    start: number,
+    end: number,
+    type: TimerType = TIMER_TYPES.BREAK
+): TimerSession => ({
+    id,
+    type,
+    outcome: 'completed',
+    startTime: start,
+    endTime: end,
+    segments: [{ start, end }],
+});
+
+describe('Day timeline', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should draw work segments and breaks in time order, leaving pauses as gaps', () => {
+        const blocks = buildDayTimeline(
+            day,
+            [
+                makeTimedPomodoro('a', [
+                    { start: at(9), end: at(9.5) },
+                    { start: at(9.75), end: at(10) },
+                ]),
+            ],
+            [
+                makeBreak('long', at(10.25), at(11), TIMER_TYPES.LONG_BREAK),
+                makeBreak('short', at(10), at(10.25)),
+            ]
+        );
+
+        expect(blocks).toEqual([
+            { type: TIMER_TYPES.WORK, start: at(9), end: at(9.5), label: 'Task a' },
+            { type: TIMER_TYPES.WORK, start: at(9.75), end: at(10), label: 'Task a' },
+            { type: TIMER_TYPES.BREAK, start: at(10), end: at(10.25), label: '' },
+            { type: TIMER_TYPES.LONG_BREAK, start: at(10.25), end: at(11), label: '' },
+        ]);
+    });
+
+    test('should cut blocks at midnight and drop those on other days', () => {
+        const blocks = buildDayTimeline(
+            day,
+            [
+                makeTimedPomodoro('late', [{ start: at(23.5), end: at(24.5) }]),
+                makeTimedPomodoro('tomorrow', [{ start: at(25), end: at(26) }]),
+            ],
+            [makeBreak('early', at(-0.25), at(0.25))]
+        );
+
+        expect(blocks.map(block => [block.start, block.end])).toEqual([
+            [day.from, at(0.25)],
+            [at(23.5), day.to],
+        ]);
+    });
+
+    test('should leave out pomodoros that were marked as done without the timer', () => {
+        expect(buildDayTimeline(day, [makeTimedPomodoro('manual', [])], [])).toEqual([]);
+    });
+
+    describe('sessionsDB', () => {
+        beforeEach(async () => {
+            await clearDatabase();
+        });
+
+        test('should read the sessions ending in [from, to), oldest first', async () => {
+            await sessionsDB.add(makeBreak('second', at(12), at(13)));
+            await sessionsDB.add(makeBreak('first', at(8), at(9)));
+            await sessionsDB.add(makeBreak('next-day', at(23), at(24)));
+
+            const sessions = await sessionsDB.getInRange(day.from, day.to);
+
+            expect(sessions.map(session => session.id)).toEqual(['first', 'second']);
+            expect(await sessionsDB.getInRange(day.to, day.from)).toEqual([]);
+        });
+
+        test('should include sessions in exports', async () => {
+            await sessionsDB.add(makeBreak('break', at(8), at(9)));
+
+            const snapshot = await backupDB.exportAll();
+
+            expect(snapshot.sessions.map(session => session.id)).toEqual(['break']);
+        });
+    });
+});
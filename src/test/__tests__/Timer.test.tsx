@@ -0,0 +1,236 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { act, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import { sessionsDB, settingsDB, tasksDB, timerStateDB } from '../../utils/database';
+import { clearDatabase, makeTask, makeTimerState, MINUTE } from '../factories';
+import { renderHome } from '../renderHome';
+
+const getSessions = () => sessionsDB.getInRange(0, Date.now() + MINUTE);
+
+describe('Timer', () => {
+    beforeEach(async () => {
+        vi.stubGlobal('Notification', { permission: 'denied' });
+        await clearDatabase();
+        await tasksDB.add(makeTask('a', { pomodoros: 2 }));
+    });
+
+    afterAll(async () => {
+        vi.unstubAllGlobals();
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should log a finished break once, also when DONE is pressed after it', async () => {
+        const startTime = Date.now() - 6 * MINUTE;
+        await timerStateDB.set(
+            makeTimerState({
+                timerType: TIMER_TYPES.BREAK,
+                isRunning: true,
+                hasStarted: true,
+                startTime,
+                sessionStartTime: startTime,
+                expectedEndTime: startTime + 5 * MINUTE,
+            })
+        );
+
+        renderHome();
+        await waitFor(async () => expect(await getSessions()).toHaveLength(1));
+
+        await userEvent.click(await screen.findByRole('button', { name: 'DONE' }));
+
+        await screen.findByRole('button', { name: 'START' });
+        const sessions = await getSessions();
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0]).toMatchObject({ type: TIMER_TYPES.BREAK, outcome: 'completed' });
+    });
+
+    test('should record a pomodoro with the length it was started with', async () => {
+        // Started as a 50-minute pomodoro, though the settings now say 90
+        const startTime = Date.now() - 51 * MINUTE;
+        await timerStateDB.set(
+            makeTimerState({
+                isRunning: true,
+                hasStarted: true,
+                activeTaskId: 'a',
+                startTime,
+                sessionStartTime: startTime,
+                sessionDuration: 50 * MINUTE,
+                expectedEndTime: startTime + 50 * MINUTE,
+            })
+        );
+
+        renderHome();
+
+        await waitFor(async () => expect(await tasksDB.getCompletedTasks()).toHaveLength(1));
+        const [pomodoro] = await tasksDB.getCompletedTasks();
+        expect(pomodoro).toMatchObject({
+            startTime,
+            endTime: startTime + 50 * MINUTE,
+            duration: 50 * MINUTE,
+        });
+        expect(pomodoro.timerSettings?.workDuration).toBe(50 * MINUTE);
+    });
+
+    test('should only finish a session from the keyboard when DONE shows', async () => {
+        const startTime = Date.now() - 10 * MINUTE;
+        await timerStateDB.set(
+            makeTimerState({
+                isRunning: true,
+                hasStarted: true,
+                activeTaskId: 'a',
+                startTime,
+                sessionStartTime: startTime,
+                sessionDuration: 25 * MINUTE,
+                expectedEndTime: startTime + 25 * MINUTE,
+            })
+        );
+        renderHome();
+        await screen.findByRole('button', { name: 'PAUSE' });
+
+        // Running with time left, the button reads STOP
+        await userEvent.keyboard('d');
+        expect(screen.getByRole('button', { name: 'PAUSE' })).toBeInTheDocument();
+        expect(await tasksDB.getCompletedTasks()).toHaveLength(0);
+
+        await userEvent.click(screen.getByRole('button', { name: 'PAUSE' }));
+        await screen.findByRole('button', { name: 'DONE' });
+        await userEvent.keyboard('d');
+
+        await waitFor(async () => expect(await tasksDB.getCompletedTasks()).toHaveLength(1));
+    });
+
+    test('should only stop a session from the keyboard when STOP shows', async () => {
+        const startTime = Date.now() - 10 * MINUTE;
+        await timerStateDB.set(
+            makeTimerState({
+                timeLeft: 15 * MINUTE,
+                hasStarted: true,
+                activeTaskId: 'a',
+                startTime,
+                sessionStartTime: startTime,
+                sessionDuration: 25 * MINUTE,
+                currentInterruption: { pausedAt: startTime + 10 * MINUTE },
+            })
+        );
+        renderHome();
+        await screen.findByRole('button', { name: 'RESUME' });
+
+        // Paused, the button reads DONE
+        await userEvent.keyboard('x');
+        expect(screen.getByRole('button', { name: 'RESUME' })).toBeInTheDocument();
+
+        await userEvent.click(screen.getByRole('button', { name: 'RESUME' }));
+        await screen.findByRole('button', { name: 'STOP' });
+        await userEvent.keyboard('x');
+
+        await screen.findByRole('button', { name: 'START' });
+    });
+
+    test("should show today's goal and link to the week's on the Stats page", async () => {
+        renderHome();
+
+        const link = await screen.findByRole('link', { name: /Week/ });
+
+        expect(link).toHaveAttribute('href', '/stats');
+        expect(screen.getByRole('img', { name: 'Daily pomodoro goal: 0 of 8' })).toBeInTheDocument();
+    });
+
+    describe('auto-start', () => {
+        // A 90-minute pomodoro on the task that ran out while the page was closed
+        const saveFinishedPomodoro = (taskId: string) => {
+            const startTime = Date.now() - 91 * MINUTE;
+            return timerStateDB.set(
+                makeTimerState({
+                    isRunning: true,
+                    hasStarted: true,
+                    activeTaskId: taskId,
+                    selectedTaskId: taskId,
+                    startTime,
+                    sessionStartTime: startTime,
+                    sessionDuration: 90 * MINUTE,
+                    expectedEndTime: startTime + 90 * MINUTE,
+                })
+            );
+        };
+
+        // Runs the next second of the countdown, once React has run the effect that schedules it
+        const tick = async () => {
+            await act(() => new Promise((resolve) => setImmediate(resolve)));
+            act(() => vi.advanceTimersByTime(1000));
+        };
+
+        beforeEach(async () => {
+            await settingsDB.set('autoStartBreaks', true);
+            await settingsDB.set('autoStartDelay', 3);
+            // The countdown runs on setTimeout, which still moves on by itself
+            // as the testing library waits on it between steps
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        test('should count down to the break and then start it', async () => {
+            await saveFinishedPomodoro('a');
+            renderHome();
+
+            await screen.findByText('Break starts in 3s');
+            await tick();
+            expect(screen.getByText('Break starts in 2s')).toBeInTheDocument();
+            await tick();
+            await tick();
+
+            await screen.findByRole('button', { name: 'PAUSE' });
+            expect(screen.getByText('Short Break')).toBeInTheDocument();
+            expect(screen.queryByText(/starts in/)).not.toBeInTheDocument();
+        });
+
+        test('should not start the break once the countdown is cancelled', async () => {
+            const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+            await saveFinishedPomodoro('a');
+            renderHome();
+
+            await screen.findByText('Break starts in 3s');
+            await user.click(screen.getByRole('button', { name: 'Cancel' }));
+            await tick();
+            await tick();
+            await tick();
+
+            expect(screen.queryByText(/starts in/)).not.toBeInTheDocument();
+            expect(screen.getByRole('button', { name: 'START' })).toBeInTheDocument();
+        });
+
+        test('should carry on with the task after the finished one', async () => {
+            await settingsDB.set('autoPickNextTask', true);
+            await tasksDB.delete('a');
+            await tasksDB.add(makeTask('x'));
+            await tasksDB.add(makeTask('a'));
+            await tasksDB.add(makeTask('b'));
+            await saveFinishedPomodoro('a');
+            renderHome();
+
+            await screen.findByText('Break starts in 3s');
+            await waitFor(async () => expect((await timerStateDB.get())?.selectedTaskId).toBe('b'));
+        });
+
+        test('should go back to the first task without auto-pick', async () => {
+            await tasksDB.delete('a');
+            await tasksDB.add(makeTask('x'));
+            await tasksDB.add(makeTask('a'));
+            await tasksDB.add(makeTask('b'));
+            await saveFinishedPomodoro('a');
+            renderHome();
+
+            await screen.findByText('Break starts in 3s');
+            await tick();
+            await tick();
+            await tick();
+            await screen.findByRole('button', { name: 'PAUSE' });
+
+            // The finished task is gone, so the next pomodoro is on the first task
+            expect((await timerStateDB.get())?.selectedTaskId).toBe('a');
+            expect(await tasksDB.get('a')).toBeNull();
+        });
+    });
+});
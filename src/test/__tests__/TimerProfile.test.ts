@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DEFAULT_TIMER_SETTINGS } from '../../constants/timerConstants';
+import { tasksDB } from '../../utils/database';
+import { applyTimerProfile } from '../../utils/timerProfile';
+import {
+    calculateEstimatedCompletion,
+    calculateTotalDuration,
+} from '../../utils/timeCalculations';
+import type { TimerSettings } from '../../types';
+import { clearDatabase, makeTask, MINUTE } from '../factories';
+import { renderHome } from '../renderHome';
+
+const settings: TimerSettings = {
+    ...DEFAULT_TIMER_SETTINGS,
+    workDuration: 25 * MINUTE,
+    breakDuration: 5 * MINUTE,
+    longBreakDuration: 15 * MINUTE,
+    sessionsUntilLongBreak: 4,
+};
+
+describe('Task timer profiles', () => {
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('should override only the lengths the profile sets', () => {
+        expect(applyTimerProfile(settings, undefined)).toBe(settings);
+        expect(applyTimerProfile(settings, { workDuration: 90 * MINUTE })).toEqual({
+            ...settings,
+            workDuration: 90 * MINUTE,
+        });
+        expect(
+            applyTimerProfile(settings, { workDuration: 15 * MINUTE, breakDuration: 3 * MINUTE })
+        ).toEqual({ ...settings, workDuration: 15 * MINUTE, breakDuration: 3 * MINUTE });
+    });
+
+    test('should estimate finish times with each task at its own lengths', () => {
+        const tasks = [
+            makeTask('deep', {
+                pomodoros: 2,
+                timerProfile: { workDuration: 90 * MINUTE, breakDuration: 20 * MINUTE },
+            }),
+            makeTask('email', { timerProfile: { workDuration: 15 * MINUTE } }),
+            makeTask('plain'),
+        ];
+        const estimate = (taskIndex: number) =>
+            (calculateEstimatedCompletion(tasks, taskIndex, null, false, null, null, settings) - now) /
+            MINUTE;
+
+        expect(estimate(0)).toBe(180);
+        expect(estimate(1)).toBe(180 + 20 + 20 + 15);
+        expect(estimate(2)).toBe(180 + 20 + 20 + 15 + 5 + 25);
+    });
+
+    test('should add up the work time of mixed lengths', () => {
+        const tasks = [
+            makeTask('deep', { timerProfile: { workDuration: 90 * MINUTE } }),
+            makeTask('email', { pomodoros: 2, timerProfile: { workDuration: 15 * MINUTE } }),
+            makeTask('plain'),
+        ];
+
+        expect(calculateTotalDuration(tasks, settings)).toEqual({ hours: 2, minutes: 25 });
+    });
+});
+
+describe('Marking a task with a timer profile as done', () => {
+    beforeEach(async () => {
+        await clearDatabase();
+    });
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should record a pomodoro of the length the task runs for', async () => {
+        await tasksDB.add(makeTask('a', { timerProfile: { workDuration: 15 * MINUTE } }));
+        renderHome();
+
+        await userEvent.click(await screen.findByRole('button', { name: 'More options for Task a' }));
+        await userEvent.click(screen.getByRole('menuitem', { name: /Mark as done/ }));
+
+        await waitFor(async () => expect(await tasksDB.getCompletedTasks()).toHaveLength(1));
+        const [pomodoro] = await tasksDB.getCompletedTasks();
+        expect(pomodoro.duration).toBe(15 * MINUTE);
+        expect(pomodoro.endTime! - pomodoro.startTime!).toBe(15 * MINUTE);
+        expect(pomodoro.timerSettings?.workDuration).toBe(15 * MINUTE);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import type { TimerState } from '../../types';
+import { timerStateDB } from '../../utils/database';
+import { requestTimerLeadership } from '../../utils/tabSync';
+import { clearDatabase, makeTimerState, MINUTE } from '../factories';
+import { openOtherTab } from '../otherTab';
+import { renderTimerContext } from '../renderTimerContext';
+
+vi.mock('../../utils/tabSync', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../utils/tabSync')>()),
+    requestTimerLeadership: vi.fn(),
+}));
+
+// A pomodoro started at startTime and due to end at expectedEndTime
+const saveRunningPomodoro = (expectedEndTime: number) => {
+    const startTime = expectedEndTime - 25 * MINUTE;
+    return timerStateDB.set(
+        makeTimerState({
+            isRunning: true,
+            hasStarted: true,
+            activeTaskId: 'a',
+            selectedTaskId: 'a',
+            startTime,
+            sessionStartTime: startTime,
+            sessionDuration: 25 * MINUTE,
+            expectedEndTime,
+        })
+    );
+};
+
+describe('Restoring the timer', () => {
+    beforeEach(async () => {
+        await clearDatabase();
+        // The only tab open leads at once
+        vi.mocked(requestTimerLeadership).mockImplementation((onAcquired) => {
+            onAcquired();
+            return () => {};
+        });
+    });
+
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should resume a running session from its expected end time', async () => {
+        await saveRunningPomodoro(Date.now() + 10 * MINUTE);
+
+        const { result, onComplete } = renderTimerContext();
+
+        await waitFor(() => expect(result.current.state.activeTaskId).toBe('a'));
+        const { state } = result.current;
+        expect(state.isRunning).toBe(true);
+        // The time left saved with the state is stale; the end time is not
+        expect(state.timeLeft).toBeLessThanOrEqual(10 * MINUTE);
+        expect(state.timeLeft).toBeGreaterThan(9 * MINUTE);
+        expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    test('should complete a session that ran out while the page was closed', async () => {
+        const expectedEndTime = Date.now() - 2 * MINUTE;
+        await saveRunningPomodoro(expectedEndTime);
+
+        const { result, onComplete } = renderTimerContext();
+
+        await waitFor(() => expect(onComplete).toHaveBeenCalledTimes(1));
+        expect(onComplete.mock.calls[0][0]).toMatchObject({
+            activeTaskId: 'a',
+            expectedEndTime,
+            hasCompleted: true,
+            timeLeft: 0,
+        });
+        expect(result.current.state).toMatchObject({ isRunning: false, hasCompleted: true });
+    });
+
+    test('should keep a paused session paused', async () => {
+        await timerStateDB.set(
+            makeTimerState({
+                timeLeft: 12 * MINUTE,
+                hasStarted: true,
+                activeTaskId: 'a',
+                startTime: 0,
+                sessionStartTime: 0,
+                currentInterruption: { pausedAt: 13 * MINUTE },
+            })
+        );
+
+        const { result, onComplete } = renderTimerContext();
+
+        await waitFor(() => expect(result.current.state.activeTaskId).toBe('a'));
+        expect(result.current.state).toMatchObject({ timeLeft: 12 * MINUTE, isRunning: false });
+        expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    describe('with another tab open', () => {
+        let otherTab: ReturnType<typeof openOtherTab>;
+
+        beforeEach(() => {
+            otherTab = openOtherTab();
+        });
+
+        afterEach(() => {
+            otherTab.close();
+        });
+
+        test('should keep the state of the leading tab over the saved one', async () => {
+            vi.mocked(requestTimerLeadership).mockImplementation(() => () => {});
+            // The saved state is read only after the leading tab has answered
+            let readSavedState: (state: TimerState) => void = () => {};
+            const get = vi.spyOn(timerStateDB, 'get').mockReturnValueOnce(
+                new Promise((resolve) => {
+                    readSavedState = resolve;
+                })
+            );
+            const { result } = renderTimerContext();
+
+            otherTab.post({ type: 'TIMER_STATE', state: makeTimerState({ selectedTaskId: 'b' }) });
+            await waitFor(() => expect(result.current.state.selectedTaskId).toBe('b'));
+            await act(async () => readSavedState(makeTimerState({ selectedTaskId: 'stale' })));
+
+            expect(result.current.state.selectedTaskId).toBe('b');
+            get.mockRestore();
+        });
+
+        test('should only save the timer once this tab leads', async () => {
+            let acquireLeadership = () => {};
+            vi.mocked(requestTimerLeadership).mockImplementation((onAcquired) => {
+                acquireLeadership = onAcquired;
+                return () => {};
+            });
+            const { result } = renderTimerContext();
+
+            // Mirrors the leading tab without saving what it shows
+            const leaderState = makeTimerState({ selectedTaskId: 'b', sessionsCompleted: 3 });
+            otherTab.post({ type: 'TIMER_STATE', state: leaderState });
+            await waitFor(() => expect(result.current.state.selectedTaskId).toBe('b'));
+            expect(await timerStateDB.get()).toBeNull();
+
+            // The leading tab closes
+            act(() => acquireLeadership());
+
+            await waitFor(async () => expect(await timerStateDB.get()).toEqual(leaderState));
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { timerStateDB, initDB, TIMER_STATE_STORE } from '../../utils/database';
+import { TIMER_TYPES } from '../../constants/timerConstants';
+import type { TimerState } from '../../types';
+
+describe('Timer State Database Integration', () => {
+    const runningState: TimerState = {
+        timeLeft: 25 * 60 * 1000,
+        isRunning: true,
+        hasStarted: true,
+        timerType: TIMER_TYPES.WORK,
+        activeTaskId: 'task-1',
+        selectedTaskId: null,
+        startTime: 1_700_000_000_000,
+        sessionStartTime: 1_700_000_000_000,
+        sessionDuration: 25 * 60 * 1000,
+        expectedEndTime: 1_700_000_000_000 + 25 * 60 * 1000,
+        sessionsCompleted: 2,
+        hasCompleted: false,
+        interruptions: [{ pausedAt: 1_700_000_300_000, duration: 60_000, reason: 'external' }],
+        currentInterruption: null,
+        breakExtension: 0,
+        sequenceId: null,
+        segmentIndex: 0
+    };
+
+    // Clean up database after all tests
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    beforeEach(async () => {
+        await timerStateDB.clear();
+    });
+
+    test('should create the timer state store during migration', async () => {
+        const db = await initDB();
+        expect(db.objectStoreNames.contains(TIMER_STATE_STORE)).toBe(true);
+    });
+
+    test('should return null when no timer state was saved', async () => {
+        expect(await timerStateDB.get()).toBeNull();
+    });
+
+    test('should save and restore the timer state', async () => {
+        await timerStateDB.set(runningState);
+
+        expect(await timerStateDB.get()).toEqual(runningState);
+    });
+
+    test('should keep only the latest timer state', async () => {
+        await timerStateDB.set(runningState);
+        await timerStateDB.set({ ...runningState, isRunning: false, timeLeft: 1000 });
+
+        const restored = await timerStateDB.get();
+        expect(restored?.isRunning).toBe(false);
+        expect(restored?.timeLeft).toBe(1000);
+    });
+
+    test('should persist timer state across database connections', async () => {
+        await timerStateDB.set(runningState);
+
+        const db = await initDB();
+        db.close();
+
+        expect(await timerStateDB.get()).toEqual(runningState);
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { tasksDB } from '../../utils/database';
+import {
+    EMPTY_UNDO_HISTORY,
+    MAX_UNDO_HISTORY,
+    recordChange,
+    restoreTaskOrder,
+    takeRedo,
+    takeUndo,
+} from '../../utils/undoHistory';
+import type { Task, UndoableChange } from '../../types';
+import { clearDatabase, makeTask } from '../factories';
+import { renderHome } from '../renderHome';
+
+const makeChange = (label: string): UndoableChange => ({
+    label,
+    undo: async () => {},
+    redo: async () => {},
+});
+
+describe('Undo and redo of task changes', () => {
+    afterAll(async () => {
+        await indexedDB.deleteDatabase('dev_PomodoroDB');
+    });
+
+    test('should undo the latest change first and redo it again', () => {
+        const history = recordChange(recordChange(EMPTY_UNDO_HISTORY, makeChange('a')), makeChange('b'));
+
+        const undone = takeUndo(history);
+        expect(undone?.change.label).toBe('b');
+
+        const redone = takeRedo(undone!.history);
+        expect(redone?.change.label).toBe('b');
+        expect(redone?.history.past.map(change => change.label)).toEqual(['a', 'b']);
+        expect(takeRedo(redone!.history)).toBeNull();
+    });
+
+    test('should forget undone changes once something else changes', () => {
+        const undone = takeUndo(recordChange(EMPTY_UNDO_HISTORY, makeChange('a')))!.history;
+
+        const history = recordChange(undone, makeChange('b'));
+
+        expect(history.future).toEqual([]);
+        expect(takeUndo(EMPTY_UNDO_HISTORY)).toBeNull();
+    });
+
+    test('should keep only the most recent changes', () => {
+        let history = EMPTY_UNDO_HISTORY;
+        for (let i = 0; i <= MAX_UNDO_HISTORY; i++) {
+            history = recordChange(history, makeChange(String(i)));
+        }
+
+        expect(history.past).toHaveLength(MAX_UNDO_HISTORY);
+        expect(history.past[0].label).toBe('1');
+    });
+
+    test('should restore an earlier order, keeping newer tasks after it', () => {
+        const tasks = [makeTask('c'), makeTask('new'), makeTask('a'), makeTask('b')];
+
+        expect(restoreTaskOrder(tasks, ['a', 'deleted', 'b', 'c']).map(task => task.id)).toEqual([
+            'a',
+            'b',
+            'c',
+            'new',
+        ]);
+    });
+
+    describe('restoring a pomodoro marked as done', () => {
+        beforeEach(async () => {
+            await clearDatabase();
+        });
+
+        const completedPomodoro = (task: Task): Task => ({
+            ...task,
+            id: `completed-${task.id}`,
+            completed: true,
+            pomodoros: 1,
+            endTime: 1000,
+        });
+
+        test('should give the pomodoro back to a task that still has some left', async () => {
+            const task = makeTask('a', { pomodoros: 3 });
+            await tasksDB.add(task);
+            await tasksDB.completeOnePomodoro(task.id, completedPomodoro(task));
+
+            await tasksDB.restorePomodoro(task, 'completed-a');
+
+            expect((await tasksDB.get('a'))?.pomodoros).toBe(3);
+            expect(await tasksDB.getCompletedTasks()).toEqual([]);
+        });
+
+        test('should put back a task whose last pomodoro was done', async () => {
+            const task = makeTask('a', { pomodoros: 1 });
+            await tasksDB.add(task);
+            await tasksDB.completeOnePomodoro(task.id, completedPomodoro(task));
+            expect(await tasksDB.get('a')).toBeNull();
+
+            await tasksDB.restorePomodoro(task, 'completed-a');
+
+            expect(await tasksDB.get('a')).toMatchObject({ id: 'a', pomodoros: 1 });
+            expect(await tasksDB.getCompletedTasks()).toEqual([]);
+        });
+    });
+
+    describe('undoing an edit of some fields of a task', () => {
+        beforeEach(async () => {
+            await clearDatabase();
+        });
+
+        test('should keep later changes to the other fields', async () => {
+            await tasksDB.add(makeTask('a', { description: 'Draft' }));
+            await tasksDB.patch('a', { description: 'Final draft' });
+            // Changed after the edit, e.g. by completing a pomodoro in another tab
+            await tasksDB.patch('a', { pomodoros: 4, notes: 'Check the figures' });
+
+            await tasksDB.patch('a', { description: 'Draft' });
+
+            expect(await tasksDB.get('a')).toMatchObject({
+                description: 'Draft',
+                pomodoros: 4,
+                notes: 'Check the figures',
+            });
+        });
+
+        test('should skip a task that is gone', async () => {
+            await tasksDB.add(makeTask('a'));
+            await tasksDB.delete('a');
+
+            await tasksDB.patch('a', { description: 'Draft' });
+
+            expect(await tasksDB.get('a')).toBeNull();
+            expect(await tasksDB.getAll()).toEqual([]);
+        });
+
+        test('should only undo the field changed on the home page', async () => {
+            await tasksDB.add(makeTask('a'));
+            renderHome();
+
+            await userEvent.click(
+                await screen.findByRole('button', { name: 'Add pomodoro to Task a (currently 1)' })
+            );
+            await screen.findByRole('button', { name: 'Add pomodoro to Task a (currently 2)' });
+            // Renamed in another tab before the change is undone
+            await tasksDB.patch('a', { description: 'Renamed' });
+            await userEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+            await waitFor(async () =>
+                expect(await tasksDB.get('a')).toMatchObject({ description: 'Renamed', pomodoros: 1 })
+            );
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { TIMER_TYPES } from '../constants/timerConstants';
+import type { DatabaseSnapshot, Task, TimerState } from '../types';
+import { backupDB, timerStateDB } from '../utils/database';
+
+export const MINUTE = 60 * 1000;
+
+/**
+ * An active task in the Work category with one pomodoro left.
+ */
+export const makeTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    category: 'Work',
+    description: `Task ${id}`,
+    completed: false,
+    pomodoros: 1,
+    ...overrides,
+});
+
+/**
+ * A 25-minute pomodoro completed at endTime.
+ */
+export const makeCompletedTask = (
+    id: string,
+    endTime: number,
+    overrides: Partial<Task> = {}
+): Task =>
+    makeTask(id, { completed: true, endTime, duration: 25 * MINUTE, ...overrides });
+
+/**
+ * A timer waiting to start a 25-minute pomodoro, as a fresh install has it.
+ */
+export const makeTimerState = (overrides: Partial<TimerState> = {}): TimerState => ({
+    timeLeft: 25 * MINUTE,
+    isRunning: false,
+    hasStarted: false,
+    timerType: TIMER_TYPES.WORK,
+    activeTaskId: null,
+    selectedTaskId: null,
+    startTime: null,
+    sessionStartTime: null,
+    sessionDuration: null,
+    expectedEndTime: undefined,
+    sessionsCompleted: 0,
+    hasCompleted: false,
+    interruptions: [],
+    currentInterruption: null,
+    breakExtension: 0,
+    sequenceId: null,
+    segmentIndex: 0,
+    ...overrides,
+});
+
+export const EMPTY_SNAPSHOT: DatabaseSnapshot = {
+    tasks: [],
+    completedTasks: [],
+    settings: [],
+    categories: [],
+    sessions: [],
+    sequences: [],
+};
+
+/**
+ * Empties every store that is part of an export, and forgets the saved timer.
+ */
+export const clearDatabase = async (): Promise<void> => {
+    await backupDB.importAll(EMPTY_SNAPSHOT, 'replace');
+    await timerStateDB.clear();
+};
@@ -0,0 +1,24 @@
+import type { TabSyncEnvelope, TabSyncMessage } from '../types';
+import { CHANNEL_NAME } from '../utils/tabSync';
+
+/**
+ * Stands in for another open tab of the app, posting to and reading from
+ * the channel the tabs share.
+ */
+export const openOtherTab = () => {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    const received: TabSyncMessage[] = [];
+    channel.addEventListener('message', (event: MessageEvent<TabSyncEnvelope>) => {
+        received.push(event.data.message);
+    });
+
+    return {
+        // Messages posted by the tabs under test, oldest first
+        received,
+        post: (message: TabSyncMessage) => {
+            const envelope: TabSyncEnvelope = { senderId: 'other-tab', message };
+            channel.postMessage(envelope);
+        },
+        close: () => channel.close(),
+    };
+};
@@ -0,0 +1,26 @@
+import { render } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { CategoriesProvider } from '../contexts/CategoriesContext';
+import { CommandsProvider } from '../contexts/CommandsContext';
+import { SequencesProvider } from '../contexts/SequencesContext';
+import { SettingsProvider } from '../contexts/SettingsContext';
+import Home from '../pages/Home';
+
+/**
+ * Renders the home page with the providers App wraps it in, reading
+ * its tasks, settings and saved timer from the test database.
+ */
+export const renderHome = () =>
+    render(
+        <SettingsProvider>
+            <CategoriesProvider>
+                <SequencesProvider>
+                    <MemoryRouter>
+                        <CommandsProvider>
+                            <Home />
+                        </CommandsProvider>
+                    </MemoryRouter>
+                </SequencesProvider>
+            </CategoriesProvider>
+        </SettingsProvider>
+    );
@@ -0,0 +1,45 @@
+import React from 'react';
+import { vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { TimerProvider } from '../contexts/TimerContext';
+import useTimerContext from '../hooks/useTimerContext';
+import type { TimerSettings } from '../types';
+import { MINUTE } from './factories';
+
+type TimerProviderProps = Omit<React.ComponentProps<typeof TimerProvider>, 'children'>;
+
+export const TEST_TIMER_SETTINGS: TimerSettings = {
+    workDuration: 25 * MINUTE,
+    breakDuration: 5 * MINUTE,
+    longBreakDuration: 15 * MINUTE,
+    sessionsUntilLongBreak: 4,
+};
+
+/**
+ * Renders the timer context on its own, with 25-minute pomodoros and
+ * 5-minute breaks unless the props say otherwise.
+ * @returns The rendered hook, a rerender that takes new provider props,
+ * and the mock called when a session completes.
+ */
+export const renderTimerContext = (props: TimerProviderProps = {}) => {
+    // Read on every render, so that rerender picks up the new props
+    let providerProps = props;
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <TimerProvider settings={TEST_TIMER_SETTINGS} {...providerProps}>
+            {children}
+        </TimerProvider>
+    );
+
+    const onComplete = vi.fn();
+    const hook = renderHook(() => useTimerContext(), { wrapper });
+    act(() => hook.result.current.setOnComplete(onComplete));
+
+    return {
+        ...hook,
+        onComplete,
+        rerender: (newProps: TimerProviderProps) => {
+            providerProps = newProps;
+            hook.rerender();
+        },
+    };
+};
@@ -0,0 +1,45 @@
+import type { Category } from './category';
+import type { SessionSequence } from './sequence';
+import type { TimerSession } from './session';
+import type { Task } from './task';
+
+// A settings record exactly as it is kept in the settings store
+export interface StoredSetting {
+  id: string;
+  value: unknown;
+  version?: number;
+}
+
+// Contents of every store covered by an export
+export interface DatabaseSnapshot {
+  tasks: Task[];
+  completedTasks: Task[];
+  settings: StoredSetting[];
+  categories: Category[];
+  sessions: TimerSession[];
+  sequences: SessionSequence[];
+}
+
+export interface ExportDocument {
+  format: string;
+  // DB version the data was exported from
+  schemaVersion: number;
+  exportedAt: number;
+  stores: DatabaseSnapshot;
+}
+
+// replace: wipe the stores first; merge: upsert records by id; dry-run: only report
+export type ImportMode = 'replace' | 'merge' | 'dry-run';
+
+export interface ImportStoreSummary {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export interface ImportSummary {
+  mode: ImportMode;
+  // Version of the imported file before it was upgraded
+  schemaVersion: number;
+  stores: Record<keyof DatabaseSnapshot, ImportStoreSummary>;
+}
@@ -0,0 +1,17 @@
+export interface Category {
+  id: string;
+  // Tasks refer to a category by name; names are unique ignoring case
+  name: string;
+  color: string;
+  emoji?: string;
+  // Archived categories are kept for history but no longer suggested
+  archived: boolean;
+}
+
+export interface CategoriesContextType {
+  categories: Category[];
+  isLoading: boolean;
+  // Finds the category with this name, ignoring case
+  getCategory: (name: string) => Category | undefined;
+  reloadCategories: () => Promise<void>;
+}
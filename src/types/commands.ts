@@ -0,0 +1,46 @@
+// Commands that can be bound to a key in Settings
+export type CommandId =
+  | 'timer.toggle'
+  | 'timer.skip'
+  | 'timer.stop'
+  | 'timer.done'
+  | 'task.new'
+  | 'task.next'
+  | 'task.previous'
+  | 'task.undo'
+  | 'task.redo'
+  | 'nav.home'
+  | 'nav.stats'
+  | 'nav.settings'
+  | 'palette.open'
+  | 'help.open';
+
+export type CommandGroup = 'Timer' | 'Tasks' | 'Categories' | 'Navigation' | 'General';
+
+// The key combo of each command, e.g. "Mod+K"; an empty string leaves it unbound
+export type KeyBindings = Record<CommandId, string>;
+
+export interface CommandDefinition {
+  title: string;
+  group: CommandGroup;
+}
+
+export interface Command {
+  // A CommandId for bindable commands; other ids, e.g. one per task, are only found in the palette
+  id: string;
+  title: string;
+  group: CommandGroup;
+  // Extra text the palette matches, e.g. the category of a task
+  keywords?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+export interface CommandsContextType {
+  // Adds commands until the returned function is called
+  registerCommands: (commands: Command[]) => () => void;
+  getCommands: () => Command[];
+  keyBindings: KeyBindings;
+  openPalette: () => void;
+  openHelp: () => void;
+}
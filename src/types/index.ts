@@ -2,4 +2,14 @@
 export * from './timer';
 export * from './task';
 export * from './ui';
-export * from './hooks';
\ No newline at end of file
+export * from './hooks';
+export * from './settings';
+export * from './sync';
+export * from './backup';
+export * from './stats';
+export * from './category';
+export * from './session';
+export * from './commands';
+export * from './undo';
+export * from './search';
+export * from './sequence';
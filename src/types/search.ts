@@ -0,0 +1,42 @@
+import type { DateRange, StatsRangePreset } from './stats';
+import type { Task } from './task';
+
+// The stores whose records are searched
+export type SearchableStore = 'tasks' | 'completedTasks';
+
+// A record of the search index: one per word of each task and completed task
+export interface SearchIndexEntry {
+  term: string;
+  store: SearchableStore;
+  taskId: string;
+}
+
+export interface SearchOptions {
+  // Only tasks in this category, compared case-insensitively
+  category?: string | null;
+  // Only completed tasks that ended in the range; active tasks have not ended
+  range?: DateRange | null;
+  // Maximum number of results to return
+  limit?: number;
+}
+
+export interface SearchResult {
+  task: Task;
+  isCompleted: boolean;
+}
+
+export interface SearchCategoryCount {
+  category: string;
+  count: number;
+}
+
+export interface SearchResults {
+  // Active tasks first, in list order, then completed tasks, newest first
+  results: SearchResult[];
+  // Number of matches, including those past the limit
+  total: number;
+  // Categories of the matches in the range, whatever the category filter, most matches first
+  categories: SearchCategoryCount[];
+}
+
+export type SearchDatePreset = 'anyTime' | Exclude<StatsRangePreset, 'custom'>;
@@ -0,0 +1,28 @@
+import type { TimerType } from '../constants/timerConstants';
+
+// One step of a session sequence, e.g. a 52-minute work session
+export interface SequenceSegment {
+  type: TimerType;
+  // In milliseconds
+  duration: number;
+  label: string;
+  color: string;
+}
+
+// A user-defined cycle of sessions the timer runs through in order, then starts over
+export interface SessionSequence {
+  id: string;
+  name: string;
+  segments: SequenceSegment[];
+  // Days of the week, 0 being Sunday, the sequence is used on unless a task has its own
+  weekdays: number[];
+}
+
+// A sequence offered ready-made on the Settings page
+export type SequencePreset = Pick<SessionSequence, 'name' | 'segments'>;
+
+export interface SequencesContextType {
+  sequences: SessionSequence[];
+  isLoading: boolean;
+  reloadSequences: () => Promise<void>;
+}
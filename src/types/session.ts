@@ -0,0 +1,19 @@
+import type { TimerType } from '../constants/timerConstants';
+import type { FocusSegment } from './timer';
+
+// How a run ended: ran out or was marked as done, was skipped before it
+// started, or was stopped and thrown away
+export type SessionOutcome = 'completed' | 'skipped' | 'stopped';
+
+// One run of the timer, as logged in the sessions store
+export interface TimerSession {
+  id: string;
+  type: TimerType;
+  outcome: SessionOutcome;
+  startTime: number;
+  endTime: number;
+  // The task a work session was started on
+  taskId?: string;
+  // Spans the timer was running, between its pauses
+  segments: FocusSegment[];
+}
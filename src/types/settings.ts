@@ -0,0 +1,53 @@
+import type { KeyBindings } from './commands';
+import type { TimerSettings } from './timer';
+
+// Every user preference and the type of its value
+export interface SettingsValues {
+  addTasksToBottom: boolean;
+  timerSettings: TimerSettings;
+  dailyPomodoroGoal: number;
+  // Focus minutes per week
+  weeklyFocusGoal: number;
+  keyBindings: KeyBindings;
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+  autoPickNextTask: boolean;
+  // Seconds to cancel a session before it starts by itself
+  autoStartDelay: number;
+  overtimeMode: boolean;
+  extendBreaksAfterOvertime: boolean;
+}
+
+export type SettingKey = keyof SettingsValues;
+
+export type SettingType = 'number' | 'string' | 'enum' | 'boolean' | 'object';
+
+// Describes how a single setting is stored, validated and presented
+export interface SettingDefinition<T> {
+  type: SettingType;
+  defaultValue: T;
+  // Bumped whenever the stored shape changes; stored records carry the version they were written with
+  version: number;
+  validate: (value: unknown) => value is T;
+  // Upgrades a value written by an older version before it is validated
+  migrate?: (value: unknown, fromVersion: number) => unknown;
+  // Allowed values for enum settings
+  options?: readonly T[];
+  // Bounds for number settings
+  min?: number;
+  max?: number;
+  // Settings with a label are rendered generically on the Settings page
+  label?: string;
+  description?: string;
+}
+
+export type SettingsRegistry = {
+  [K in SettingKey]: SettingDefinition<SettingsValues[K]>;
+};
+
+export interface SettingsContextType {
+  settings: SettingsValues;
+  isLoading: boolean;
+  updateSetting: <K extends SettingKey>(key: K, value: SettingsValues[K]) => Promise<void>;
+  reloadSettings: () => Promise<void>;
+}
@@ -0,0 +1,99 @@
+import type { TimerType } from '../constants/timerConstants';
+import type { Task } from './task';
+
+// Position of the last completed task of a page, in the endTime index order
+export interface CompletedTasksCursor {
+  endTime: number;
+  id: string;
+}
+
+export interface CompletedTasksPageOptions {
+  // Maximum number of tasks to return; all remaining tasks when omitted
+  limit?: number;
+  cursor?: CompletedTasksCursor | null;
+}
+
+export interface CompletedTasksPage {
+  tasks: Task[];
+  // null once the range has been read completely
+  nextCursor: CompletedTasksCursor | null;
+}
+
+export type StatsRangePreset = 'today' | 'week' | 'month' | 'last30Days' | 'custom';
+
+// A time span as [from, to) in milliseconds
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+// Focus time of a single local calendar day
+export interface DailyFocus {
+  // Local midnight at the start of the day
+  day: number;
+  minutes: number;
+  pomodoros: number;
+  // Minutes per category
+  byCategory: Record<string, number>;
+}
+
+export interface CategoryTotal {
+  // Case-insensitive identity of the category
+  key: string;
+  // Spelling shown for the category
+  category: string;
+  minutes: number;
+  pomodoros: number;
+}
+
+export interface CategoryAnalytics extends CategoryTotal {
+  averageMinutes: number;
+  // Fraction of all focus time in the range, from 0 to 1
+  share: number;
+  // Focus minutes in the last 7 days and the 7 days before them
+  thisWeekMinutes: number;
+  lastWeekMinutes: number;
+}
+
+export interface Streaks {
+  // Consecutive days up to today reaching the daily goal; today counts once reached
+  current: number;
+  longest: number;
+}
+
+export interface WeeklyGoalProgress {
+  // Local midnight at the start of the week's Monday
+  weekStart: number;
+  minutes: number;
+  // Days of the week that reached the daily pomodoro goal
+  daysMeetingDailyGoal: number;
+  met: boolean;
+}
+
+export interface InterruptionSummary {
+  // Completed pomodoros recorded with interruption tracking
+  sessions: number;
+  interruptions: number;
+  internal: number;
+  external: number;
+  pausedTime: number;
+}
+
+export interface BreakAdherence {
+  // Breaks the timer moved on to after a pomodoro
+  suggested: number;
+  taken: number;
+  skipped: number;
+  stopped: number;
+  // Share of suggested breaks taken, or null when none were suggested
+  ratio: number | null;
+}
+
+// A span of the day timeline during which the timer ran
+export interface TimelineBlock {
+  type: TimerType;
+  start: number;
+  end: number;
+  // The task worked on; empty for breaks
+  label: string;
+}
@@ -0,0 +1,28 @@
+import type { TimerType } from '../constants/timerConstants';
+import type { Task } from './task';
+import type { InterruptionReason, TimerState } from './timer';
+
+// Timer actions a follower tab forwards to the leader tab
+export type TimerCommand =
+  | { name: 'startTimer'; task: Task }
+  | { name: 'startBreak'; breakType: TimerType }
+  | { name: 'pauseTimer' }
+  | { name: 'setInterruptionReason'; reason: InterruptionReason }
+  | { name: 'selectTask'; taskId: string | null }
+  | { name: 'selectSequence'; sequenceId: string | null }
+  | { name: 'resetTimer' }
+  | { name: 'switchTimer' };
+
+// Messages exchanged between tabs over the BroadcastChannel
+export type TabSyncMessage =
+  | { type: 'TIMER_STATE'; state: TimerState }
+  | { type: 'TIMER_STATE_REQUEST' }
+  | { type: 'TIMER_COMMAND'; command: TimerCommand }
+  | { type: 'TASKS_CHANGED' }
+  | { type: 'SESSIONS_CHANGED' }
+  | { type: 'SEQUENCES_CHANGED' };
+
+export interface TabSyncEnvelope {
+  senderId: string;
+  message: TabSyncMessage;
+}
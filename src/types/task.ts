@@ -1,4 +1,12 @@
-import type { TimerSettings } from './timer';
+import type { FocusSegment, Interruption, TimerProfile, TimerSettings } from './timer';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+  // When it was ticked; cleared when unticked
+  doneAt?: number;
+}
 
 export interface Task {
   id: string;
@@ -9,6 +17,26 @@ export interface Task {
   completed: boolean;
   pomodoros: number;
   order?: number;
+  // Pauses of a completed pomodoro; missing on records from before they were tracked
+  interruptions?: Interruption[];
+  // When a completed pomodoro was started
+  startTime?: number;
+  // Spans the timer was running; empty when marked as done without the timer
+  segments?: FocusSegment[];
+  // Timer settings in use when the pomodoro was completed
+  timerSettings?: TimerSettings;
+  // Checklist of the task, in order
+  subtasks?: Subtask[];
+  // On completed pomodoros, the subtasks ticked during the session
+  checkedSubtaskIds?: string[];
+  // On completed pomodoros, time worked past the end of the session, in milliseconds
+  overtime?: number;
+  // Markdown, carried over to completed pomodoros
+  notes?: string;
+  // Session sequence the timer runs while working on the task, instead of the day's
+  sequenceId?: string;
+  // Work and break lengths used instead of the timer settings while the timer is on the task
+  timerProfile?: TimerProfile;
 }
 
 export interface TaskInputProps {
@@ -27,12 +55,15 @@ export interface TaskInputProps {
 
 export interface TaskListProps {
   tasks: Task[];
-  activeTaskId: string | null;
   onReorder: (reorderedTasks: Task[]) => void;
   onDelete: (taskId: string) => void;
   onUpdatePomodoros: (taskId: string, count: number) => void;
   onEditTask: (taskId: string, category: string, description: string) => void;
   onMarkAsDone: (taskId: string) => void; // Add this new prop
+  onUpdateSubtasks: (taskId: string, subtasks: Subtask[]) => void;
+  onUpdateNotes: (taskId: string, notes: string) => void;
+  onUpdateSequence: (taskId: string, sequenceId: string | undefined) => void;
+  onUpdateTimerProfile: (taskId: string, timerProfile: TimerProfile | undefined) => void;
 }
 
 export interface SortableTaskItemProps {
@@ -43,6 +74,10 @@ export interface SortableTaskItemProps {
   onUpdatePomodoros: (taskId: string, count: number) => void;
   onEditTask: (taskId: string, category: string, description: string) => void;
   onMarkAsDone: (taskId: string) => void;
+  onUpdateSubtasks: (taskId: string, subtasks: Subtask[]) => void;
+  onUpdateNotes: (taskId: string, notes: string) => void;
+  onUpdateSequence: (taskId: string, sequenceId: string | undefined) => void;
+  onUpdateTimerProfile: (taskId: string, timerProfile: TimerProfile | undefined) => void;
   className?: string;
 }
 
@@ -53,9 +88,45 @@ export interface TaskMenuProps {
   onRemovePomodoro: () => void;
   onEdit: () => void;
   onMarkAsDone: () => void;
+  onChecklist: () => void;
+  onNotes: () => void;
+  // Missing while there are no sequences to pick from
+  onSequence?: () => void;
+  onTimerProfile: () => void;
+  // Missing for the task the timer already runs
+  onFocus?: () => void;
+  // Another task can't be picked while a work session is under way
+  isFocusDisabled?: boolean;
   pomodoroCount: number;
 }
 
+export interface SubtaskListProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  // Whether subtasks can be added and removed, not just ticked
+  canEdit?: boolean;
+  className?: string;
+}
+
+export interface TimerProfileEditorProps {
+  profile?: TimerProfile;
+  // Lengths used when the profile leaves them out
+  settings: TimerSettings;
+  onSave: (profile: TimerProfile | undefined) => void;
+  onCancel: () => void;
+}
+
+export interface NotesEditorProps {
+  notes: string;
+  onSave: (notes: string) => void;
+  onCancel: () => void;
+}
+
+export interface MarkdownNotesProps {
+  notes: string;
+  className?: string;
+}
+
 export interface CompletionIndicatorProps {
   tasks: Task[];
   settings?: TimerSettings;
@@ -71,6 +142,8 @@ export interface CompletedTasksListProps {
   onRepeatTask: (category: string, description: string, pomodoros?: number) => void;
   onEditCompletedTask?: (taskId: string, category: string, description: string, duration: number) => void;
   onDeleteCompletedTask?: (taskId: string) => void;
+  maxVisibleTasks?: number;
+  onShowMore?: () => void;
 }
 
 export interface CompletedTaskMenuProps {
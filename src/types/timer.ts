@@ -1,5 +1,6 @@
 import type { TimerType } from '../constants/timerConstants';
-import type { Task } from './task';
+import type { SequenceSegment, SessionSequence } from './sequence';
+import type { Subtask, Task } from './task';
 
 // Timer settings
 export interface TimerSettings {
@@ -9,17 +10,53 @@ export interface TimerSettings {
   sessionsUntilLongBreak: number;
 }
 
+// Session lengths of a task that differ from the timer settings
+export type TimerProfile = Partial<Pick<TimerSettings, 'workDuration' | 'breakDuration'>>;
+
+// What took the user away from a running timer
+export type InterruptionReason = 'internal' | 'external';
+
+// A pause of a running timer, from the moment it was paused until it was resumed
+export interface Interruption {
+  pausedAt: number;
+  duration: number;
+  reason?: InterruptionReason;
+}
+
+// A span of wall-clock time the timer was running
+export interface FocusSegment {
+  start: number;
+  end: number;
+}
+
 // Core timer state interface used across the application
 export interface TimerState {
+  // Negative once a work session runs on into overtime
   timeLeft: number;
   isRunning: boolean;
   hasStarted: boolean;
   timerType: TimerType;
   activeTaskId: string | null;
+  // The task picked to work on; null, or a task that is gone, means the first task
+  selectedTaskId: string | null;
   startTime: number | null;
+  // When the session was first started; startTime moves on every resume
+  sessionStartTime: number | null;
+  // How long the session was set to last when it started, including any break extension
+  sessionDuration: number | null;
   expectedEndTime: number | undefined;
   sessionsCompleted: number;
   hasCompleted: boolean;
+  // Pauses of the current session that have been resumed
+  interruptions: Interruption[];
+  // The pause in progress while the timer is paused
+  currentInterruption: Omit<Interruption, 'duration'> | null;
+  // Added to the coming break for overtime worked in the last session
+  breakExtension: number;
+  // The session sequence being run; null runs the work and break cycle of the timer settings
+  sequenceId: string | null;
+  // Position of the current session in the sequence
+  segmentIndex: number;
 }
 
 // Context-specific interface that extends the base state
@@ -28,8 +65,9 @@ export interface TimerState {
 export type TimerAction =
   | { type: 'UPDATE_TIMER_STATE'; payload: Partial<TimerState> }
   | { type: 'START_BREAK'; payload: { startTime: number; expectedEndTime: number; duration: number; timerType: TimerType } }
-  | { type: 'START_TIMER'; payload?: { startTime?: number; expectedEndTime?: number; activeTaskId?: string } }
-  | { type: 'PAUSE_TIMER' }
+  | { type: 'START_TIMER'; payload?: { startTime?: number; expectedEndTime?: number; activeTaskId?: string; timeLeft?: number } }
+  | { type: 'PAUSE_TIMER'; payload: { pausedAt: number } }
+  | { type: 'SET_INTERRUPTION_REASON'; payload: { reason: InterruptionReason } }
   | { type: 'UPDATE_TIME_LEFT'; payload: { timeLeft: number } };
 
 // Define context type
@@ -39,10 +77,20 @@ export interface TimerContextType {
   startBreak: (breakType: TimerType) => void;
   startTimer: (task: Task) => void;
   pauseTimer: () => void;
+  setInterruptionReason: (reason: InterruptionReason) => void;
+  // Picks the task to work on next, without reordering the list
+  selectTask: (taskId: string | null) => void;
+  // Starts running a sequence from its first work session
+  selectSequence: (sequenceId: string | null) => void;
   resetTimer: ()=> void;
   switchTimer: () => void;
   setOnComplete: (callback: (state: TimerState) => void) => void;
   settings: TimerSettings;
+  // The settings with the timer profile of the task the timer is on
+  timerSettings: TimerSettings;
+  // The sequence being run and its current session; null without a sequence
+  sequence: SessionSequence | null;
+  segment: SequenceSegment | null;
 }
 export interface TimerContextState extends Omit<TimerState, 'sessionsCompleted'> {
   updateTimerState: (state: TimerStateUpdate) => void;
@@ -56,8 +104,13 @@ export type TimerStateRef = Omit<TimerState, 'sessionsCompleted'>;
 
 // Component props
 export interface TimerProps {
-  selectedTask: Task;
+  // The active tasks, in list order; the timer runs the selected one
+  tasks: Task[];
   onTaskComplete: () => Promise<void>;
+  // Pomodoros completed today, shown against the daily goal
+  completedToday?: number;
+  // Saves the checklist of the selected task when a subtask is ticked
+  onUpdateSubtasks?: (taskId: string, subtasks: Subtask[]) => void;
 }
 
 export interface TimerDisplayProps {
@@ -76,6 +129,8 @@ export interface TimerControlsProps {
   disableWorkTimer?: boolean;
   timerType: TimerType;
   onSkip: () => void;
+  // Past the end of a work session, which carries on until it is marked done
+  isOvertime?: boolean;
 }
 
 // Hook props
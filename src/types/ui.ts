@@ -1,11 +1,19 @@
+export interface NotificationAction {
+    label: string;
+    onClick: () => void;
+  }
+
 export interface NotificationProps {
     message: string;
     duration?: number;
     type?: 'error' | 'success' | 'info';
+    // A button shown next to the message, e.g. to undo what it reports
+    action?: NotificationAction;
     onClose?: () => void;
   }
   
   export interface NotificationState {
     message: string;
     type: 'error' | 'success' | 'info';
-  }
\ No newline at end of file
+    action?: NotificationAction;
+  }
@@ -0,0 +1,14 @@
+// A change to the task lists that can be reverted and made again
+export interface UndoableChange {
+  // Describes the change, e.g. "Task deleted"
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export interface UndoHistory {
+  // Oldest first; the last change is undone next
+  past: UndoableChange[];
+  // Changes undone since the last new change; the last one is redone next
+  future: UndoableChange[];
+}
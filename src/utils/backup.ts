@@ -0,0 +1,256 @@
+import { isSettingKey } from '../constants/settingsConstants';
+import type {
+  DatabaseSnapshot,
+  ExportDocument,
+  ImportMode,
+  ImportStoreSummary,
+  ImportSummary,
+  SessionSequence,
+  StoredSetting,
+  Task,
+  TimerSession,
+} from '../types';
+import { createMissingCategories } from './categories';
+import { backupDB, DB_MIGRATIONS, DB_VERSION, readSetting } from './database';
+import { logger } from './logger';
+import { validateSequence } from './sequences';
+import { backfillSessionDetails } from './sessions';
+
+const backupLogger = logger.createLogger('Backup');
+
+export const EXPORT_FORMAT = 'pomodoro-panda-export';
+
+type StoresUpgrade = (stores: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades the stores of an export made with the previous DB version.
+ * Every step in DB_MIGRATIONS after the first needs a matching entry here.
+ */
+export const EXPORT_UPGRADES: Record<number, StoresUpgrade> = {
+  // Completed tasks tracking was added
+  2: (stores) => ({ ...stores, completedTasks: stores.completedTasks ?? [] }),
+  // Settings store was added
+  3: (stores) => ({ ...stores, settings: stores.settings ?? [] }),
+  // Timer state store was added; it is not part of exports
+  4: (stores) => stores,
+  // Categories store was added; create categories for the names tasks use
+  5: (stores) => ({
+    ...stores,
+    categories: stores.categories ?? createMissingCategories(
+      [...(stores.tasks as Task[] ?? []), ...(stores.completedTasks as Task[] ?? [])]
+        .map(task => task.category)
+        .filter((category): category is string => typeof category === 'string')
+    ),
+  }),
+  // Completed tasks record their start, focus segments and timer settings
+  6: (stores) => {
+    const timerSettings = readSetting(
+      'timerSettings',
+      (stores.settings as StoredSetting[] ?? []).find(setting => setting.id === 'timerSettings')
+    );
+    return {
+      ...stores,
+      completedTasks: (stores.completedTasks as Task[] ?? [])
+        .map(task => backfillSessionDetails(task, timerSettings)),
+    };
+  },
+  // Sessions store was added
+  7: (stores) => ({ ...stores, sessions: stores.sessions ?? [] }),
+  // Sessions record how they ended; only finished breaks were logged before
+  8: (stores) => ({
+    ...stores,
+    sessions: (stores.sessions as TimerSession[] ?? [])
+      .map(session => ({ ...session, outcome: session.outcome ?? 'completed' })),
+  }),
+  // Search index store was added; it is built from the tasks, so it is not part of exports
+  9: (stores) => stores,
+  // Session sequences store was added
+  10: (stores) => ({ ...stores, sequences: stores.sequences ?? [] }),
+};
+
+const isRecordWithId = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+type FieldType = 'string' | 'number' | 'list';
+
+// Fields the app reads from every record of a store, besides its id
+const REQUIRED_FIELDS: Record<keyof DatabaseSnapshot, Record<string, FieldType>> = {
+  tasks: { category: 'string', description: 'string', pomodoros: 'number' },
+  completedTasks: { category: 'string', description: 'string', pomodoros: 'number', endTime: 'number' },
+  settings: {},
+  categories: { name: 'string', color: 'string' },
+  sessions: { type: 'string', outcome: 'string', startTime: 'number', endTime: 'number', segments: 'list' },
+  sequences: { name: 'string', segments: 'list', weekdays: 'list' },
+};
+
+const hasFieldType = (value: unknown, type: FieldType): boolean =>
+  type === 'list' ? Array.isArray(value) : typeof value === type;
+
+const validateStore = (stores: Record<string, unknown>, name: keyof DatabaseSnapshot): void => {
+  const records = stores[name];
+  if (!Array.isArray(records) || !records.every(isRecordWithId)) {
+    throw new Error(`Invalid export file: "${name}" must be a list of records with an id`);
+  }
+
+  const fields = Object.entries(REQUIRED_FIELDS[name]);
+  for (const record of records as Record<string, unknown>[]) {
+    const invalid = fields.find(([field, type]) => !hasFieldType(record[field], type));
+    if (invalid) {
+      const [field, type] = invalid;
+      throw new Error(`Invalid export file: "${field}" of "${name}" record "${record.id}" must be a ${type}`);
+    }
+  }
+};
+
+// Imported sequences must hold up to the same rules as the ones saved in settings
+const validateSequences = (sequences: SessionSequence[]): void => {
+  for (const sequence of sequences) {
+    try {
+      validateSequence(sequence);
+    } catch (error) {
+      throw new Error(
+        `Invalid export file: sequence "${sequence.name}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+};
+
+/**
+ * Builds a versioned export document from a snapshot of the database.
+ */
+export const createExportDocument = (
+  stores: DatabaseSnapshot,
+  exportedAt: number = Date.now()
+): ExportDocument => ({
+  format: EXPORT_FORMAT,
+  schemaVersion: DB_VERSION,
+  exportedAt,
+  stores,
+});
+
+/**
+ * Validates an export document and upgrades it to the current DB version.
+ * @param value - The parsed JSON of an export file
+ * @returns The document in the current schema
+ * @throws If the document is malformed or comes from a newer or unknown version
+ */
+export const parseExportDocument = (value: unknown): ExportDocument => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Invalid export file: expected a JSON object');
+  }
+
+  const document = value as Record<string, unknown>;
+  if (document.format !== EXPORT_FORMAT) {
+    throw new Error('Invalid export file: not a Pomodoro Panda export');
+  }
+
+  const { schemaVersion } = document;
+  if (typeof schemaVersion !== 'number' || !(schemaVersion in DB_MIGRATIONS)) {
+    throw new Error(`Unsupported export schema version: ${String(schemaVersion)}`);
+  }
+  if (typeof document.stores !== 'object' || document.stores === null) {
+    throw new Error('Invalid export file: missing stores');
+  }
+
+  let stores = document.stores as Record<string, unknown>;
+  for (let version = schemaVersion + 1; version <= DB_VERSION; version++) {
+    stores = EXPORT_UPGRADES[version](stores);
+  }
+
+  validateStore(stores, 'tasks');
+  validateStore(stores, 'completedTasks');
+  validateStore(stores, 'settings');
+  validateStore(stores, 'categories');
+  validateStore(stores, 'sessions');
+  validateStore(stores, 'sequences');
+  validateSequences(stores.sequences as SessionSequence[]);
+
+  return {
+    format: EXPORT_FORMAT,
+    schemaVersion: DB_VERSION,
+    exportedAt: typeof document.exportedAt === 'number' ? document.exportedAt : 0,
+    stores: {
+      tasks: stores.tasks as DatabaseSnapshot['tasks'],
+      completedTasks: stores.completedTasks as DatabaseSnapshot['completedTasks'],
+      // Settings that are no longer registered are dropped
+      settings: (stores.settings as DatabaseSnapshot['settings']).filter(setting => isSettingKey(setting.id)),
+      categories: stores.categories as DatabaseSnapshot['categories'],
+      sessions: stores.sessions as DatabaseSnapshot['sessions'],
+      sequences: stores.sequences as DatabaseSnapshot['sequences'],
+    },
+  };
+};
+
+const summarizeStore = (
+  current: { id: string }[],
+  incoming: { id: string }[],
+  mode: ImportMode
+): ImportStoreSummary => {
+  const currentIds = new Set(current.map(record => record.id));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const updated = incoming.filter(record => currentIds.has(record.id)).length;
+
+  return {
+    added: incoming.length - updated,
+    updated,
+    // Only a replace removes records missing from the import
+    removed: mode === 'replace' ? current.filter(record => !incomingIds.has(record.id)).length : 0,
+  };
+};
+
+/**
+ * Describes what importing a snapshot into the current data would change.
+ * A dry-run is summarized as a merge, the default way to import.
+ */
+export const summarizeImport = (
+  current: DatabaseSnapshot,
+  incoming: DatabaseSnapshot,
+  mode: ImportMode,
+  schemaVersion: number = DB_VERSION
+): ImportSummary => ({
+  mode,
+  schemaVersion,
+  stores: {
+    tasks: summarizeStore(current.tasks, incoming.tasks, mode),
+    completedTasks: summarizeStore(current.completedTasks, incoming.completedTasks, mode),
+    settings: summarizeStore(current.settings, incoming.settings, mode),
+    categories: summarizeStore(current.categories, incoming.categories, mode),
+    sessions: summarizeStore(current.sessions, incoming.sessions, mode),
+    sequences: summarizeStore(current.sequences, incoming.sequences, mode),
+  },
+});
+
+/**
+ * Exports tasks, completed tasks, settings, categories, sessions and sequences as a versioned document.
+ */
+export async function exportData(): Promise<ExportDocument> {
+  const stores = await backupDB.exportAll();
+  backupLogger.info('Exported data', {
+    tasks: stores.tasks.length,
+    completedTasks: stores.completedTasks.length,
+    settings: stores.settings.length,
+    categories: stores.categories.length,
+    sessions: stores.sessions.length,
+    sequences: stores.sequences.length,
+  });
+  return createExportDocument(stores);
+}
+
+/**
+ * Imports a previously exported document.
+ * @param value - The parsed JSON of an export file
+ * @param mode - replace, merge by id, or dry-run to only preview the changes
+ * @returns A summary of the changes that were (or, for a dry-run, would be) made
+ */
+export async function importData(value: unknown, mode: ImportMode): Promise<ImportSummary> {
+  const originalVersion = (value as { schemaVersion?: number } | null)?.schemaVersion ?? DB_VERSION;
+  const document = parseExportDocument(value);
+  const current = await backupDB.exportAll();
+  const summary = summarizeImport(current, document.stores, mode, originalVersion);
+
+  if (mode !== 'dry-run') {
+    await backupDB.importAll(document.stores, mode);
+    backupLogger.info('Imported data', summary);
+  }
+  return summary;
+}
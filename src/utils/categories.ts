@@ -0,0 +1,48 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CATEGORY_COLORS } from '../constants/categoryConstants';
+import { Category } from '../types';
+
+/**
+ * Returns the key categories are matched by, so that "Work" and "work " are the same.
+ */
+export const normalizeCategory = (category: string): string => category.trim().toLocaleLowerCase();
+
+/**
+ * Finds the category with the given name, ignoring case.
+ */
+export const findCategory = (categories: Category[], name: string): Category | undefined => {
+  const key = normalizeCategory(name);
+  return categories.find(category => normalizeCategory(category.name) === key);
+};
+
+/**
+ * Creates a category for a name, colouring it by how many categories already exist.
+ * @param name - The category name as typed.
+ * @param existingCount - Number of categories created before this one.
+ */
+export const createCategory = (name: string, existingCount: number): Category => ({
+  id: uuidv4(),
+  name: name.trim(),
+  color: CATEGORY_COLORS[existingCount % CATEGORY_COLORS.length],
+  archived: false,
+});
+
+/**
+ * Creates categories for every distinct name used by tasks, ignoring case,
+ * that has no category yet. The first spelling found is kept.
+ * @param names - Category names used by tasks.
+ * @param existing - Categories that already exist.
+ */
+export const createMissingCategories = (names: string[], existing: Category[] = []): Category[] => {
+  const categories = [...existing];
+  const created: Category[] = [];
+
+  names.forEach(name => {
+    if (!name.trim() || findCategory(categories, name)) return;
+    const category = createCategory(name, categories.length);
+    categories.push(category);
+    created.push(category);
+  });
+
+  return created;
+};
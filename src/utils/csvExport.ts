@@ -0,0 +1,76 @@
+import { Task } from '../types';
+
+export const COMPLETED_TASKS_CSV_HEADERS = [
+    'Category',
+    'Description',
+    'Start time',
+    'End time',
+    'Duration (minutes)',
+    'Task id',
+    'Notes',
+];
+
+// Completed pomodoro ids are `completed-<taskId>-<endTime>`, and task ids may contain dashes;
+// an id that was already taken gets `_<timestamp>` appended when it is saved
+const COMPLETED_TASK_ID_PATTERN = /^completed-(.+)-\d+(?:_\d+)?$/;
+
+/**
+ * Extracts the id of the task a completed pomodoro was recorded for.
+ * @param completedTaskId - The id of the completed pomodoro record.
+ * @returns The original task id, or an empty string if the id has another format.
+ */
+export const parseOriginalTaskId = (completedTaskId: string): string =>
+    COMPLETED_TASK_ID_PATTERN.exec(completedTaskId)?.[1] ?? '';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Formats a timestamp as a local `YYYY-MM-DD HH:mm:ss` string, which
+ * spreadsheet applications recognise as a date and time.
+ */
+export const formatCsvDateTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return (
+        `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    );
+};
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ * Fields that a spreadsheet would run as a formula are prefixed with a quote.
+ */
+export const escapeCsvField = (value: string): string => {
+    const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+};
+
+/**
+ * Builds a CSV with one row per completed pomodoro, oldest first.
+ * @param completedTasks - The completed pomodoros to export.
+ * @returns The CSV contents, using CRLF line endings as per RFC 4180.
+ */
+export const createCompletedTasksCsv = (completedTasks: Task[]): string => {
+    const rows = [...completedTasks]
+        .sort((a, b) => (a.endTime ?? 0) - (b.endTime ?? 0))
+        .map((task) => {
+            const duration = task.duration ?? 0;
+            const endTime = task.endTime;
+            // Pomodoros completed before the start was recorded are worked back from their duration
+            const startTime =
+                task.startTime ?? (endTime !== undefined ? endTime - duration : undefined);
+            return [
+                task.category,
+                task.description,
+                startTime !== undefined ? formatCsvDateTime(startTime) : '',
+                endTime !== undefined ? formatCsvDateTime(endTime) : '',
+                String(Math.round(duration / 600) / 100),
+                parseOriginalTaskId(task.id),
+                task.notes ?? '',
+            ];
+        });
+
+    return [COMPLETED_TASKS_CSV_HEADERS, ...rows]
+        .map((row) => row.map(escapeCsvField).join(','))
+        .join('\r\n');
+};
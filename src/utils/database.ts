@@ -1,5 +1,27 @@
-import { Task } from '../types';
+import { SETTINGS_REGISTRY, isSettingKey, isValidSetting } from '../constants/settingsConstants';
+import {
+  Category,
+  CompletedTasksPage,
+  CompletedTasksPageOptions,
+  DatabaseSnapshot,
+  SearchableStore,
+  SearchCategoryCount,
+  SearchOptions,
+  SearchResult,
+  SearchResults,
+  SessionSequence,
+  SettingKey,
+  SettingsValues,
+  StoredSetting,
+  Task,
+  TimerSession,
+  TimerState,
+} from '../types';
+import { createMissingCategories, findCategory, normalizeCategory } from './categories';
 import { logger } from './logger';
+import { getSearchTerms, tokenize } from './search';
+import { validateSequence } from './sequences';
+import { backfillSessionDetails } from './sessions';
 
 const dbLogger = logger.createLogger('Database');
 
@@ -12,9 +34,81 @@ const DB_NAME = `${DB_PREFIX}_PomodoroDB` as const;
 export const TASKS_STORE = 'tasks' as const;
 export const COMPLETED_TASKS_STORE = 'completedTasks' as const;
 export const SETTINGS_STORE = 'settings' as const;
+export const TIMER_STATE_STORE = 'timerState' as const;
+export const CATEGORIES_STORE = 'categories' as const;
+export const SESSIONS_STORE = 'sessions' as const;
+export const SEARCH_INDEX_STORE = 'searchIndex' as const;
+export const SEQUENCES_STORE = 'sequences' as const;
+
+// Key of the single record holding the current timer state
+const TIMER_STATE_KEY = 'current';
+
+// Creates a category for every name used by the given tasks that has none yet.
+// Runs inside the caller's transaction, which must include the categories store.
+const addMissingCategories = (transaction: IDBTransaction, tasks: Pick<Task, 'category'>[]): void => {
+  if (tasks.length === 0) return;
+  const store = transaction.objectStore(CATEGORIES_STORE);
+  const request = store.getAll();
+  request.onsuccess = () => {
+    createMissingCategories(tasks.map(task => task.category), request.result)
+      .forEach(category => store.add(category));
+  };
+};
+
+// Adds the words of a task to the search index.
+// Runs inside the caller's transaction, which must include the search index store.
+const addToSearchIndex = (transaction: IDBTransaction, storeName: SearchableStore, task: Task): void => {
+  const store = transaction.objectStore(SEARCH_INDEX_STORE);
+  getSearchTerms(task).forEach(term => store.put({ term, store: storeName, taskId: task.id }));
+};
+
+// Brings the search index entries of a task in line with its words, or removes them
+// when the task is gone. Runs inside the caller's transaction, which must include
+// the search index store.
+const updateSearchIndex = (
+  transaction: IDBTransaction,
+  storeName: SearchableStore,
+  taskId: string,
+  task: Task | null
+): void => {
+  const store = transaction.objectStore(SEARCH_INDEX_STORE);
+  const terms = new Set(task ? getSearchTerms(task) : []);
+  const request = store.index('document').openKeyCursor(IDBKeyRange.only([storeName, taskId]));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      // Words the task still has are left in place
+      const [term] = cursor.primaryKey as [string, string, string];
+      if (!terms.delete(term)) {
+        store.delete(cursor.primaryKey);
+      }
+      cursor.continue();
+      return;
+    }
+    terms.forEach(term => store.put({ term, store: storeName, taskId }));
+  };
+};
+
+// Replaces the search index entries of every task in a store with those of the given tasks.
+// Runs inside the caller's transaction, which must include the search index store.
+const rebuildSearchIndex = (transaction: IDBTransaction, storeName: SearchableStore, tasks: Task[]): void => {
+  const store = transaction.objectStore(SEARCH_INDEX_STORE);
+  // Covers every [storeName, taskId] key, as arrays sort after strings
+  const range = IDBKeyRange.bound([storeName], [storeName, []]);
+  const request = store.index('document').openKeyCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+      return;
+    }
+    tasks.forEach(task => addToSearchIndex(transaction, storeName, task));
+  };
+};
 
 // Database version history with migrations
-const DB_MIGRATIONS = {
+export const DB_MIGRATIONS = {
   1: (db: IDBDatabase) => {
     // Initial version - Basic task management
     const taskStore = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
@@ -31,11 +125,93 @@ const DB_MIGRATIONS = {
     if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
       db.createObjectStore(SETTINGS_STORE, { keyPath: 'id' });
     }
+  },
+  4: (db: IDBDatabase) => {
+    // Added timer state so a running session survives a reload
+    if (!db.objectStoreNames.contains(TIMER_STATE_STORE)) {
+      db.createObjectStore(TIMER_STATE_STORE, { keyPath: 'id' });
+    }
+  },
+  5: (db: IDBDatabase, transaction: IDBTransaction) => {
+    // Added categories, created from the names existing tasks already use
+    if (db.objectStoreNames.contains(CATEGORIES_STORE)) return;
+    db.createObjectStore(CATEGORIES_STORE, { keyPath: 'id' });
+
+    const tasksRequest = transaction.objectStore(TASKS_STORE).getAll();
+    tasksRequest.onsuccess = () => {
+      const completedRequest = transaction.objectStore(COMPLETED_TASKS_STORE).getAll();
+      completedRequest.onsuccess = () => {
+        // Prefer the spelling of active tasks, then of the most recent completed ones
+        const completedTasks = [...completedRequest.result as Task[]]
+          .sort((a, b) => (b.endTime ?? 0) - (a.endTime ?? 0));
+        addMissingCategories(transaction, [...tasksRequest.result, ...completedTasks]);
+      };
+    };
+  },
+  6: (_db: IDBDatabase, transaction: IDBTransaction) => {
+    // Completed tasks record their start, focus segments and timer settings;
+    // older ones are backfilled from their duration and the current settings
+    const settingsRequest = transaction.objectStore(SETTINGS_STORE).get('timerSettings');
+    settingsRequest.onsuccess = () => {
+      const timerSettings = readSetting('timerSettings', settingsRequest.result);
+      const cursorRequest = transaction.objectStore(COMPLETED_TASKS_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const task = cursor.value as Task;
+        const backfilled = backfillSessionDetails(task, timerSettings);
+        if (backfilled !== task) {
+          cursor.update(backfilled);
+        }
+        cursor.continue();
+      };
+    };
+  },
+  7: (db: IDBDatabase) => {
+    // Added a log of timer sessions, so breaks leave a trace too
+    if (db.objectStoreNames.contains(SESSIONS_STORE)) return;
+    const sessionsStore = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    sessionsStore.createIndex('endTime', 'endTime');
+  },
+  8: (_db: IDBDatabase, transaction: IDBTransaction) => {
+    // Sessions record how they ended; only finished breaks were logged before
+    const cursorRequest = transaction.objectStore(SESSIONS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (!cursor.value.outcome) {
+        cursor.update({ ...cursor.value, outcome: 'completed' });
+      }
+      cursor.continue();
+    };
+  },
+  9: (db: IDBDatabase, transaction: IDBTransaction) => {
+    // Added a search index of the words in tasks and completed tasks. Entries are keyed
+    // by term first, so the words starting with a prefix are a single key range.
+    if (db.objectStoreNames.contains(SEARCH_INDEX_STORE)) return;
+    db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: ['term', 'store', 'taskId'] })
+      .createIndex('document', ['store', 'taskId']);
+
+    ([TASKS_STORE, COMPLETED_TASKS_STORE] as const).forEach(storeName => {
+      const cursorRequest = transaction.objectStore(storeName).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        addToSearchIndex(transaction, storeName, cursor.value as Task);
+        cursor.continue();
+      };
+    });
+  },
+  10: (db: IDBDatabase) => {
+    // Added user-defined session sequences, e.g. 52/17
+    if (!db.objectStoreNames.contains(SEQUENCES_STORE)) {
+      db.createObjectStore(SEQUENCES_STORE, { keyPath: 'id' });
+    }
   }
 } as const;
 
 // Current version is highest migration number
-const DB_VERSION = Math.max(...Object.keys(DB_MIGRATIONS).map(Number));
+export const DB_VERSION = Math.max(...Object.keys(DB_MIGRATIONS).map(Number));
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -67,13 +243,14 @@ export const initDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction as IDBTransaction;
       const oldVersion = event.oldVersion;
 
       // Run all migrations in sequence
       for (let version = oldVersion + 1; version <= DB_VERSION; version++) {
         const migration = DB_MIGRATIONS[version as keyof typeof DB_MIGRATIONS];
         if (migration) {
-          migration(db);
+          migration(db, transaction);
         }
       }
 
@@ -88,6 +265,27 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
         db.createObjectStore(SETTINGS_STORE, { keyPath: 'id' });
       }
+
+      if (!db.objectStoreNames.contains(TIMER_STATE_STORE)) {
+        db.createObjectStore(TIMER_STATE_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(CATEGORIES_STORE)) {
+        db.createObjectStore(CATEGORIES_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('endTime', 'endTime');
+      }
+
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+        db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: ['term', 'store', 'taskId'] })
+          .createIndex('document', ['store', 'taskId']);
+      }
+
+      if (!db.objectStoreNames.contains(SEQUENCES_STORE)) {
+        db.createObjectStore(SEQUENCES_STORE, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -96,7 +294,7 @@ export const tasksDB = {
   async add(task: Task): Promise<string> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(TASKS_STORE);
       
       // Use cursor for memory efficiency
@@ -120,6 +318,8 @@ export const tasksDB = {
           }
           
           store.add(taskWithOrder);
+          addMissingCategories(transaction, [task]);
+          addToSearchIndex(transaction, TASKS_STORE, task);
         }
       };
       
@@ -128,6 +328,18 @@ export const tasksDB = {
     });
   },
 
+  async get(taskId: string): Promise<Task | null> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TASKS_STORE], 'readonly');
+      const store = transaction.objectStore(TASKS_STORE);
+      const request = store.get(taskId);
+
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
   async getAll(): Promise<Task[]> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
@@ -155,25 +367,52 @@ export const tasksDB = {
   async update(task: Task): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(TASKS_STORE);
-      const request = store.put(task);
+      store.put(task);
+      addMissingCategories(transaction, [task]);
+      updateSearchIndex(transaction, TASKS_STORE, task.id, task);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  /**
+   * Sets some fields of a task as it is stored now, leaving the rest as they
+   * are. Does nothing if the task is gone, e.g. deleted or completed since.
+   */
+  async patch(taskId: string, fields: Partial<Omit<Task, 'id'>>): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      const store = transaction.objectStore(TASKS_STORE);
+      const request = store.get(taskId);
+
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const task: Task = { ...request.result, ...fields };
+        store.put(task);
+        addMissingCategories(transaction, [task]);
+        updateSearchIndex(transaction, TASKS_STORE, task.id, task);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   },
 
   async updateAll(tasks: Task[]): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([TASKS_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(TASKS_STORE);
 
       transaction.onerror = () => reject(transaction.error);
 
       // Clear existing tasks
       const clearRequest = store.clear();
+      rebuildSearchIndex(transaction, TASKS_STORE, tasks);
 
       clearRequest.onsuccess = () => {
         // Handle empty array case
@@ -209,7 +448,7 @@ export const tasksDB = {
   async delete(taskId: string): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([TASKS_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(TASKS_STORE);
 
       // First check if task exists
@@ -230,6 +469,7 @@ export const tasksDB = {
           const sortedTasks = tasks.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 
           const deleteRequest = store.delete(taskId);
+          updateSearchIndex(transaction, TASKS_STORE, taskId, null);
 
           deleteRequest.onsuccess = () => {
             const remainingTasks = sortedTasks
@@ -286,33 +526,97 @@ export const tasksDB = {
 
   // Add a method that returns all completed tasks with a filter for only tasks completed today
   async getCompletedTasksForToday(): Promise<Task[]> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const startOfTomorrow = new Date(startOfDay);
+    startOfTomorrow.setDate(startOfTomorrow.getDate() + 1);
+
+    const { tasks } = await tasksDB.getCompletedTasksInRange(startOfDay.getTime(), startOfTomorrow.getTime());
+    return tasks;
+  },
+
+  /**
+   * Reads completed tasks with an endTime in [from, to), newest first, using the endTime index.
+   * Pass the returned nextCursor back in to read the following page.
+   */
+  async getCompletedTasksInRange(
+    from: number,
+    to: number,
+    { limit, cursor }: CompletedTasksPageOptions = {}
+  ): Promise<CompletedTasksPage> {
+    // A cursor moves the upper bound down to the last task of the previous page
+    const upper = cursor ? Math.min(cursor.endTime, to) : to;
+    const upperOpen = !cursor || cursor.endTime >= to;
+    if (upper < from || (upper === from && upperOpen)) {
+      return { tasks: [], nextCursor: null };
+    }
+
     const db = await initDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([COMPLETED_TASKS_STORE], 'readonly');
-      const store = transaction.objectStore(COMPLETED_TASKS_STORE);
-      const index = store.index('endTime');
+      const index = transaction.objectStore(COMPLETED_TASKS_STORE).index('endTime');
+      const range = IDBKeyRange.bound(from, upper, false, upperOpen);
+      const tasks: Task[] = [];
+      const request = index.openCursor(range, 'prev');
 
-      const startOfDay = new Date();
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date();
-      endOfDay.setHours(23, 59, 59, 999);
+      request.onsuccess = () => {
+        const result = request.result;
+        if (!result) {
+          resolve({ tasks, nextCursor: null });
+          return;
+        }
 
+        const task = result.value as Task;
+        // Tasks sharing the cursor's endTime are ordered by id; skip those already returned
+        if (cursor && task.endTime === cursor.endTime && task.id >= cursor.id) {
+          result.continue();
+          return;
+        }
 
-      const request = index.getAll();
-      request.onsuccess = () => {
-        const tasks = request.result || [];
-        // the tasks should have the latest first and the oldest last
-        resolve(tasks.filter(task => task.endTime && task.endTime >= startOfDay && task.endTime < endOfDay).sort((a, b) => (b.endTime || 0) - (a.endTime || 0)));
+        if (limit !== undefined && tasks.length === limit) {
+          const last = tasks[tasks.length - 1];
+          resolve({ tasks, nextCursor: { endTime: last.endTime as number, id: last.id } });
+          return;
+        }
+
+        tasks.push(task);
+        result.continue();
       };
+
       request.onerror = () => reject(request.error);
     });
   },
 
+  /**
+   * Reads the endTime of every completed task, oldest first, straight from the endTime index
+   * so that streaks can be worked out without loading whole records.
+   */
+  async getCompletionTimes(): Promise<number[]> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([COMPLETED_TASKS_STORE], 'readonly');
+      const index = transaction.objectStore(COMPLETED_TASKS_STORE).index('endTime');
+      const endTimes: number[] = [];
+      const request = index.openKeyCursor();
+
+      request.onsuccess = () => {
+        const result = request.result;
+        if (!result) {
+          resolve(endTimes);
+          return;
+        }
+        endTimes.push(result.key as number);
+        result.continue();
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  },
 
   async completeOnePomodoro(taskId: string, completedPomodoro: Task): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([TASKS_STORE, COMPLETED_TASKS_STORE], "readwrite");
+      const transaction = db.transaction([TASKS_STORE, COMPLETED_TASKS_STORE, SEARCH_INDEX_STORE], "readwrite");
 
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
@@ -340,6 +644,7 @@ export const tasksDB = {
           const remainingPomodoros = (originalTask.pomodoros || 0) - 1;
           
           completedStore.add(completedPomodoro);
+          addToSearchIndex(transaction, COMPLETED_TASKS_STORE, completedPomodoro);
           
           if (remainingPomodoros >= 1) {
             tasksStore.put({
@@ -348,6 +653,7 @@ export const tasksDB = {
             });
           } else {
             tasksStore.delete(taskId);
+            updateSearchIndex(transaction, TASKS_STORE, taskId, null);
           }
         };
 
@@ -364,58 +670,640 @@ export const tasksDB = {
     });
   },
 
+  // Reverses completeOnePomodoro: removes the completed record and gives the
+  // pomodoro back to its task, putting the task back if it had none left
+  async restorePomodoro(task: Task, completedPomodoroId: string): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TASKS_STORE, COMPLETED_TASKS_STORE, SEARCH_INDEX_STORE], 'readwrite');
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const tasksStore = transaction.objectStore(TASKS_STORE);
+      transaction.objectStore(COMPLETED_TASKS_STORE).delete(completedPomodoroId);
+      updateSearchIndex(transaction, COMPLETED_TASKS_STORE, completedPomodoroId, null);
+
+      const getRequest = tasksStore.get(task.id);
+      getRequest.onsuccess = () => {
+        const currentTask: Task | undefined = getRequest.result;
+        if (currentTask) {
+          tasksStore.put({ ...currentTask, pomodoros: (currentTask.pomodoros || 0) + 1 });
+        } else {
+          tasksStore.put(task);
+          updateSearchIndex(transaction, TASKS_STORE, task.id, task);
+        }
+      };
+    });
+  },
+
   async updateCompletedTask(task: Task): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COMPLETED_TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([COMPLETED_TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(COMPLETED_TASKS_STORE);
-      const request = store.put(task);
+      store.put(task);
+      addMissingCategories(transaction, [task]);
+      updateSearchIndex(transaction, COMPLETED_TASKS_STORE, task.id, task);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   },
 
   async deleteCompletedTask(taskId: string): Promise<void> {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COMPLETED_TASKS_STORE], 'readwrite');
+      const transaction = db.transaction([COMPLETED_TASKS_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(COMPLETED_TASKS_STORE);
-      const request = store.delete(taskId);
+      store.delete(taskId);
+      updateSearchIndex(transaction, COMPLETED_TASKS_STORE, taskId, null);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+};
+
+// Points every task and completed task in a category at a new category name.
+// Runs inside the caller's transaction, which must include both task stores and the search index.
+const rewriteTaskCategories = (transaction: IDBTransaction, fromName: string, toName: string): void => {
+  const fromKey = normalizeCategory(fromName);
+
+  ([TASKS_STORE, COMPLETED_TASKS_STORE] as const).forEach(storeName => {
+    const cursorRequest = transaction.objectStore(storeName).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const task = cursor.value as Task;
+      if (normalizeCategory(task.category) === fromKey && task.category !== toName) {
+        const updatedTask = { ...task, category: toName };
+        cursor.update(updatedTask);
+        updateSearchIndex(transaction, storeName, task.id, updatedTask);
+      }
+      cursor.continue();
+    };
+  });
+};
+
+export const categoriesDB = {
+  async getAll(): Promise<Category[]> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE], 'readonly');
+      const request = transaction.objectStore(CATEGORIES_STORE).getAll();
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        const categories: Category[] = request.result || [];
+        resolve(categories.sort((a, b) => a.name.localeCompare(b.name)));
+      };
       request.onerror = () => reject(request.error);
     });
+  },
+
+  /**
+   * Saves a category's colour, emoji or archived flag. Names are changed with rename.
+   */
+  async update(category: Category): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE], 'readwrite');
+      const store = transaction.objectStore(CATEGORIES_STORE);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const getRequest = store.get(category.id);
+      getRequest.onsuccess = () => {
+        const existing: Category | undefined = getRequest.result;
+        if (!existing) {
+          transaction.abort();
+          reject(new Error('Category not found'));
+          return;
+        }
+        store.put({ ...category, name: existing.name });
+      };
+    });
+  },
+
+  /**
+   * Renames a category and every task and completed task that uses it, in one transaction.
+   * @throws If the name is empty or already used by another category
+   */
+  async rename(categoryId: string, newName: string): Promise<void> {
+    const name = newName.trim();
+    if (!name) {
+      throw new Error('Category name cannot be empty');
+    }
+
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [TASKS_STORE, COMPLETED_TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE],
+        'readwrite'
+      );
+      const store = transaction.objectStore(CATEGORIES_STORE);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const getAllRequest = store.getAll();
+      getAllRequest.onsuccess = () => {
+        const categories: Category[] = getAllRequest.result;
+        const category = categories.find(c => c.id === categoryId);
+        const clash = findCategory(categories, name);
+
+        if (!category) {
+          transaction.abort();
+          reject(new Error('Category not found'));
+          return;
+        }
+        if (clash && clash.id !== categoryId) {
+          transaction.abort();
+          reject(new Error(`A category named "${clash.name}" already exists; merge the categories instead`));
+          return;
+        }
+
+        store.put({ ...category, name });
+        rewriteTaskCategories(transaction, category.name, name);
+      };
+    });
+  },
+
+  /**
+   * Moves every task and completed task of one category into another and deletes
+   * the first, in one transaction.
+   * @param sourceId - The category merged away
+   * @param targetId - The category that remains
+   */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
+    }
+
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [TASKS_STORE, COMPLETED_TASKS_STORE, CATEGORIES_STORE, SEARCH_INDEX_STORE],
+        'readwrite'
+      );
+      const store = transaction.objectStore(CATEGORIES_STORE);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const sourceRequest = store.get(sourceId);
+      const targetRequest = store.get(targetId);
+      targetRequest.onsuccess = () => {
+        const source: Category | undefined = sourceRequest.result;
+        const target: Category | undefined = targetRequest.result;
+        if (!source || !target) {
+          transaction.abort();
+          reject(new Error('Category not found'));
+          return;
+        }
+
+        store.delete(sourceId);
+        rewriteTaskCategories(transaction, source.name, target.name);
+      };
+    });
+  }
+};
+
+// Turns a stored settings record into a typed value, migrating records written
+// by older versions and falling back to the default for missing or invalid ones
+export const readSetting = <K extends SettingKey>(key: K, record?: StoredSetting): SettingsValues[K] => {
+  const definition = SETTINGS_REGISTRY[key];
+  if (!record) {
+    return definition.defaultValue;
+  }
+
+  const storedVersion = record.version ?? 0;
+  const value = storedVersion < definition.version && definition.migrate
+    ? definition.migrate(record.value, storedVersion)
+    : record.value;
+
+  if (!isValidSetting(definition, value)) {
+    dbLogger.warn(`Ignoring invalid stored value for setting "${key}"`, { value });
+    return definition.defaultValue;
   }
+  return value;
 };
 
 export const settingsDB = {
-  async get(key: string): Promise<boolean | null> {
+  async get<K extends SettingKey>(key: K): Promise<SettingsValues[K]> {
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting: ${key}`);
+    }
+
     const db = await initDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([SETTINGS_STORE], 'readonly');
       const store = transaction.objectStore(SETTINGS_STORE);
       const request = store.get(key);
 
-      request.onsuccess = () => resolve(request.result?.value ?? null);
+      request.onsuccess = () => resolve(readSetting(key, request.result));
       request.onerror = () => reject(request.error);
     });
   },
 
-  async set(key: string, value: boolean): Promise<void> {
+  async getAll(): Promise<SettingsValues> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SETTINGS_STORE], 'readonly');
+      const store = transaction.objectStore(SETTINGS_STORE);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const records = new Map<string, StoredSetting>(
+          (request.result as StoredSetting[]).map(record => [record.id, record])
+        );
+        const settings = Object.fromEntries(
+          (Object.keys(SETTINGS_REGISTRY) as SettingKey[]).map(key => [key, readSetting(key, records.get(key))])
+        ) as unknown as SettingsValues;
+        resolve(settings);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async set<K extends SettingKey>(key: K, value: SettingsValues[K]): Promise<void> {
     if (!key || typeof key !== 'string' || key.trim() === '') {
       throw new Error('Setting key cannot be empty');
     }
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting: ${key}`);
+    }
+
+    const definition = SETTINGS_REGISTRY[key];
+    if (!isValidSetting(definition, value)) {
+      throw new Error(`Invalid value for setting "${key}"`);
+    }
 
     const db = await initDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
       const store = transaction.objectStore(SETTINGS_STORE);
-      const request = store.put({ id: key, value });
+      const request = store.put({ id: key, value, version: definition.version });
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+};
+
+export const timerStateDB = {
+  async get(): Promise<TimerState | null> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TIMER_STATE_STORE], 'readonly');
+      const store = transaction.objectStore(TIMER_STATE_STORE);
+      const request = store.get(TIMER_STATE_KEY);
+
+      request.onsuccess = () => {
+        if (!request.result) {
+          resolve(null);
+          return;
+        }
+        const state = { ...request.result };
+        delete state.id;
+        resolve(state);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async set(state: TimerState): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TIMER_STATE_STORE], 'readwrite');
+      const store = transaction.objectStore(TIMER_STATE_STORE);
+      const request = store.put({ id: TIMER_STATE_KEY, ...state });
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  async clear(): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TIMER_STATE_STORE], 'readwrite');
+      const store = transaction.objectStore(TIMER_STATE_STORE);
+      const request = store.delete(TIMER_STATE_KEY);
 
       request.onerror = () => reject(request.error);
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
     });
   }
-}; 
\ No newline at end of file
+};
+
+export const sessionsDB = {
+  async add(session: TimerSession): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSIONS_STORE], 'readwrite');
+      const request = transaction.objectStore(SESSIONS_STORE).put(session);
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  /**
+   * Reads the sessions with an endTime in [from, to), oldest first.
+   */
+  async getInRange(from: number, to: number): Promise<TimerSession[]> {
+    if (to <= from) return [];
+
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSIONS_STORE], 'readonly');
+      const index = transaction.objectStore(SESSIONS_STORE).index('endTime');
+      const request = index.getAll(IDBKeyRange.bound(from, to, false, true));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+};
+
+export const sequencesDB = {
+  async getAll(): Promise<SessionSequence[]> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SEQUENCES_STORE], 'readonly');
+      const request = transaction.objectStore(SEQUENCES_STORE).getAll();
+
+      request.onsuccess = () => {
+        const sequences: SessionSequence[] = request.result || [];
+        resolve(sequences.sort((a, b) => a.name.localeCompare(b.name)));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  /**
+   * Adds a sequence or saves changes to one.
+   * @throws If the sequence is not valid, see validateSequence
+   */
+  async put(sequence: SessionSequence): Promise<void> {
+    validateSequence(sequence);
+
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SEQUENCES_STORE], 'readwrite');
+      const request = transaction.objectStore(SEQUENCES_STORE).put({
+        ...sequence,
+        name: sequence.name.trim(),
+      });
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  /**
+   * Deletes a sequence; tasks that used it go back to the day's sequence.
+   */
+  async delete(sequenceId: string): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SEQUENCES_STORE, TASKS_STORE], 'readwrite');
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      transaction.objectStore(SEQUENCES_STORE).delete(sequenceId);
+      const cursorRequest = transaction.objectStore(TASKS_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if (cursor.value.sequenceId === sequenceId) {
+          cursor.update({ ...cursor.value, sequenceId: undefined });
+        }
+        cursor.continue();
+      };
+    });
+  }
+};
+
+// Results returned by searchDB.search when no limit is given
+const DEFAULT_SEARCH_LIMIT = 50;
+
+export const searchDB = {
+  /**
+   * Finds the tasks and completed tasks with a word in their description, category
+   * or notes starting with each word of the query, ignoring case and accents.
+   * Matching words are read from the search index, so only matching tasks are loaded.
+   * @param query - The words to search for, e.g. "api rev".
+   * @param options - Filters on category and end time, and the number of results to return.
+   */
+  async search(
+    query: string,
+    { category, range, limit = DEFAULT_SEARCH_LIMIT }: SearchOptions = {}
+  ): Promise<SearchResults> {
+    // The longest words usually match the fewest tasks, so they narrow the search first
+    const terms = tokenize(query).sort((a, b) => b.length - a.length);
+    if (terms.length === 0) {
+      return { results: [], total: 0, categories: [] };
+    }
+
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SEARCH_INDEX_STORE, TASKS_STORE, COMPLETED_TASKS_STORE], 'readonly');
+      const indexStore = transaction.objectStore(SEARCH_INDEX_STORE);
+      const matches: SearchResult[] = [];
+
+      transaction.onerror = () => reject(transaction.error);
+
+      // Narrows the matching tasks, keyed by `${store}:${taskId}`, to those with a word
+      // starting with each term in turn, then loads them
+      const matchTerm = (termIndex: number, candidates: Set<string> | null) => {
+        const term = terms[termIndex];
+        const found = new Set<string>();
+        const request = indexStore.openKeyCursor(IDBKeyRange.bound([term], [`${term}\uffff`]));
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            const [, storeName, taskId] = cursor.key as [string, SearchableStore, string];
+            const key = `${storeName}:${taskId}`;
+            if (!candidates || candidates.has(key)) {
+              found.add(key);
+            }
+            cursor.continue();
+            return;
+          }
+
+          if (found.size > 0 && termIndex + 1 < terms.length) {
+            matchTerm(termIndex + 1, found);
+            return;
+          }
+          found.forEach(key => {
+            const separator = key.indexOf(':');
+            const storeName = key.slice(0, separator) as SearchableStore;
+            const getRequest = transaction.objectStore(storeName).get(key.slice(separator + 1));
+            getRequest.onsuccess = () => {
+              if (getRequest.result) {
+                matches.push({ task: getRequest.result, isCompleted: storeName === COMPLETED_TASKS_STORE });
+              }
+            };
+          });
+        };
+      };
+
+      transaction.oncomplete = () => {
+        const inRange = range
+          ? matches.filter(({ task, isCompleted }) =>
+            isCompleted && task.endTime !== undefined && task.endTime >= range.from && task.endTime < range.to
+          )
+          : matches;
+
+        const categoryCounts = new Map<string, SearchCategoryCount>();
+        inRange.forEach(({ task }) => {
+          const key = normalizeCategory(task.category);
+          const categoryCount = categoryCounts.get(key) ?? { category: task.category, count: 0 };
+          categoryCounts.set(key, { ...categoryCount, count: categoryCount.count + 1 });
+        });
+
+        const categoryKey = category ? normalizeCategory(category) : null;
+        const filtered = categoryKey === null
+          ? inRange
+          : inRange.filter(({ task }) => normalizeCategory(task.category) === categoryKey);
+        const sorted = [...filtered].sort((a, b) => {
+          if (a.isCompleted !== b.isCompleted) {
+            return a.isCompleted ? 1 : -1;
+          }
+          return a.isCompleted
+            ? (b.task.endTime ?? 0) - (a.task.endTime ?? 0)
+            : (a.task.order ?? 0) - (b.task.order ?? 0);
+        });
+
+        resolve({
+          results: sorted.slice(0, limit),
+          total: sorted.length,
+          categories: [...categoryCounts.values()]
+            .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category)),
+        });
+      };
+
+      matchTerm(0, null);
+    });
+  }
+};
+
+export const backupDB = {
+  async exportAll(): Promise<DatabaseSnapshot> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      // Read every store in one transaction so the snapshot is consistent
+      const transaction = db.transaction(
+        [TASKS_STORE, COMPLETED_TASKS_STORE, SETTINGS_STORE, CATEGORIES_STORE, SESSIONS_STORE, SEQUENCES_STORE],
+        'readonly'
+      );
+      const tasksRequest = transaction.objectStore(TASKS_STORE).getAll();
+      const completedRequest = transaction.objectStore(COMPLETED_TASKS_STORE).getAll();
+      const settingsRequest = transaction.objectStore(SETTINGS_STORE).getAll();
+      const categoriesRequest = transaction.objectStore(CATEGORIES_STORE).getAll();
+      const sessionsRequest = transaction.objectStore(SESSIONS_STORE).getAll();
+      const sequencesRequest = transaction.objectStore(SEQUENCES_STORE).getAll();
+
+      transaction.oncomplete = () => resolve({
+        tasks: [...tasksRequest.result].sort((a, b) => (a.order ?? 0) - (b.order ?? 0)),
+        completedTasks: completedRequest.result,
+        settings: settingsRequest.result,
+        categories: categoriesRequest.result,
+        sessions: sessionsRequest.result,
+        sequences: sequencesRequest.result,
+      });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  async importAll(snapshot: DatabaseSnapshot, mode: 'replace' | 'merge'): Promise<void> {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [
+          TASKS_STORE,
+          COMPLETED_TASKS_STORE,
+          SETTINGS_STORE,
+          CATEGORIES_STORE,
+          SESSIONS_STORE,
+          SEARCH_INDEX_STORE,
+          SEQUENCES_STORE,
+        ],
+        'readwrite'
+      );
+      const tasksStore = transaction.objectStore(TASKS_STORE);
+      const completedStore = transaction.objectStore(COMPLETED_TASKS_STORE);
+      const settingsStore = transaction.objectStore(SETTINGS_STORE);
+      const categoriesStore = transaction.objectStore(CATEGORIES_STORE);
+      const sessionsStore = transaction.objectStore(SESSIONS_STORE);
+      const sequencesStore = transaction.objectStore(SEQUENCES_STORE);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      // A record the stores cannot take aborts the whole import without an error event
+      transaction.onabort = () => reject(transaction.error ?? new Error('Import was aborted'));
+
+      const writeAll = (existingTaskCount: number) => {
+        // Imported tasks keep their relative order after any tasks already here
+        snapshot.tasks.forEach((task, index) => {
+          tasksStore.put({ ...task, order: existingTaskCount + index });
+        });
+        snapshot.completedTasks.forEach(task => completedStore.put(task));
+        if (mode === 'replace') {
+          rebuildSearchIndex(transaction, TASKS_STORE, snapshot.tasks);
+          rebuildSearchIndex(transaction, COMPLETED_TASKS_STORE, snapshot.completedTasks);
+        } else {
+          snapshot.tasks.forEach(task => updateSearchIndex(transaction, TASKS_STORE, task.id, task));
+          snapshot.completedTasks.forEach(task =>
+            updateSearchIndex(transaction, COMPLETED_TASKS_STORE, task.id, task)
+          );
+        }
+        snapshot.settings.forEach(setting => settingsStore.put(setting));
+        snapshot.sessions.forEach(session => sessionsStore.put(session));
+        snapshot.sequences.forEach(sequence => sequencesStore.put(sequence));
+
+        // An imported category with the name of another existing one is left out
+        const categoriesRequest = categoriesStore.getAll();
+        categoriesRequest.onsuccess = () => {
+          const existing: Category[] = categoriesRequest.result;
+          snapshot.categories.forEach(category => {
+            const clash = findCategory(existing, category.name);
+            if (!clash || clash.id === category.id) {
+              categoriesStore.put(category);
+            }
+          });
+          addMissingCategories(transaction, [...snapshot.tasks, ...snapshot.completedTasks]);
+        };
+      };
+
+      if (mode === 'replace') {
+        tasksStore.clear();
+        completedStore.clear();
+        settingsStore.clear();
+        categoriesStore.clear();
+        sessionsStore.clear();
+        sequencesStore.clear();
+        writeAll(0);
+        return;
+      }
+
+      // Merging replaces tasks that share an id, so only the others count as existing
+      const importedIds = new Set(snapshot.tasks.map(task => task.id));
+      const existingRequest = tasksStore.getAllKeys();
+      existingRequest.onsuccess = () => {
+        const existingCount = existingRequest.result.filter(id => !importedIds.has(String(id))).length;
+        writeAll(existingCount);
+      };
+    });
+  }
+};
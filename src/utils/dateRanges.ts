@@ -0,0 +1,77 @@
+import { DateRange, StatsRangePreset } from '../types';
+
+export const STATS_RANGE_PRESETS: { value: StatsRangePreset; label: string }[] = [
+    { value: 'today', label: 'Today' },
+    { value: 'week', label: 'This week' },
+    { value: 'month', label: 'This month' },
+    { value: 'last30Days', label: 'Last 30 days' },
+    { value: 'custom', label: 'Custom' },
+];
+
+/**
+ * Returns local midnight at the start of the given day, shifted by a number of days.
+ * Works on calendar days so that ranges stay correct across DST changes.
+ */
+export const startOfDay = (timestamp: number, dayOffset = 0): number => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + dayOffset);
+    return date.getTime();
+};
+
+/**
+ * Returns local midnight at the start of the Monday of the given day's week.
+ */
+export const startOfWeek = (timestamp: number): number => {
+    const daysSinceMonday = (new Date(timestamp).getDay() + 6) % 7;
+    return startOfDay(timestamp, -daysSinceMonday);
+};
+
+/**
+ * Parses a `YYYY-MM-DD` date input value as local midnight.
+ * @returns The timestamp, or null if the value is not a valid date.
+ */
+export const parseDateInput = (value: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date.getTime();
+};
+
+/**
+ * Resolves a preset into the time span it covers, up to the end of today.
+ * Weeks start on Monday.
+ * @param preset - The selected preset.
+ * @param now - The current time.
+ * @param customRange - The first and last day picked for a custom range, both included.
+ */
+export const getStatsRange = (
+    preset: StatsRangePreset,
+    now: number,
+    customRange?: { fromDay: number; toDay: number }
+): DateRange => {
+    const today = startOfDay(now);
+    const tomorrow = startOfDay(now, 1);
+
+    switch (preset) {
+        case 'today':
+            return { from: today, to: tomorrow };
+        case 'week':
+            return { from: startOfWeek(today), to: tomorrow };
+        case 'month': {
+            const date = new Date(today);
+            return { from: new Date(date.getFullYear(), date.getMonth(), 1).getTime(), to: tomorrow };
+        }
+        case 'last30Days':
+            return { from: startOfDay(today, -29), to: tomorrow };
+        case 'custom':
+            if (!customRange) {
+                return { from: today, to: tomorrow };
+            }
+            return {
+                from: startOfDay(customRange.fromDay),
+                to: startOfDay(customRange.toDay, 1),
+            };
+    }
+};
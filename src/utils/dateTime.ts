@@ -14,4 +14,46 @@ export const formatDateTime = (timestamp: number): string => {
     });
 
     return `${dateStr} ${timeStr}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Formats a timestamp as a local `YYYY-MM-DD` date, as used by date inputs and file names.
+ */
+export const formatLocalDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Formats a total duration in milliseconds to a string of hours and minutes.
+ * @param milliseconds - The total duration in milliseconds.
+ * @returns A string of hours and minutes, or '0m' if the duration is 0 milliseconds.
+ */
+export const formatTotalDuration = (milliseconds: number): string => {
+    const totalMinutes = Math.round(milliseconds / 60000);
+
+    if (totalMinutes === 0) return '0m';
+
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    if (hours > 0) {
+        if (minutes > 0) {
+            return `${hours}h ${minutes}m`;
+        }
+        return `${hours}h`;
+    }
+    return `${minutes}m`;
+};
+
+/**
+ * Formats the day of a timestamp as a short label, e.g. "Mon, 11 Mar".
+ */
+export const formatDayLabel = (timestamp: number): string =>
+    new Date(timestamp).toLocaleDateString('en-GB', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+    });
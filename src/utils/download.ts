@@ -0,0 +1,15 @@
+/**
+ * Offers generated contents to the user as a file download.
+ * @param contents - The file contents.
+ * @param fileName - The suggested name of the downloaded file.
+ * @param type - The MIME type of the file.
+ */
+export const downloadFile = (contents: string, fileName: string, type: string): void => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
@@ -0,0 +1,47 @@
+/**
+ * Scores how well a query matches some text. Every character of the query
+ * has to appear in the text, in order; runs of characters and characters at
+ * the start of a word score higher.
+ * @returns null when the text does not match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const needle = query.trim().toLowerCase();
+    const haystack = text.toLowerCase();
+    if (!needle) {
+        return 0;
+    }
+
+    let score = 0;
+    let previousIndex = -1;
+    for (const character of needle) {
+        if (character === ' ') {
+            continue;
+        }
+        const index = haystack.indexOf(character, previousIndex + 1);
+        if (index === -1) {
+            return null;
+        }
+
+        score += 1;
+        if (index === previousIndex + 1) {
+            score += 2;
+        }
+        if (index === 0 || /[\s\-_/.:]/.test(haystack[index - 1])) {
+            score += 3;
+        }
+        previousIndex = index;
+    }
+    // Prefer shorter texts when the matches are as good
+    return score - haystack.length / 100;
+};
+
+/**
+ * Keeps the items that match a query, best matches first. Items that score
+ * the same keep their order, so an empty query returns every item as is.
+ */
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] =>
+    items
+        .map((item, index) => ({ item, index, score: fuzzyScore(query, getText(item)) }))
+        .filter((match): match is { item: T; index: number; score: number } => match.score !== null)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map((match) => match.item);
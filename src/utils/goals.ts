@@ -0,0 +1,85 @@
+import { DailyFocus, Streaks, WeeklyGoalProgress } from '../types';
+import { startOfDay, startOfWeek } from './dateRanges';
+
+/**
+ * Counts completed pomodoros per local calendar day.
+ * @param endTimes - End times of completed pomodoros.
+ * @returns Pomodoros keyed by the local midnight starting their day.
+ */
+export const countPomodorosByDay = (endTimes: number[]): Map<number, number> => {
+    const counts = new Map<number, number>();
+    endTimes.forEach((endTime) => {
+        const day = startOfDay(endTime);
+        counts.set(day, (counts.get(day) ?? 0) + 1);
+    });
+    return counts;
+};
+
+/**
+ * Calculates streaks of consecutive days reaching the daily pomodoro goal.
+ * Today only ends the current streak once it is over, so a streak carries on
+ * from yesterday until today's goal is reached.
+ * @param endTimes - End times of every completed pomodoro.
+ * @param dailyGoal - Pomodoros needed for a day to count.
+ * @param now - The current time.
+ */
+export const calculateStreaks = (endTimes: number[], dailyGoal: number, now: number): Streaks => {
+    const goalDays = new Set(
+        [...countPomodorosByDay(endTimes)]
+            .filter(([, count]) => count >= dailyGoal)
+            .map(([day]) => day)
+    );
+
+    let longest = 0;
+    let run = 0;
+    let previousDay: number | null = null;
+    [...goalDays].sort((a, b) => a - b).forEach((day) => {
+        // Step by calendar days, as days are 23 or 25 hours long around DST changes
+        run = previousDay !== null && startOfDay(previousDay, 1) === day ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previousDay = day;
+    });
+
+    const today = startOfDay(now);
+    let current = 0;
+    let day = goalDays.has(today) ? today : startOfDay(today, -1);
+    while (goalDays.has(day)) {
+        current++;
+        day = startOfDay(day, -1);
+    }
+
+    return { current, longest };
+};
+
+/**
+ * Sums daily focus into Monday-to-Sunday weeks and checks them against the goals.
+ * @param days - Daily focus, oldest first.
+ * @param weeklyFocusGoal - Focus minutes needed per week.
+ * @param dailyGoal - Pomodoros needed per day.
+ * @returns One entry per week touched by the days, oldest first.
+ */
+export const getWeeklyGoalProgress = (
+    days: DailyFocus[],
+    weeklyFocusGoal: number,
+    dailyGoal: number
+): WeeklyGoalProgress[] => {
+    const weeks = new Map<number, WeeklyGoalProgress>();
+
+    days.forEach((day) => {
+        const weekStart = startOfWeek(day.day);
+        const week = weeks.get(weekStart) ?? {
+            weekStart,
+            minutes: 0,
+            daysMeetingDailyGoal: 0,
+            met: false,
+        };
+        week.minutes += day.minutes;
+        if (day.pomodoros >= dailyGoal) {
+            week.daysMeetingDailyGoal++;
+        }
+        week.met = week.minutes >= weeklyFocusGoal;
+        weeks.set(weekStart, week);
+    });
+
+    return [...weeks.values()].sort((a, b) => a.weekStart - b.weekStart);
+};
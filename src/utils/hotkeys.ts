@@ -0,0 +1,97 @@
+import { COMMAND_DEFINITIONS } from '../constants/commandConstants';
+import type { Command, CommandId, KeyBindings } from '../types';
+
+type KeyComboEvent = Pick<
+    KeyboardEvent,
+    'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'
+>;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+/**
+ * Describes a key press as a combo such as "Mod+K", "Shift+S" or "?".
+ * Ctrl and Cmd are both "Mod". Letters and digits are read from the physical
+ * key so Alt and Shift do not change them; other characters already include
+ * Shift (e.g. "?"), so it is left out for them.
+ * @returns null for a press of a modifier on its own.
+ */
+export const getKeyCombo = (event: KeyComboEvent): string | null => {
+    if (MODIFIER_KEYS.includes(event.key)) {
+        return null;
+    }
+
+    let key = event.key;
+    let includeShift = true;
+    if (/^Key[A-Z]$/.test(event.code)) {
+        key = event.code.slice(3);
+    } else if (/^Digit[0-9]$/.test(event.code)) {
+        key = event.code.slice(5);
+    } else if (event.key === ' ') {
+        key = 'Space';
+    } else if (event.key.length === 1) {
+        key = event.key.toUpperCase();
+        includeShift = false;
+    }
+
+    const modifiers = [
+        (event.ctrlKey || event.metaKey) && 'Mod',
+        event.altKey && 'Alt',
+        event.shiftKey && includeShift && 'Shift',
+    ].filter(Boolean);
+    return [...modifiers, key].join('+');
+};
+
+/**
+ * Splits a combo into the keys to show, e.g. ["⌘", "K"] on a Mac.
+ */
+export const getKeyComboParts = (combo: string, isMac: boolean): string[] =>
+    // A combo may end in the "+" key itself
+    combo
+        .split(/\+(?!$)/)
+        .filter(Boolean)
+        .map((part) => (part === 'Mod' ? (isMac ? '⌘' : 'Ctrl') : part));
+
+export const isMacPlatform = () =>
+    typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+// Combos that text fields handle themselves
+const TEXT_EDITING_COMBOS = ['Mod+Z', 'Mod+Shift+Z', 'Mod+Y', 'Mod+A', 'Mod+C', 'Mod+V', 'Mod+X'];
+
+const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const isActivatableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement &&
+    target.closest('button, a, [role="button"], [role="radio"]') !== null;
+
+/**
+ * Whether a key press belongs to the element it was pressed on rather than
+ * to a shortcut. Typing in a field only triggers shortcuts that use Ctrl or
+ * Cmd, other than its own undo, copy and paste, and Space and Enter keep
+ * pressing the focused button.
+ */
+export const shouldIgnoreHotkey = (target: EventTarget | null, combo: string): boolean => {
+    if (isEditableTarget(target)) {
+        return !combo.startsWith('Mod+') || TEXT_EDITING_COMBOS.includes(combo);
+    }
+    return (combo === 'Space' || combo === 'Enter') && isActivatableTarget(target);
+};
+
+/**
+ * Finds the command bound to a combo.
+ */
+export const findCommandForCombo = (keyBindings: KeyBindings, combo: string): CommandId | null =>
+    (Object.keys(COMMAND_DEFINITIONS) as CommandId[]).find(
+        (commandId) => keyBindings[commandId] === combo
+    ) ?? null;
+
+/**
+ * Creates a bindable command, titled and grouped as in COMMAND_DEFINITIONS.
+ */
+export const createCommand = (id: CommandId, run: () => void, disabled = false): Command => ({
+    id,
+    ...COMMAND_DEFINITIONS[id],
+    disabled,
+    run,
+});
@@ -0,0 +1,53 @@
+import { Interruption, InterruptionSummary, Task, TimerState } from '../types';
+
+/**
+ * Closes a pause in progress at the moment the timer was resumed or stopped.
+ */
+export const endInterruption = (
+    interruption: Omit<Interruption, 'duration'>,
+    endedAt: number
+): Interruption => ({
+    ...interruption,
+    duration: Math.max(0, endedAt - interruption.pausedAt),
+});
+
+/**
+ * Lists every pause of a session as it ends, including one still in progress
+ * when the session is marked as done while paused.
+ * @param state - The timer state of the session.
+ * @param endTime - When the session ended.
+ */
+export const getSessionInterruptions = (state: TimerState, endTime: number): Interruption[] =>
+    state.currentInterruption
+        ? [...state.interruptions, endInterruption(state.currentInterruption, endTime)]
+        : state.interruptions;
+
+/**
+ * Totals the interruptions of completed pomodoros. Records from before
+ * interruptions were tracked are left out.
+ */
+export const summarizeInterruptions = (tasks: Task[]): InterruptionSummary => {
+    const summary: InterruptionSummary = {
+        sessions: 0,
+        interruptions: 0,
+        internal: 0,
+        external: 0,
+        pausedTime: 0,
+    };
+
+    tasks.forEach((task) => {
+        if (!task.interruptions) return;
+        summary.sessions++;
+        task.interruptions.forEach((interruption) => {
+            summary.interruptions++;
+            summary.pausedTime += interruption.duration;
+            if (interruption.reason === 'internal') {
+                summary.internal++;
+            } else if (interruption.reason === 'external') {
+                summary.external++;
+            }
+        });
+    });
+
+    return summary;
+};
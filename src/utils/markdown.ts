@@ -0,0 +1,128 @@
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+export const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+// Links to anything else, e.g. javascript: or data: URLs, are shown as plain text
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+const renderLink = (text: string, url: string): string =>
+    `<a href="${url}" target="_blank" rel="noopener noreferrer">${text}</a>`;
+
+/**
+ * Renders the inline formatting of a line: `code`, **bold**, *italic*,
+ * ~~strikethrough~~, [links](https://…) and bare http(s) URLs.
+ * The text is escaped before any tags are added.
+ */
+const renderInline = (text: string): string => {
+    // Code spans and links are set aside so the other formatting leaves them alone
+    const placeholders: string[] = [];
+    const setAside = (html: string) => `\uE000${placeholders.push(html) - 1}\uE000`;
+
+    const html = escapeHtml(text.replace(/\uE000/g, ''))
+        .replace(/`([^`]+)`/g, (_, code: string) => setAside(`<code>${code}</code>`))
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) =>
+            SAFE_URL_PATTERN.test(url) ? setAside(renderLink(label, url)) : label
+        )
+        .replace(/(^|[\s(])(https?:\/\/[^\s<]+[^\s<.,;:!?)])/g, (_, before: string, url: string) =>
+            before + setAside(renderLink(url, url))
+        )
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/~~(.+?)~~/g, '<del>$1</del>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>')
+        // Underscores inside words, as in snake_case, are left as they are
+        .replace(/(^|[^\w])_(.+?)_(?!\w)/g, '$1<em>$2</em>');
+
+    return html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => placeholders[Number(index)]);
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^\s*```/;
+
+/**
+ * Renders notes written in a subset of Markdown as HTML. Headings, lists,
+ * quotes, code blocks and paragraphs are supported, with the formatting of
+ * renderInline. Raw HTML in the notes is escaped rather than rendered, so
+ * the result is safe to insert into the page.
+ * @param markdown - The notes to render.
+ * @returns The HTML of the notes.
+ */
+export const renderMarkdown = (markdown: string): string => {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+    let index = 0;
+
+    // Collects the lines from the current one that match a pattern, e.g. the items of a list
+    const takeLines = (pattern: RegExp): string[] => {
+        const taken: string[] = [];
+        while (index < lines.length && pattern.test(lines[index])) {
+            taken.push(lines[index].replace(pattern, '$1'));
+            index++;
+        }
+        return taken;
+    };
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (FENCE_PATTERN.test(line)) {
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+                code.push(lines[index]);
+                index++;
+            }
+            // Skips the closing fence; an unclosed block runs to the end
+            index++;
+            blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        } else if (HEADING_PATTERN.test(line)) {
+            const [, hashes, heading] = HEADING_PATTERN.exec(line)!;
+            blocks.push(`<h${hashes.length}>${renderInline(heading)}</h${hashes.length}>`);
+            index++;
+        } else if (UNORDERED_ITEM_PATTERN.test(line)) {
+            const items = takeLines(UNORDERED_ITEM_PATTERN);
+            blocks.push(`<ul>${items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</ul>`);
+        } else if (ORDERED_ITEM_PATTERN.test(line)) {
+            const items = takeLines(ORDERED_ITEM_PATTERN);
+            blocks.push(`<ol>${items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</ol>`);
+        } else if (QUOTE_PATTERN.test(line)) {
+            const quote = takeLines(QUOTE_PATTERN);
+            blocks.push(`<blockquote>${quote.map(renderInline).join('<br>')}</blockquote>`);
+        } else if (line.trim() === '') {
+            index++;
+        } else {
+            const paragraph: string[] = [];
+            while (
+                index < lines.length &&
+                lines[index].trim() !== '' &&
+                ![FENCE_PATTERN, HEADING_PATTERN, UNORDERED_ITEM_PATTERN, ORDERED_ITEM_PATTERN, QUOTE_PATTERN]
+                    .some((pattern) => pattern.test(lines[index]))
+            ) {
+                paragraph.push(lines[index]);
+                index++;
+            }
+            blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+        }
+    }
+
+    return blocks.join('');
+};
+
+/**
+ * The first line of notes with the Markdown markers removed, for previews.
+ */
+export const getNotesPreview = (markdown: string): string =>
+    (markdown.split('\n').find((line) => line.trim() !== '' && !FENCE_PATTERN.test(line)) ?? '')
+        .replace(/^\s*(#{1,6}|[-*+]|\d+[.)]|>)\s*/, '')
+        .replace(/\[([^\]]+)\]\([^)\s]+\)/g, '$1')
+        .replace(/[*_~`]/g, '')
+        .trim();
@@ -1,5 +1,5 @@
 import type { TimerType } from '../constants/timerConstants';
-import { NOTIFICATION_MESSAGES } from '../constants/timerConstants';
+import { NOTIFICATION_MESSAGES, OVERTIME_MESSAGE } from '../constants/timerConstants';
 
 
 // TODO: remove all notification logic and rework
@@ -21,11 +21,17 @@ export const initializeNotifications = async () => {
   return false;
 };
 
-export const showNotification = (timerType: TimerType) => {
-
+const notify = (options: NotificationOptions) => {
   if (Notification.permission === "granted") {
-    new Notification("Pomodoro Timer", {
-      body: NOTIFICATION_MESSAGES[timerType],
-    });
+    new Notification("Pomodoro Timer", options);
   }
-}; 
\ No newline at end of file
+};
+
+export const showNotification = (timerType: TimerType) => {
+  notify({ body: NOTIFICATION_MESSAGES[timerType] });
+};
+
+// Tagged so that every open tab replaces the same notification rather than adding its own
+export const showOvertimeNotification = () => {
+  notify({ body: OVERTIME_MESSAGE, tag: "overtime" });
+};
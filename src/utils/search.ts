@@ -0,0 +1,37 @@
+import type { DateRange, SearchDatePreset, Task } from '../types';
+import { getStatsRange, STATS_RANGE_PRESETS } from './dateRanges';
+
+export const SEARCH_DATE_PRESETS: { value: SearchDatePreset; label: string }[] = [
+    { value: 'anyTime', label: 'Any time' },
+    ...STATS_RANGE_PRESETS.filter(
+        (preset): preset is { value: Exclude<SearchDatePreset, 'anyTime'>; label: string } =>
+            preset.value !== 'custom'
+    ),
+];
+
+/**
+ * Splits text into the distinct words it is searched by: lower case, without
+ * accents, and broken at anything other than letters and digits.
+ */
+export const tokenize = (text: string): string[] => [
+    ...new Set(
+        text
+            .normalize('NFKD')
+            .replace(/\p{M}/gu, '')
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(Boolean)
+    ),
+];
+
+/**
+ * The words a task is found by, from its description, category and notes.
+ */
+export const getSearchTerms = (task: Pick<Task, 'category' | 'description' | 'notes'>): string[] =>
+    tokenize([task.category, task.description, task.notes ?? ''].join(' '));
+
+/**
+ * Resolves a date filter into the time span it covers, or null for any time.
+ */
+export const getSearchRange = (preset: SearchDatePreset, now: number): DateRange | null =>
+    preset === 'anyTime' ? null : getStatsRange(preset, now);
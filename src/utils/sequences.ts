@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TIMER_TYPES } from '../constants/timerConstants';
+import type { SequencePreset, SessionSequence, Task } from '../types';
+
+/**
+ * Creates a sequence from a preset or from scratch, used on no day until picked.
+ */
+export const createSequence = (preset: SequencePreset): SessionSequence => ({
+    id: uuidv4(),
+    name: preset.name,
+    segments: preset.segments.map((segment) => ({ ...segment })),
+    weekdays: [],
+});
+
+/**
+ * Checks a sequence before it is saved.
+ * @throws If it has no name, no work segment, or a segment without a positive whole-minute duration
+ */
+export const validateSequence = (sequence: SessionSequence): void => {
+    if (!sequence.name.trim()) {
+        throw new Error('Sequence name cannot be empty');
+    }
+    if (!sequence.segments.some((segment) => segment.type === TIMER_TYPES.WORK)) {
+        throw new Error('A sequence needs at least one work segment');
+    }
+    if (
+        !sequence.segments.every(
+            (segment) => Number.isInteger(segment.duration / 60000) && segment.duration > 0
+        )
+    ) {
+        throw new Error('Segments must last a whole number of minutes');
+    }
+};
+
+/**
+ * Index of the segment a new cycle of the sequence starts with: its first work segment.
+ */
+export const getStartSegmentIndex = (sequence: SessionSequence): number =>
+    Math.max(0, sequence.segments.findIndex((segment) => segment.type === TIMER_TYPES.WORK));
+
+/**
+ * The sequence to run: the task's own, else the one picked for the day of the week
+ * unless the task has a timer profile of its own. Without a sequence the timer
+ * alternates work and breaks from the timer settings and the task's profile.
+ */
+export const getActiveSequence = (
+    sequences: SessionSequence[],
+    task: Task | null,
+    date: Date = new Date()
+): SessionSequence | null =>
+    sequences.find((sequence) => sequence.id === task?.sequenceId) ??
+    (task?.timerProfile
+        ? null
+        : sequences.find((sequence) => sequence.weekdays.includes(date.getDay()))) ??
+    null;
@@ -0,0 +1,101 @@
+import { TIMER_TYPES } from '../constants/timerConstants';
+import {
+    BreakAdherence,
+    FocusSegment,
+    Interruption,
+    SessionOutcome,
+    Task,
+    TimerSession,
+    TimerSettings,
+} from '../types';
+
+/**
+ * Splits a session into the spans the timer was running, between its pauses.
+ * @param startTime - When the session was started.
+ * @param endTime - When the session ended.
+ * @param interruptions - The pauses of the session.
+ */
+export const getFocusSegments = (
+    startTime: number,
+    endTime: number,
+    interruptions: Interruption[]
+): FocusSegment[] => {
+    const segments: FocusSegment[] = [];
+    let segmentStart = startTime;
+
+    [...interruptions]
+        .sort((a, b) => a.pausedAt - b.pausedAt)
+        .forEach((interruption) => {
+            const segmentEnd = Math.min(interruption.pausedAt, endTime);
+            if (segmentEnd > segmentStart) {
+                segments.push({ start: segmentStart, end: segmentEnd });
+            }
+            segmentStart = Math.max(segmentStart, interruption.pausedAt + interruption.duration);
+        });
+
+    if (endTime > segmentStart) {
+        segments.push({ start: segmentStart, end: endTime });
+    }
+    return segments;
+};
+
+/**
+ * Fills in the start time, focus segments and timer settings of a completed
+ * pomodoro recorded before they were stored. The start is worked back from
+ * the duration and any pauses.
+ * @param task - The completed pomodoro.
+ * @param timerSettings - Settings to assume when the record has none.
+ * @returns The task itself when there is nothing to fill in.
+ */
+export const backfillSessionDetails = (task: Task, timerSettings: TimerSettings): Task => {
+    if (task.startTime !== undefined || typeof task.endTime !== 'number') {
+        return task;
+    }
+
+    const interruptions = task.interruptions ?? [];
+    const pausedTime = interruptions.reduce((sum, interruption) => sum + interruption.duration, 0);
+    const startTime = task.endTime - (task.duration ?? 0) - pausedTime;
+
+    return {
+        ...task,
+        startTime,
+        segments: task.duration ? getFocusSegments(startTime, task.endTime, interruptions) : [],
+        timerSettings: task.timerSettings ?? { ...timerSettings },
+    };
+};
+
+/**
+ * Works out how many of the breaks suggested after pomodoros were taken.
+ * A stopped break starts over as the same break, so the sessions of a break
+ * count once, by how the last of them ended.
+ */
+export const summarizeBreakAdherence = (sessions: TimerSession[]): BreakAdherence => {
+    const outcomes: SessionOutcome[] = [];
+    let isBreakPending = false;
+    [...sessions]
+        .sort((a, b) => a.endTime - b.endTime)
+        .forEach((session) => {
+            if (session.type === TIMER_TYPES.WORK) {
+                isBreakPending = false;
+                return;
+            }
+            if (isBreakPending) {
+                outcomes[outcomes.length - 1] = session.outcome;
+            } else {
+                outcomes.push(session.outcome);
+            }
+            isBreakPending = session.outcome === 'stopped';
+        });
+
+    const countOutcome = (outcome: SessionOutcome) =>
+        outcomes.filter((candidate) => candidate === outcome).length;
+    const taken = countOutcome('completed');
+
+    return {
+        suggested: outcomes.length,
+        taken,
+        skipped: countOutcome('skipped'),
+        stopped: countOutcome('stopped'),
+        ratio: outcomes.length > 0 ? taken / outcomes.length : null,
+    };
+};
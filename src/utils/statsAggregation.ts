@@ -0,0 +1,164 @@
+import { CategoryAnalytics, CategoryTotal, DailyFocus, DateRange, Task } from '../types';
+import { normalizeCategory } from './categories';
+import { startOfDay } from './dateRanges';
+
+const toMinutes = (milliseconds: number = 0): number => milliseconds / 60000;
+
+/**
+ * Picks the spelling shown for each category: the first one found in the tasks,
+ * which is the most recent for tasks sorted newest first.
+ */
+const getCategoryNames = (tasks: Task[]): Map<string, string> => {
+    const names = new Map<string, string>();
+    tasks.forEach((task) => {
+        const key = normalizeCategory(task.category);
+        if (!names.has(key)) {
+            names.set(key, task.category.trim());
+        }
+    });
+    return names;
+};
+
+/**
+ * Sums focus minutes and pomodoros for every day of a range, including days
+ * without any completed tasks.
+ * @param tasks - Completed tasks; those outside the range are ignored.
+ * @param range - The days to cover.
+ * @returns One entry per local calendar day, oldest first.
+ */
+export const aggregateFocusByDay = (tasks: Task[], range: DateRange): DailyFocus[] => {
+    const categoryNames = getCategoryNames(tasks);
+    const days: DailyFocus[] = [];
+    const daysByStart = new Map<number, DailyFocus>();
+
+    for (let offset = 0; startOfDay(range.from, offset) < range.to; offset++) {
+        const day: DailyFocus = {
+            day: startOfDay(range.from, offset),
+            minutes: 0,
+            pomodoros: 0,
+            byCategory: {},
+        };
+        days.push(day);
+        daysByStart.set(day.day, day);
+    }
+
+    tasks.forEach((task) => {
+        if (task.endTime === undefined) return;
+        const day = daysByStart.get(startOfDay(task.endTime));
+        if (!day) return;
+
+        const minutes = toMinutes(task.duration);
+        const category = categoryNames.get(normalizeCategory(task.category)) as string;
+        day.minutes += minutes;
+        day.pomodoros += 1;
+        day.byCategory[category] = (day.byCategory[category] ?? 0) + minutes;
+    });
+
+    return days;
+};
+
+/**
+ * Totals focus minutes per category, largest first. Categories are matched
+ * case-insensitively.
+ */
+export const aggregateFocusByCategory = (tasks: Task[]): CategoryTotal[] => {
+    const categoryNames = getCategoryNames(tasks);
+    const totals = new Map<string, CategoryTotal>();
+
+    tasks.forEach((task) => {
+        const key = normalizeCategory(task.category);
+        const total = totals.get(key) ?? {
+            key,
+            category: categoryNames.get(key) as string,
+            minutes: 0,
+            pomodoros: 0,
+        };
+        total.minutes += toMinutes(task.duration);
+        total.pomodoros += 1;
+        totals.set(key, total);
+    });
+
+    return [...totals.values()].sort(
+        (a, b) => b.minutes - a.minutes || a.category.localeCompare(b.category)
+    );
+};
+
+/**
+ * Builds the per-category breakdown of the Stats page.
+ * @param tasks - Completed tasks in the selected range.
+ * @param recentTasks - Completed tasks of at least the last 14 days, for the week-over-week trend.
+ * @param now - The current time.
+ * @returns One row per category, largest total first.
+ */
+export const getCategoryAnalytics = (
+    tasks: Task[],
+    recentTasks: Task[],
+    now: number
+): CategoryAnalytics[] => {
+    const totals = aggregateFocusByCategory(tasks);
+    const totalMinutes = totals.reduce((sum, total) => sum + total.minutes, 0);
+
+    const thisWeekFrom = startOfDay(now, -6);
+    const lastWeekFrom = startOfDay(now, -13);
+    const tomorrow = startOfDay(now, 1);
+    const weeklyMinutes = new Map<string, { thisWeek: number; lastWeek: number }>();
+
+    recentTasks.forEach((task) => {
+        if (task.endTime === undefined || task.endTime < lastWeekFrom || task.endTime >= tomorrow) {
+            return;
+        }
+        const key = normalizeCategory(task.category);
+        const minutes = weeklyMinutes.get(key) ?? { thisWeek: 0, lastWeek: 0 };
+        if (task.endTime >= thisWeekFrom) {
+            minutes.thisWeek += toMinutes(task.duration);
+        } else {
+            minutes.lastWeek += toMinutes(task.duration);
+        }
+        weeklyMinutes.set(key, minutes);
+    });
+
+    return totals.map((total) => ({
+        ...total,
+        averageMinutes: total.minutes / total.pomodoros,
+        share: totalMinutes > 0 ? total.minutes / totalMinutes : 0,
+        thisWeekMinutes: weeklyMinutes.get(total.key)?.thisWeek ?? 0,
+        lastWeekMinutes: weeklyMinutes.get(total.key)?.lastWeek ?? 0,
+    }));
+};
+
+/**
+ * Relative change of focus time from last week to this week, e.g. 0.5 for +50%.
+ * @returns null when there was no focus time last week to compare with.
+ */
+export const getWeekOverWeekChange = ({
+    thisWeekMinutes,
+    lastWeekMinutes,
+}: Pick<CategoryAnalytics, 'thisWeekMinutes' | 'lastWeekMinutes'>): number | null =>
+    lastWeekMinutes > 0 ? (thisWeekMinutes - lastWeekMinutes) / lastWeekMinutes : null;
+
+/**
+ * Lays days out in calendar weeks starting on Monday, as columns of a heatmap.
+ * The first week is padded with nulls for the days before the range starts.
+ */
+export const groupDaysIntoWeeks = (days: DailyFocus[]): (DailyFocus | null)[][] => {
+    if (days.length === 0) return [];
+
+    const leadingDays = (new Date(days[0].day).getDay() + 6) % 7;
+    const cells: (DailyFocus | null)[] = [...Array(leadingDays).fill(null), ...days];
+    const weeks: (DailyFocus | null)[][] = [];
+
+    for (let i = 0; i < cells.length; i += 7) {
+        weeks.push(cells.slice(i, i + 7));
+    }
+    return weeks;
+};
+
+/**
+ * Buckets a day's focus minutes into a heatmap intensity from 0 (none) to 4.
+ * @param minutes - Focus minutes of the day.
+ * @param maxMinutes - The highest daily focus minutes shown in the heatmap.
+ */
+export const getHeatmapLevel = (minutes: number, maxMinutes: number): number => {
+    if (minutes <= 0 || maxMinutes <= 0) return 0;
+    return Math.min(4, Math.max(1, Math.ceil((minutes / maxMinutes) * 4)));
+};
@@ -0,0 +1,51 @@
+import { Subtask, Task } from '../types';
+
+/**
+ * Counts the ticked subtasks of a checklist.
+ */
+export const getSubtaskProgress = (subtasks: Subtask[] = []) => ({
+    done: subtasks.filter((subtask) => subtask.done).length,
+    total: subtasks.length,
+});
+
+/**
+ * Ticks or unticks a subtask, recording when it was ticked.
+ */
+export const toggleSubtask = (subtasks: Subtask[], subtaskId: string, now: number): Subtask[] =>
+    subtasks.map((subtask) => {
+        if (subtask.id !== subtaskId) {
+            return subtask;
+        }
+        return subtask.done
+            ? { ...subtask, done: false, doneAt: undefined }
+            : { ...subtask, done: true, doneAt: now };
+    });
+
+/**
+ * Finds the subtasks ticked during a session and still ticked at its end.
+ * @param subtasks - The checklist of the task.
+ * @param startTime - When the session started.
+ * @param endTime - When the session ended.
+ */
+export const getCheckedSubtaskIds = (
+    subtasks: Subtask[] = [],
+    startTime: number,
+    endTime: number
+): string[] =>
+    subtasks
+        .filter(
+            (subtask) =>
+                subtask.done &&
+                subtask.doneAt !== undefined &&
+                subtask.doneAt >= startTime &&
+                subtask.doneAt <= endTime
+        )
+        .map((subtask) => subtask.id);
+
+/**
+ * The subtasks a completed pomodoro achieved, in checklist order.
+ */
+export const getCheckedSubtasks = (task: Task): Subtask[] => {
+    const checkedIds = new Set(task.checkedSubtaskIds ?? []);
+    return (task.subtasks ?? []).filter((subtask) => checkedIds.has(subtask.id));
+};
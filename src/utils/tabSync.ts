@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { TabSyncEnvelope, TabSyncMessage } from '../types';
+import { logger } from './logger';
+
+const tabSyncLogger = logger.createLogger('TabSync');
+
+export const CHANNEL_NAME = 'pomodoro-panda-sync';
+const TIMER_LEADER_LOCK = 'pomodoro-panda-timer-leader';
+
+// Identifies this tab so it can ignore its own messages
+export const TAB_ID = uuidv4();
+
+export interface TabChannel {
+  post: (message: TabSyncMessage) => void;
+  subscribe: (handler: (message: TabSyncMessage) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * Opens a channel to every other tab of the app. Falls back to a no-op
+ * channel in browsers without BroadcastChannel, where each tab stays independent.
+ */
+export function createTabChannel(): TabChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return {
+      post: () => {},
+      subscribe: () => () => {},
+      close: () => {},
+    };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+
+  return {
+    post: (message) => {
+      const envelope: TabSyncEnvelope = { senderId: TAB_ID, message };
+      try {
+        channel.postMessage(envelope);
+      } catch (error) {
+        tabSyncLogger.error('Failed to post message to other tabs:', error);
+      }
+    },
+    subscribe: (handler) => {
+      const listener = (event: MessageEvent<TabSyncEnvelope>) => {
+        if (!event.data || event.data.senderId === TAB_ID) return;
+        handler(event.data.message);
+      };
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Competes with the other tabs to own the timer. onAcquired is called once this
+ * tab becomes the leader, which lasts until the returned release function is
+ * called or the tab closes. Without the Web Locks API every tab leads itself.
+ */
+export function requestTimerLeadership(onAcquired: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+
+  navigator.locks
+    .request(TIMER_LEADER_LOCK, { signal: controller.signal }, () => {
+      onAcquired();
+      // Hold the lock until released
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch((error) => {
+      if (error?.name !== 'AbortError') {
+        tabSyncLogger.warn('Failed to request timer leadership:', error);
+      }
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
@@ -0,0 +1,17 @@
+import type { Task } from '../types';
+
+/**
+ * Finds the task the timer runs: the one picked with "Focus on this task",
+ * or the first task when none was picked or the picked one is gone.
+ */
+export const getSelectedTask = (tasks: Task[], selectedTaskId: string | null): Task | null =>
+    tasks.find((task) => task.id === selectedTaskId) ?? tasks[0] ?? null;
+
+/**
+ * Orders tasks the way they will be worked on: the active task first,
+ * wherever it is in the list, then the others in list order.
+ */
+export const getWorkOrder = (tasks: Task[], activeTaskId: string | null): Task[] => {
+    const activeTask = tasks.find((task) => task.id === activeTaskId);
+    return activeTask ? [activeTask, ...tasks.filter((task) => task !== activeTask)] : tasks;
+};
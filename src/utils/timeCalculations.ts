@@ -1,6 +1,14 @@
 import { Task, TimerSettings } from '../types';
 import { DEFAULT_TIMER_SETTINGS } from '../constants/timerConstants';
+import { getWorkOrder } from './taskSelection';
+import { applyTimerProfile } from './timerProfile';
 
+/**
+ * Estimates when the task at taskIndex in the list will be finished. The
+ * active task is worked on first, so only the tasks before it in that order,
+ * and the breaks after each of them, are counted. Tasks with their own timer
+ * profile count with their own work and break lengths.
+ */
 export const calculateEstimatedCompletion = (
     tasks: Task[],
     taskIndex: number,
@@ -12,10 +20,13 @@ export const calculateEstimatedCompletion = (
 ): number => {
     const now = Date.now();
     let accumulatedTime = 0;
+    const orderedTasks = getWorkOrder(tasks, activeTaskId);
+    const lastIndex = orderedTasks.indexOf(tasks[taskIndex]);
 
-    for (let i = 0; i <= taskIndex; i++) {
-        const task = tasks[i];
+    for (let i = 0; i <= lastIndex; i++) {
+        const task = orderedTasks[i];
         const isActive = task.id === activeTaskId;
+        const taskSettings = applyTimerProfile(settings, task.timerProfile);
 
         if (isActive && currentTimeLeft !== null) {
             // For active task, use actual remaining time
@@ -25,21 +36,21 @@ export const calculateEstimatedCompletion = (
                 accumulatedTime += Math.max(0, (currentTimeLeft ) - elapsed);
             } else {
                 // If paused or not started, use full remaining time
-                accumulatedTime += currentTimeLeft ;
+                accumulatedTime += Math.max(0, currentTimeLeft);
             }
         } else {
             // For non-active tasks, use full duration
-            accumulatedTime += (task.pomodoros || 1) * settings.workDuration ;
+            accumulatedTime += (task.pomodoros || 1) * taskSettings.workDuration ;
         }
 
         // Add break periods
-        if (i < taskIndex) {
+        if (i < lastIndex) {
             const breakCount = task.pomodoros || 1;
             for (let p = 0; p < breakCount; p++) {
-                if ((p + 1) % settings.sessionsUntilLongBreak === 0) {
-                    accumulatedTime += settings.longBreakDuration ;
+                if ((p + 1) % taskSettings.sessionsUntilLongBreak === 0) {
+                    accumulatedTime += taskSettings.longBreakDuration ;
                 } else {
-                    accumulatedTime += settings.breakDuration ;
+                    accumulatedTime += taskSettings.breakDuration ;
                 }
             }
         }
@@ -56,7 +67,7 @@ export const calculateTotalDuration = (
 
     tasks.forEach(task => {
         const pomodoros = task.pomodoros || 1;
-        const workDuration = pomodoros * settings.workDuration;
+        const workDuration = pomodoros * applyTimerProfile(settings, task.timerProfile).workDuration;
         // Only add work periods, converting from milliseconds to minutes
         totalMinutes += workDuration / 60000;
     });
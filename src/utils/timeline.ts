@@ -0,0 +1,48 @@
+import { TIMER_TYPES } from '../constants/timerConstants';
+import { DateRange, FocusSegment, Task, TimelineBlock, TimerSession } from '../types';
+
+// Cuts a segment down to the part inside the range, if any
+const clipSegment = (segment: FocusSegment, range: DateRange): FocusSegment | null => {
+    const start = Math.max(segment.start, range.from);
+    const end = Math.min(segment.end, range.to);
+    return end > start ? { start, end } : null;
+};
+
+/**
+ * Lays out a day's work and breaks as blocks on a timeline. Work comes from
+ * the focus segments of completed pomodoros, breaks from the sessions log,
+ * so pauses and idle time are left as gaps.
+ * @param range - The day shown.
+ * @param completedTasks - Completed pomodoros that may overlap the day.
+ * @param sessions - Logged sessions that may overlap the day.
+ * @returns The blocks inside the day, in time order.
+ */
+export const buildDayTimeline = (
+    range: DateRange,
+    completedTasks: Task[],
+    sessions: TimerSession[]
+): TimelineBlock[] => {
+    const blocks: TimelineBlock[] = [];
+
+    completedTasks.forEach((task) => {
+        (task.segments ?? []).forEach((segment) => {
+            const clipped = clipSegment(segment, range);
+            if (clipped) {
+                blocks.push({ type: TIMER_TYPES.WORK, ...clipped, label: task.description });
+            }
+        });
+    });
+
+    sessions
+        .filter((session) => session.type !== TIMER_TYPES.WORK)
+        .forEach((session) => {
+            session.segments.forEach((segment) => {
+                const clipped = clipSegment(segment, range);
+                if (clipped) {
+                    blocks.push({ type: session.type, ...clipped, label: '' });
+                }
+            });
+        });
+
+    return blocks.sort((a, b) => a.start - b.start);
+};
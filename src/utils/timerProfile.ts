@@ -0,0 +1,16 @@
+import type { TimerProfile, TimerSettings } from '../types';
+
+/**
+ * The timer settings with a task's own work and break lengths, if it has any.
+ */
+export const applyTimerProfile = (
+    settings: TimerSettings,
+    profile: TimerProfile | undefined
+): TimerSettings =>
+    profile
+        ? {
+              ...settings,
+              workDuration: profile.workDuration ?? settings.workDuration,
+              breakDuration: profile.breakDuration ?? settings.breakDuration,
+          }
+        : settings;
@@ -0,0 +1,67 @@
+import type { UndoableChange, UndoHistory } from '../types';
+
+// Changes older than this are dropped from the history
+export const MAX_UNDO_HISTORY = 50;
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { past: [], future: [] };
+
+/**
+ * Adds a new change to the history. Changes that were undone can no longer
+ * be redone once something else has changed.
+ */
+export const recordChange = (history: UndoHistory, change: UndoableChange): UndoHistory => ({
+    past: [...history.past, change].slice(-MAX_UNDO_HISTORY),
+    future: [],
+});
+
+/**
+ * Takes the change to undo next.
+ * @returns The history once it is undone, and the change; null when there is nothing to undo.
+ */
+export const takeUndo = (
+    history: UndoHistory
+): { history: UndoHistory; change: UndoableChange } | null => {
+    const change = history.past[history.past.length - 1];
+    if (!change) {
+        return null;
+    }
+    return {
+        change,
+        history: { past: history.past.slice(0, -1), future: [...history.future, change] },
+    };
+};
+
+/**
+ * Takes the undone change to make again next.
+ * @returns The history once it is redone, and the change; null when there is nothing to redo.
+ */
+export const takeRedo = (
+    history: UndoHistory
+): { history: UndoHistory; change: UndoableChange } | null => {
+    const change = history.future[history.future.length - 1];
+    if (!change) {
+        return null;
+    }
+    return {
+        change,
+        history: { past: [...history.past, change], future: history.future.slice(0, -1) },
+    };
+};
+
+/**
+ * Puts tasks back in an earlier order. Tasks added since keep their place
+ * after the ones that were there before.
+ * @param tasks - The current tasks.
+ * @param orderedIds - Task ids in the order to restore.
+ */
+export const restoreTaskOrder = <T extends { id: string }>(tasks: T[], orderedIds: string[]): T[] => {
+    const position = new Map(orderedIds.map((id, index) => [id, index]));
+    return tasks
+        .map((task, index) => ({ task, index }))
+        .sort(
+            (a, b) =>
+                (position.get(a.task.id) ?? orderedIds.length + a.index) -
+                (position.get(b.task.id) ?? orderedIds.length + b.index)
+        )
+        .map(({ task }) => task);
+};